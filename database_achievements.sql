@@ -0,0 +1,240 @@
+-- Streaks and achievement badges
+-- Children get badges for keeping up with their therapy: meeting the daily
+-- goal several days in a row, a week with every goal met, cumulative hours
+-- and so on. Badges are worked out from daily_logs against the goal in force
+-- on each day and stored with the date they were earned, so a badge keeps
+-- its date and is never taken away, even if an entry is later edited.
+--
+-- Helpers:
+--   daily_goal_progress(user, from, to) - minutes and goal met per day; used
+--                                         by other server functions only
+--   refresh_achievements(user)          - RPC for the patient and their
+--                                         doctors: awards badges newly earned
+--                                         and returns all badges and streaks
+--
+-- Run after database_timezones.sql (user_today()).
+--
+-- Badge ids (labels live in src/utils/achievements.ts):
+--   first_entry      - first session logged
+--   first_goal_day   - first day with the daily goal met
+--   streak_3/7/14/30 - daily goal met that many days in a row
+--   first_full_week  - daily goal met on every day of a week
+--   hours_10/50/100  - that many hours logged in total
+
+-- ============================================================================
+-- 1. Earned badges
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_achievements (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    badge_id TEXT NOT NULL,
+    earned_on DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, badge_id)
+);
+
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own achievements" ON public.user_achievements
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Doctors can view patient achievements via access" ON public.user_achievements
+    FOR SELECT
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT doctor_id FROM doctor_user_access
+            WHERE patient_id = user_achievements.user_id
+        )
+    );
+
+-- No INSERT/UPDATE policies: badges are awarded by refresh_achievements()
+
+-- ============================================================================
+-- 2. Goal progress per day
+-- ============================================================================
+
+-- One row per day from p_from to p_to with all minutes logged, the minutes
+-- counting toward the goal in force that day and that weekday's target. As in
+-- the app, days before the first goal version use the first version, and
+-- patients without any version use the default goal (4h a day, 28h a week).
+CREATE OR REPLACE FUNCTION public.daily_goal_progress(p_user_id UUID, p_from DATE, p_to DATE)
+RETURNS TABLE (
+    log_date DATE,
+    total_minutes INTEGER,
+    goal_minutes INTEGER,
+    target_minutes INTEGER,
+    weekly_goal_minutes INTEGER,
+    goal_met BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT
+        d.log_date,
+        COALESCE(logs.total_minutes, 0),
+        COALESCE(logs.goal_minutes, 0),
+        goal.target_minutes,
+        goal.weekly_goal_minutes,
+        COALESCE(logs.goal_minutes, 0) >= goal.target_minutes
+    FROM (
+        SELECT generate_series(p_from, p_to, INTERVAL '1 day')::DATE AS log_date
+    ) d
+    CROSS JOIN LATERAL (
+        SELECT
+            COALESCE(
+                v.weekday_goal_minutes[EXTRACT(DOW FROM d.log_date)::INTEGER + 1],
+                v.daily_goal_minutes,
+                240
+            ) AS target_minutes,
+            COALESCE(v.weekly_goal_minutes, 1680) AS weekly_goal_minutes,
+            v.therapy_type
+        FROM (SELECT 1) AS single_row
+        LEFT JOIN LATERAL (
+            -- Latest version in force on the day, else the first version
+            SELECT uv.daily_goal_minutes, uv.weekly_goal_minutes, uv.weekday_goal_minutes, uv.therapy_type
+            FROM public.user_goal_versions uv
+            WHERE uv.user_id = p_user_id
+            ORDER BY uv.effective_from <= d.log_date DESC,
+                     CASE WHEN uv.effective_from <= d.log_date THEN uv.effective_from END DESC NULLS LAST,
+                     uv.effective_from
+            LIMIT 1
+        ) v ON TRUE
+    ) goal
+    LEFT JOIN LATERAL (
+        SELECT
+            SUM(l.time_spent_minutes)::INTEGER AS total_minutes,
+            (SUM(l.time_spent_minutes) FILTER (
+                WHERE goal.therapy_type IS NULL
+                   OR COALESCE(l.therapy_type, 'patching') = goal.therapy_type
+            ))::INTEGER AS goal_minutes
+        FROM public.daily_logs l
+        WHERE l.user_id = p_user_id AND l.date = d.log_date
+    ) logs ON TRUE;
+$$;
+
+-- ============================================================================
+-- 3. Award and list badges
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.refresh_achievements(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    patient_today DATE := public.user_today(p_user_id);
+    patient_week_start INTEGER;
+    first_log_date DATE;
+    new_badges TEXT[];
+    current_streak INTEGER;
+    best_streak INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in');
+    END IF;
+
+    IF auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = auth.uid() AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    SELECT MIN(date) INTO first_log_date
+    FROM public.daily_logs
+    WHERE user_id = p_user_id AND date <= patient_today;
+
+    IF first_log_date IS NOT NULL THEN
+        SELECT COALESCE(week_start, 1) INTO patient_week_start
+        FROM public.user_data
+        WHERE user_id = p_user_id;
+
+        WITH progress AS (
+            SELECT * FROM public.daily_goal_progress(p_user_id, first_log_date, patient_today)
+        ),
+        -- Consecutive goal days share a group; streak_length counts up within it
+        streaks AS (
+            SELECT log_date,
+                   ROW_NUMBER() OVER (PARTITION BY streak_group ORDER BY log_date) AS streak_length
+            FROM (
+                SELECT log_date,
+                       log_date - (ROW_NUMBER() OVER (ORDER BY log_date))::INTEGER AS streak_group
+                FROM progress
+                WHERE goal_met
+            ) met
+        ),
+        weeks AS (
+            SELECT log_date - ((EXTRACT(DOW FROM log_date)::INTEGER - COALESCE(patient_week_start, 1) + 7) % 7) AS week_start_date,
+                   COUNT(*) FILTER (WHERE goal_met) AS goal_days
+            FROM progress
+            GROUP BY 1
+        ),
+        running AS (
+            SELECT log_date, SUM(total_minutes) OVER (ORDER BY log_date) AS cumulative_minutes
+            FROM progress
+        ),
+        earned (badge_id, earned_on) AS (
+            SELECT 'first_entry', MIN(log_date) FROM progress WHERE total_minutes > 0
+            UNION ALL
+            SELECT 'first_goal_day', MIN(log_date) FROM progress WHERE goal_met
+            UNION ALL
+            SELECT 'streak_' || days, MIN(log_date)
+            FROM streaks, unnest(ARRAY[3, 7, 14, 30]) AS days
+            WHERE streak_length = days
+            GROUP BY days
+            UNION ALL
+            SELECT 'first_full_week', MIN(week_start_date) + 6 FROM weeks WHERE goal_days = 7
+            UNION ALL
+            SELECT 'hours_' || hours, MIN(log_date)
+            FROM running, unnest(ARRAY[10, 50, 100]) AS hours
+            WHERE cumulative_minutes >= hours * 60
+            GROUP BY hours
+        ),
+        inserted AS (
+            INSERT INTO public.user_achievements (user_id, badge_id, earned_on)
+            SELECT p_user_id, badge_id, earned_on
+            FROM earned
+            WHERE earned_on IS NOT NULL
+            ON CONFLICT (user_id, badge_id) DO NOTHING
+            RETURNING badge_id
+        )
+        SELECT
+            (SELECT array_agg(badge_id) FROM inserted),
+            -- A streak is still current until the day after its last goal day ends
+            (SELECT streak_length FROM streaks
+             WHERE log_date >= patient_today - 1
+             ORDER BY log_date DESC LIMIT 1),
+            (SELECT MAX(streak_length) FROM streaks)
+        INTO new_badges, current_streak, best_streak;
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'current_streak', COALESCE(current_streak, 0),
+        'best_streak', COALESCE(best_streak, 0),
+        'achievements', COALESCE((
+            SELECT json_agg(json_build_object(
+                'badge_id', a.badge_id,
+                'earned_on', a.earned_on,
+                'is_new', a.badge_id = ANY(COALESCE(new_badges, ARRAY[]::TEXT[]))
+            ) ORDER BY a.earned_on, a.badge_id)
+            FROM public.user_achievements a
+            WHERE a.user_id = p_user_id
+        ), '[]'::JSON)
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+-- Supabase grants new functions to anon and authenticated directly, so
+-- revoking from PUBLIC alone would leave every patient's minutes readable
+REVOKE EXECUTE ON FUNCTION public.daily_goal_progress(UUID, DATE, DATE) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.daily_goal_progress(UUID, DATE, DATE) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_achievements(UUID) TO authenticated;
@@ -0,0 +1,135 @@
+-- Adherence score and at-risk flags
+-- Doctors had to open calendars patient by patient to see who is falling
+-- behind. Each patient now gets an adherence score over the last days (the
+-- doctor picks how many): the minutes counting toward the goal in force
+-- divided by the minutes prescribed, plus the number of days without any
+-- entry. Today is left out because it is not over yet, and days before the
+-- patient's first entry are not counted.
+--
+-- A patient is flagged, with every reason that applies, when:
+--   NO_ENTRIES    - nothing has been logged yet
+--   LOW_ADHERENCE - the score is below the doctor's threshold
+--   ZERO_LOG_DAYS - more days without entries than the doctor allows
+-- The window, threshold and allowed days without entries are stored on the
+-- doctor's user_data row.
+--
+-- Run after database_achievements.sql (reuses daily_goal_progress()).
+
+-- ============================================================================
+-- 1. Doctor settings
+-- ============================================================================
+
+ALTER TABLE public.user_data
+    ADD COLUMN IF NOT EXISTS adherence_window_days SMALLINT NOT NULL DEFAULT 14
+    CHECK (adherence_window_days BETWEEN 7 AND 90);
+
+ALTER TABLE public.user_data
+    ADD COLUMN IF NOT EXISTS adherence_threshold_percent SMALLINT NOT NULL DEFAULT 80
+    CHECK (adherence_threshold_percent BETWEEN 1 AND 100);
+
+ALTER TABLE public.user_data
+    ADD COLUMN IF NOT EXISTS adherence_max_zero_days SMALLINT NOT NULL DEFAULT 2
+    CHECK (adherence_max_zero_days BETWEEN 0 AND 90);
+
+COMMENT ON COLUMN public.user_data.adherence_window_days IS
+    'Doctors only: number of past days the adherence score covers';
+COMMENT ON COLUMN public.user_data.adherence_threshold_percent IS
+    'Doctors only: patients scoring below this percentage are flagged';
+COMMENT ON COLUMN public.user_data.adherence_max_zero_days IS
+    'Doctors only: patients with more days without entries are flagged';
+
+-- Users already update their own user_data row (name, surname), so no new
+-- policies are needed.
+
+-- ============================================================================
+-- 2. Adherence of every patient of the calling doctor
+-- ============================================================================
+
+-- adherence_percent is NULL when nothing was prescribed in the window (no
+-- counted days, or only weekdays with a 0 minute target).
+CREATE OR REPLACE FUNCTION public.get_patient_adherence()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    window_days INTEGER;
+    threshold_percent INTEGER;
+    max_zero_days INTEGER;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in');
+    END IF;
+
+    SELECT adherence_window_days, adherence_threshold_percent, adherence_max_zero_days
+    INTO window_days, threshold_percent, max_zero_days
+    FROM public.user_data
+    WHERE user_id = current_user_id;
+
+    window_days := COALESCE(window_days, 14);
+    threshold_percent := COALESCE(threshold_percent, 80);
+    max_zero_days := COALESCE(max_zero_days, 2);
+
+    RETURN json_build_object(
+        'success', true,
+        'window_days', window_days,
+        'threshold_percent', threshold_percent,
+        'max_zero_days', max_zero_days,
+        'patients', COALESCE((
+            SELECT json_agg(json_build_object(
+                'patient_id', scored.patient_id,
+                'window_from', scored.window_from,
+                'window_to', scored.window_to,
+                'days_counted', scored.days_counted,
+                'logged_minutes', scored.logged_minutes,
+                'prescribed_minutes', scored.prescribed_minutes,
+                'adherence_percent', scored.adherence_percent,
+                'zero_log_days', scored.zero_log_days,
+                'flag_reasons', to_json(array_remove(ARRAY[
+                    CASE WHEN scored.first_log IS NULL THEN 'NO_ENTRIES' END,
+                    CASE WHEN scored.adherence_percent < threshold_percent THEN 'LOW_ADHERENCE' END,
+                    CASE WHEN scored.zero_log_days > max_zero_days THEN 'ZERO_LOG_DAYS' END
+                ], NULL))
+            ))
+            FROM (
+                SELECT
+                    a.patient_id,
+                    bounds.first_log,
+                    GREATEST(bounds.window_from, bounds.first_log) AS window_from,
+                    bounds.window_to,
+                    COALESCE(progress.days_counted, 0) AS days_counted,
+                    COALESCE(progress.logged_minutes, 0) AS logged_minutes,
+                    COALESCE(progress.prescribed_minutes, 0) AS prescribed_minutes,
+                    ROUND(100.0 * progress.logged_minutes / NULLIF(progress.prescribed_minutes, 0))::INTEGER AS adherence_percent,
+                    COALESCE(progress.zero_log_days, 0) AS zero_log_days
+                FROM public.doctor_user_access a
+                CROSS JOIN LATERAL (
+                    SELECT
+                        public.user_today(a.patient_id) - window_days AS window_from,
+                        public.user_today(a.patient_id) - 1 AS window_to,
+                        (SELECT MIN(l.date) FROM public.daily_logs l WHERE l.user_id = a.patient_id) AS first_log
+                ) bounds
+                LEFT JOIN LATERAL (
+                    SELECT
+                        COUNT(*)::INTEGER AS days_counted,
+                        SUM(p.goal_minutes)::INTEGER AS logged_minutes,
+                        SUM(p.target_minutes)::INTEGER AS prescribed_minutes,
+                        (COUNT(*) FILTER (WHERE p.total_minutes = 0))::INTEGER AS zero_log_days
+                    FROM public.daily_goal_progress(
+                        a.patient_id,
+                        GREATEST(bounds.window_from, bounds.first_log),
+                        bounds.window_to
+                    ) p
+                ) progress ON bounds.first_log <= bounds.window_to
+                WHERE a.doctor_id = current_user_id
+            ) scored
+        ), '[]'::JSON)
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.get_patient_adherence() TO authenticated;
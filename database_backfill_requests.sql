@@ -0,0 +1,343 @@
+-- Doctor-approved backfill exceptions beyond the 5-day window
+-- Families returning from a hospital stay or a holiday may have patching
+-- tracked on paper for dates log_activity() no longer accepts. A patient can
+-- ask for a date range to be opened; once a linked doctor approves it, those
+-- dates accept new entries for 7 days and the entries are flagged as backfilled.
+--
+-- New error codes:
+--   BACKFILL_RANGE_INVALID    - range is reversed, too long, in the future or already loggable
+--   BACKFILL_REASON_REQUIRED  - no reason given for the request
+--   BACKFILL_REQUEST_EXISTS   - a pending request already covers some of these dates
+--   BACKFILL_REQUEST_NOT_FOUND - the request does not exist or was already reviewed
+--   NOT_AUTHORIZED            - the reviewer is not linked to the patient
+
+-- ============================================================================
+-- 1. Backfill requests table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.backfill_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    reason TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    review_note TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE, -- Approved dates stay open until then
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backfill_requests_patient ON public.backfill_requests(patient_id, status);
+
+ALTER TABLE public.backfill_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own backfill requests" ON public.backfill_requests
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = patient_id);
+
+CREATE POLICY "Doctors can view patient backfill requests via access" ON public.backfill_requests
+    FOR SELECT
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT doctor_id FROM doctor_user_access
+            WHERE patient_id = backfill_requests.patient_id
+        )
+    );
+
+-- No INSERT/UPDATE policies: requests are created and reviewed through the RPCs below
+
+ALTER TABLE public.daily_logs ADD COLUMN IF NOT EXISTS is_backfilled BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.daily_logs.is_backfilled IS 'Logged outside the 5-day window under an approved backfill request';
+
+-- is_backfilled is only written by log_activity(); patients may edit the
+-- duration, notes, times and therapy of their entries but nothing else
+REVOKE UPDATE ON public.daily_logs FROM authenticated;
+GRANT UPDATE (time_spent_minutes, notes, started_at, ended_at, therapy_type, eye) ON public.daily_logs TO authenticated;
+
+-- ============================================================================
+-- 2. Requesting and reviewing backfills
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.request_backfill(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_reason TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_request_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to request a backfill');
+    END IF;
+
+    -- Only dates already outside the normal window, at most 31 days at a time
+    IF p_start_date IS NULL OR p_end_date IS NULL
+       OR p_end_date < p_start_date
+       OR p_end_date > CURRENT_DATE
+       OR p_start_date >= CURRENT_DATE - 5
+       OR p_end_date - p_start_date > 30 THEN
+        RETURN json_build_object('success', false, 'error_code', 'BACKFILL_RANGE_INVALID', 'error', 'Invalid backfill date range');
+    END IF;
+
+    IF TRIM(COALESCE(p_reason, '')) = '' THEN
+        RETURN json_build_object('success', false, 'error_code', 'BACKFILL_REASON_REQUIRED', 'error', 'A reason is required');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.backfill_requests
+        WHERE patient_id = current_user_id
+        AND status = 'pending'
+        AND daterange(start_date, end_date, '[]') && daterange(p_start_date, p_end_date, '[]')
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'BACKFILL_REQUEST_EXISTS', 'error', 'A pending request already covers these dates');
+    END IF;
+
+    INSERT INTO public.backfill_requests (patient_id, start_date, end_date, reason)
+    VALUES (current_user_id, p_start_date, p_end_date, LEFT(TRIM(p_reason), 500))
+    RETURNING id INTO new_request_id;
+
+    RETURN json_build_object('success', true, 'request_id', new_request_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_backfill_request(
+    p_request_id UUID,
+    p_approve BOOLEAN,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    request_patient_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to review requests');
+    END IF;
+
+    SELECT patient_id INTO request_patient_id
+    FROM public.backfill_requests
+    WHERE id = p_request_id AND status = 'pending'
+    FOR UPDATE;
+
+    IF request_patient_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'BACKFILL_REQUEST_NOT_FOUND', 'error', 'Request not found or already reviewed');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = request_patient_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    UPDATE public.backfill_requests
+    SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        reviewed_by = current_user_id,
+        review_note = NULLIF(LEFT(TRIM(COALESCE(p_note, '')), 500), ''),
+        reviewed_at = NOW(),
+        expires_at = CASE WHEN p_approve THEN NOW() + INTERVAL '7 days' ELSE NULL END
+    WHERE id = p_request_id;
+
+    RETURN json_build_object('success', true, 'status', CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END);
+END;
+$$;
+
+-- True while an approved, unexpired request covers the date
+CREATE OR REPLACE FUNCTION public.has_open_backfill(p_user_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.backfill_requests
+        WHERE patient_id = p_user_id
+        AND status = 'approved'
+        AND expires_at > NOW()
+        AND p_date BETWEEN start_date AND end_date
+    );
+$$;
+
+-- ============================================================================
+-- 3. log_activity accepts approved backfill dates
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.log_activity(
+    p_date DATE,
+    p_minutes INTEGER,
+    p_notes TEXT DEFAULT NULL,
+    p_started_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_ended_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_therapy_type TEXT DEFAULT 'patching',
+    p_eye TEXT DEFAULT NULL,
+    p_client_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    existing_count INTEGER;
+    existing_total INTEGER;
+    new_entry_id UUID;
+    is_backfill BOOLEAN;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to log activity');
+    END IF;
+
+    -- A retried submission returns the entry that was already saved
+    IF p_client_id IS NOT NULL THEN
+        SELECT id INTO new_entry_id
+        FROM public.daily_logs
+        WHERE user_id = current_user_id AND client_id = p_client_id;
+
+        IF new_entry_id IS NOT NULL THEN
+            SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+            INTO existing_count, existing_total
+            FROM public.daily_logs
+            WHERE user_id = current_user_id
+            AND date = (SELECT date FROM public.daily_logs WHERE id = new_entry_id);
+
+            RETURN json_build_object(
+                'success', true,
+                'duplicate', true,
+                'entry_id', new_entry_id,
+                'entry_count', existing_count,
+                'day_total_minutes', existing_total
+            );
+        END IF;
+    END IF;
+
+    IF p_minutes IS NULL OR p_minutes < 30 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_SHORT', 'error', 'Minimum session duration is 30 minutes');
+    END IF;
+
+    IF p_minutes > 1440 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_LONG', 'error', 'Time cannot exceed 24 hours in a day');
+    END IF;
+
+    IF p_date IS NULL OR p_date > CURRENT_DATE THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_IN_FUTURE', 'error', 'Cannot log activities for future dates');
+    END IF;
+
+    -- Older dates are only open while the doctor's approval is active
+    is_backfill := p_date < CURRENT_DATE - 5;
+    IF is_backfill AND NOT public.has_open_backfill(current_user_id, p_date) THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_TOO_OLD', 'error', 'Can only log activities for the last 5 days');
+    END IF;
+
+    IF p_therapy_type IS NULL OR p_therapy_type NOT IN ('patching', 'atropine', 'glasses', 'binocular_games') THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_THERAPY_TYPE', 'error', 'Unknown therapy type');
+    END IF;
+
+    IF p_eye IS NOT NULL AND p_eye NOT IN ('left', 'right', 'both') THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_THERAPY_TYPE', 'error', 'Eye must be left, right or both');
+    END IF;
+
+    -- Start and end must be given together and cover at least the logged minutes
+    IF (p_started_at IS NULL) <> (p_ended_at IS NULL)
+       OR p_ended_at <= p_started_at
+       OR p_minutes > CEIL(EXTRACT(EPOCH FROM (p_ended_at - p_started_at)) / 60) THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_TIME_RANGE', 'error', 'The end time must be after the start time and cover the logged duration');
+    END IF;
+
+    -- Serialize concurrent submissions for the same user and day
+    PERFORM pg_advisory_xact_lock(hashtext(current_user_id::TEXT || p_date::TEXT));
+
+    SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+    INTO existing_count, existing_total
+    FROM public.daily_logs
+    WHERE user_id = current_user_id AND date = p_date;
+
+    -- A replay of the same entry may have saved it while this call waited
+    IF p_client_id IS NOT NULL THEN
+        SELECT id INTO new_entry_id
+        FROM public.daily_logs
+        WHERE user_id = current_user_id AND client_id = p_client_id;
+
+        IF new_entry_id IS NOT NULL THEN
+            RETURN json_build_object(
+                'success', true,
+                'duplicate', true,
+                'entry_id', new_entry_id,
+                'entry_count', existing_count,
+                'day_total_minutes', existing_total
+            );
+        END IF;
+    END IF;
+
+    IF existing_count >= 10 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DAILY_ENTRY_LIMIT', 'error', 'Maximum of 10 activity entries per day');
+    END IF;
+
+    IF existing_total + p_minutes > 1440 THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'DAILY_TOTAL_EXCEEDED',
+            'error', 'Entries for this day cannot add up to more than 24 hours',
+            'remaining_minutes', GREATEST(0, 1440 - existing_total)
+        );
+    END IF;
+
+    IF p_started_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.daily_logs
+        WHERE user_id = current_user_id
+        AND date = p_date
+        AND started_at IS NOT NULL
+        AND tstzrange(started_at, ended_at) && tstzrange(p_started_at, p_ended_at)
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'SESSION_OVERLAP', 'error', 'This session overlaps another entry logged for the same day');
+    END IF;
+
+    INSERT INTO public.daily_logs (user_id, date, time_spent_minutes, notes, started_at, ended_at, therapy_type, eye, client_id, is_backfilled)
+    VALUES (
+        current_user_id,
+        p_date,
+        p_minutes,
+        NULLIF(LEFT(TRIM(COALESCE(p_notes, '')), 1000), ''),
+        p_started_at,
+        p_ended_at,
+        p_therapy_type,
+        p_eye,
+        p_client_id,
+        is_backfill
+    )
+    RETURNING id INTO new_entry_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'entry_id', new_entry_id,
+        'entry_count', existing_count + 1,
+        'day_total_minutes', existing_total + p_minutes
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT ON public.backfill_requests TO authenticated;
+GRANT EXECUTE ON FUNCTION public.request_backfill(DATE, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_backfill_request(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Only called from log_activity(); it takes any user id, so keep it private
+REVOKE EXECUTE ON FUNCTION public.has_open_backfill(UUID, DATE) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.has_open_backfill(UUID, DATE) FROM anon, authenticated;
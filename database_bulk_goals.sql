@@ -0,0 +1,89 @@
+-- Bulk goal assignment
+-- When a protocol changes, doctors had to open and save every patient one at a
+-- time. set_user_goals_bulk() applies one goal to many patients in a single
+-- transaction: either every patient gets the new goal version or none does.
+-- Each version records the calling doctor in set_by_doctor_id.
+--
+-- Run after database_weekday_goals.sql (reuses set_user_goal()).
+--
+-- New error codes:
+--   BULK_EMPTY     - no patients were selected
+--   BULK_TOO_LARGE - more than 200 patients in one call
+-- NOT_AUTHORIZED and INVALID_GOAL are reported as by set_user_goal(); for
+-- NOT_AUTHORIZED 'patient_id' holds the first patient the doctor cannot access.
+
+CREATE OR REPLACE FUNCTION public.set_user_goals_bulk(
+    p_user_ids UUID[],
+    p_daily_goal_minutes INTEGER,
+    p_weekly_goal_minutes INTEGER,
+    p_therapy_type TEXT DEFAULT NULL,
+    p_effective_from DATE DEFAULT CURRENT_DATE,
+    p_weekday_goal_minutes INTEGER[] DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    patient_ids UUID[];
+    patient UUID;
+    result JSON;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set goals');
+    END IF;
+
+    SELECT array_agg(DISTINCT id) INTO patient_ids
+    FROM unnest(p_user_ids) AS id
+    WHERE id IS NOT NULL;
+
+    IF patient_ids IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'BULK_EMPTY', 'error', 'No patients selected');
+    END IF;
+
+    IF array_length(patient_ids, 1) > 200 THEN
+        RETURN json_build_object('success', false, 'error_code', 'BULK_TOO_LARGE', 'error', 'At most 200 patients can be updated at once');
+    END IF;
+
+    -- Check access to every patient before writing anything
+    SELECT id INTO patient
+    FROM unnest(patient_ids) AS id
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = id
+    )
+    LIMIT 1;
+
+    IF patient IS NOT NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient', 'patient_id', patient);
+    END IF;
+
+    FOREACH patient IN ARRAY patient_ids
+    LOOP
+        result := public.set_user_goal(
+            patient,
+            p_daily_goal_minutes,
+            p_weekly_goal_minutes,
+            p_therapy_type,
+            p_effective_from,
+            p_weekday_goal_minutes
+        );
+
+        IF NOT (result->>'success')::BOOLEAN THEN
+            -- Nothing from this call is kept
+            RAISE EXCEPTION USING MESSAGE = result::TEXT, ERRCODE = 'P0001';
+        END IF;
+    END LOOP;
+
+    RETURN json_build_object('success', true, 'updated_count', array_length(patient_ids, 1));
+EXCEPTION
+    WHEN raise_exception THEN
+        -- Rolls back the goal versions written so far
+        RETURN SQLERRM::JSON;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.set_user_goals_bulk(UUID[], INTEGER, INTEGER, TEXT, DATE, INTEGER[]) TO authenticated;
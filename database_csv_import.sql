@@ -0,0 +1,146 @@
+-- CSV import of historical paper diaries
+-- Patients often arrive with months of patching tracked on paper. Rows from a
+-- CSV file are previewed in the browser and the confirmed ones are written in
+-- one transaction by import_activity_logs(), either by the patient or by a
+-- linked doctor on their behalf. Imported rows are tagged with their source.
+--
+-- New error codes:
+--   NOT_AUTHORIZED     - caller is neither the patient nor one of their doctors
+--   IMPORT_EMPTY       - no rows were sent
+--   IMPORT_TOO_LARGE   - more than 1000 rows in one import
+--   IMPORT_ROW_INVALID - a row breaks the logging rules; 'row' holds its index
+--   IMPORT_ROW_TOO_OLD - a patient's row is older than the 5-day window and
+--                        not covered by an approved backfill request
+--
+-- Run after database_backfill_requests.sql (reuses has_open_backfill()).
+
+-- ============================================================================
+-- 1. Source columns
+-- ============================================================================
+
+ALTER TABLE public.daily_logs ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'manual';
+ALTER TABLE public.daily_logs ADD COLUMN IF NOT EXISTS imported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.daily_logs DROP CONSTRAINT IF EXISTS daily_logs_source_check;
+ALTER TABLE public.daily_logs ADD CONSTRAINT daily_logs_source_check
+    CHECK (source IN ('manual', 'import'));
+
+COMMENT ON COLUMN public.daily_logs.source IS 'How the entry was created: manual (log_activity) or import (CSV diary)';
+COMMENT ON COLUMN public.daily_logs.imported_by IS 'Patient or doctor who ran the import';
+
+-- Only import_activity_logs() writes source and imported_by: patients may
+-- update just the columns granted in database_backfill_requests.sql
+REVOKE UPDATE (source, imported_by) ON public.daily_logs FROM authenticated;
+
+-- ============================================================================
+-- 2. import_activity_logs RPC
+-- ============================================================================
+
+-- p_rows: [{"date": "2024-01-31", "minutes": 120, "notes": "..."}, ...]
+CREATE OR REPLACE FUNCTION public.import_activity_logs(
+    p_patient_id UUID,
+    p_rows JSON
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    row_count INTEGER;
+    row_index INTEGER := 0;
+    import_row JSON;
+    row_date DATE;
+    row_minutes INTEGER;
+    day_count INTEGER;
+    day_total INTEGER;
+    is_backfill BOOLEAN;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to import activity');
+    END IF;
+
+    IF current_user_id <> p_patient_id AND NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_patient_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    row_count := COALESCE(json_array_length(p_rows), 0);
+
+    IF row_count = 0 THEN
+        RETURN json_build_object('success', false, 'error_code', 'IMPORT_EMPTY', 'error', 'No rows to import');
+    END IF;
+
+    IF row_count > 1000 THEN
+        RETURN json_build_object('success', false, 'error_code', 'IMPORT_TOO_LARGE', 'error', 'At most 1000 rows can be imported at once');
+    END IF;
+
+    FOR import_row IN SELECT * FROM json_array_elements(p_rows)
+    LOOP
+        BEGIN
+            row_date := (import_row->>'date')::DATE;
+            row_minutes := (import_row->>'minutes')::INTEGER;
+        EXCEPTION WHEN OTHERS THEN
+            row_date := NULL;
+            row_minutes := NULL;
+        END;
+
+        -- Same lock as log_activity() so concurrent entries cannot exceed the day limits
+        PERFORM pg_advisory_xact_lock(hashtext(p_patient_id::TEXT || row_date::TEXT));
+
+        SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+        INTO day_count, day_total
+        FROM public.daily_logs
+        WHERE user_id = p_patient_id AND date = row_date;
+
+        IF row_date IS NULL OR row_date > CURRENT_DATE
+           OR row_minutes IS NULL OR row_minutes < 30 OR row_minutes > 1440
+           OR day_count >= 10 OR day_total + row_minutes > 1440 THEN
+            -- Nothing from this import is kept
+            RAISE EXCEPTION USING MESSAGE = json_build_object(
+                'success', false,
+                'error_code', 'IMPORT_ROW_INVALID',
+                'error', 'Row breaks the logging rules',
+                'row', row_index
+            )::TEXT, ERRCODE = 'P0001';
+        END IF;
+
+        -- Patients import older dates only under an approved backfill
+        -- request, as in log_activity(); their doctors may import any date
+        is_backfill := current_user_id = p_patient_id AND row_date < CURRENT_DATE - 5;
+        IF is_backfill AND NOT public.has_open_backfill(p_patient_id, row_date) THEN
+            RAISE EXCEPTION USING MESSAGE = json_build_object(
+                'success', false,
+                'error_code', 'IMPORT_ROW_TOO_OLD',
+                'error', 'Can only import the last 5 days or dates opened by your doctor',
+                'row', row_index
+            )::TEXT, ERRCODE = 'P0001';
+        END IF;
+
+        INSERT INTO public.daily_logs (user_id, date, time_spent_minutes, notes, source, imported_by, is_backfilled)
+        VALUES (
+            p_patient_id,
+            row_date,
+            row_minutes,
+            NULLIF(LEFT(TRIM(COALESCE(import_row->>'notes', '')), 1000), ''),
+            'import',
+            current_user_id,
+            is_backfill
+        );
+
+        row_index := row_index + 1;
+    END LOOP;
+
+    RETURN json_build_object('success', true, 'imported_count', row_count);
+EXCEPTION
+    WHEN raise_exception THEN
+        -- Rolls back the rows inserted so far and reports the failing one
+        RETURN SQLERRM::JSON;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.import_activity_logs(UUID, JSON) TO authenticated;
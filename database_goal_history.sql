@@ -0,0 +1,227 @@
+-- Goal history with effective dates
+-- user_goals keeps one row per patient and every update overwrote it, so past
+-- days were judged against today's goal. Each goal change is now stored as a
+-- version with the date it takes effect; the app evaluates every day against
+-- the version in force on that day. user_goals still holds the goal in force
+-- today for older clients.
+--
+-- New error codes:
+--   NOT_AUTHORIZED - caller is not linked to the patient
+--   INVALID_GOAL   - goal minutes are out of range or the date is missing
+
+-- ============================================================================
+-- 1. Goal versions table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.user_goal_versions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    daily_goal_minutes INTEGER NOT NULL CHECK (daily_goal_minutes > 0 AND daily_goal_minutes <= 1440),
+    weekly_goal_minutes INTEGER NOT NULL CHECK (weekly_goal_minutes > 0 AND weekly_goal_minutes <= 10080),
+    therapy_type TEXT CHECK (therapy_type IS NULL OR therapy_type IN ('patching', 'atropine', 'glasses', 'binocular_games')),
+    effective_from DATE NOT NULL,
+    set_by_doctor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (user_id, effective_from) -- A later change on the same day replaces the earlier one
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_goal_versions_user ON public.user_goal_versions(user_id, effective_from);
+
+ALTER TABLE public.user_goal_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goal versions" ON public.user_goal_versions
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Doctors can view patient goal versions via access" ON public.user_goal_versions
+    FOR SELECT
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT doctor_id FROM doctor_user_access
+            WHERE patient_id = user_goal_versions.user_id
+        )
+    );
+
+-- No INSERT/UPDATE policies: versions are written by set_user_goal() and the trigger below
+
+-- Seed one version per existing goal, effective from when it was created
+INSERT INTO public.user_goal_versions (
+    user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type, effective_from, set_by_doctor_id
+)
+SELECT user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type,
+       COALESCE(created_at::DATE, CURRENT_DATE), set_by_doctor_id
+FROM public.user_goals
+ON CONFLICT (user_id, effective_from) DO NOTHING;
+
+-- ============================================================================
+-- 2. Keep a version for direct writes to user_goals (default goals, old clients)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_user_goal_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- set_user_goal() writes its own version
+    IF current_setting('app.goal_version_written', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.user_goal_versions (
+        user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type, effective_from, set_by_doctor_id
+    ) VALUES (
+        NEW.user_id, NEW.daily_goal_minutes, NEW.weekly_goal_minutes, NEW.therapy_type, CURRENT_DATE, NEW.set_by_doctor_id
+    )
+    ON CONFLICT (user_id, effective_from) DO UPDATE
+    SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+        weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+        therapy_type = EXCLUDED.therapy_type,
+        set_by_doctor_id = EXCLUDED.set_by_doctor_id,
+        created_at = NOW();
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_user_goal_version ON public.user_goals;
+CREATE TRIGGER record_user_goal_version
+    AFTER INSERT OR UPDATE ON public.user_goals
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_user_goal_version();
+
+-- ============================================================================
+-- 3. Setting a goal from a given date
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_user_goal(
+    p_user_id UUID,
+    p_daily_goal_minutes INTEGER,
+    p_weekly_goal_minutes INTEGER,
+    p_therapy_type TEXT DEFAULT NULL,
+    p_effective_from DATE DEFAULT CURRENT_DATE
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_version_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set goals');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    IF p_effective_from IS NULL
+       OR p_daily_goal_minutes IS NULL OR p_daily_goal_minutes <= 0 OR p_daily_goal_minutes > 1440
+       OR p_weekly_goal_minutes IS NULL OR p_weekly_goal_minutes <= 0 OR p_weekly_goal_minutes > 10080
+       OR (p_therapy_type IS NOT NULL AND p_therapy_type NOT IN ('patching', 'atropine', 'glasses', 'binocular_games')) THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_GOAL', 'error', 'Invalid goal values');
+    END IF;
+
+    INSERT INTO public.user_goal_versions (
+        user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type, effective_from, set_by_doctor_id
+    ) VALUES (
+        p_user_id, p_daily_goal_minutes, p_weekly_goal_minutes, p_therapy_type, p_effective_from, current_user_id
+    )
+    ON CONFLICT (user_id, effective_from) DO UPDATE
+    SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+        weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+        therapy_type = EXCLUDED.therapy_type,
+        set_by_doctor_id = EXCLUDED.set_by_doctor_id,
+        created_at = NOW()
+    RETURNING id INTO new_version_id;
+
+    -- Mirror the version in force today into user_goals
+    IF p_effective_from <= CURRENT_DATE AND NOT EXISTS (
+        SELECT 1 FROM public.user_goal_versions
+        WHERE user_id = p_user_id
+        AND effective_from > p_effective_from
+        AND effective_from <= CURRENT_DATE
+    ) THEN
+        PERFORM set_config('app.goal_version_written', 'on', true);
+
+        INSERT INTO public.user_goals (user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type, set_by_doctor_id)
+        VALUES (p_user_id, p_daily_goal_minutes, p_weekly_goal_minutes, p_therapy_type, current_user_id)
+        ON CONFLICT (user_id) DO UPDATE
+        SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+            weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+            therapy_type = EXCLUDED.therapy_type,
+            set_by_doctor_id = EXCLUDED.set_by_doctor_id;
+
+        PERFORM set_config('app.goal_version_written', 'off', true);
+    END IF;
+
+    RETURN json_build_object('success', true, 'version_id', new_version_id);
+END;
+$$;
+
+-- ============================================================================
+-- 4. Goal history with the name of the doctor who set each version
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_goal_history(p_user_id UUID)
+RETURNS TABLE (
+    id UUID,
+    daily_goal_minutes INTEGER,
+    weekly_goal_minutes INTEGER,
+    therapy_type TEXT,
+    effective_from DATE,
+    set_by_doctor_id UUID,
+    doctor_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- auth.uid() <> p_user_id is NULL for anonymous callers
+    IF auth.uid() IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = auth.uid() AND patient_id = p_user_id
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        v.id,
+        v.daily_goal_minutes,
+        v.weekly_goal_minutes,
+        v.therapy_type,
+        v.effective_from,
+        v.set_by_doctor_id,
+        CASE
+            WHEN v.set_by_doctor_id IS NULL THEN NULL
+            ELSE COALESCE(NULLIF(TRIM(COALESCE(ud.name, '') || ' ' || COALESCE(ud.surname, '')), ''), ud.email)
+        END::TEXT AS doctor_name,
+        v.created_at
+    FROM public.user_goal_versions v
+    LEFT JOIN public.user_data ud ON ud.user_id = v.set_by_doctor_id
+    WHERE v.user_id = p_user_id
+    ORDER BY v.effective_from ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT ON public.user_goal_versions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_goal(UUID, INTEGER, INTEGER, TEXT, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_goal_history(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_goal_history(UUID) FROM anon;
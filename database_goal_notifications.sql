@@ -0,0 +1,409 @@
+-- Goal change notifications and patient acknowledgement
+-- Patients only learned about new goals if they noticed a different ring
+-- target. Every goal version a doctor writes now creates a notification with
+-- the doctor's optional reason. The patient's dashboard shows it until they
+-- acknowledge it, and the goal history shows doctors whether each change has
+-- been acknowledged. A version rewritten with other values on the same date
+-- (same effective day) resets its notification so the patient sees the latest
+-- values. A treatment protocol writes one version per phase but notifies once,
+-- through the version of its first phase.
+--
+-- Run after database_bulk_goals.sql.
+
+-- ============================================================================
+-- 1. Notifications table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.goal_change_notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    goal_version_id UUID NOT NULL UNIQUE REFERENCES public.user_goal_versions(id) ON DELETE CASCADE,
+    doctor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reason TEXT CHECK (reason IS NULL OR char_length(reason) <= 500),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    acknowledged_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_change_notifications_pending
+    ON public.goal_change_notifications(patient_id)
+    WHERE acknowledged_at IS NULL;
+
+ALTER TABLE public.goal_change_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own goal notifications" ON public.goal_change_notifications
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = patient_id);
+
+CREATE POLICY "Doctors can view patient goal notifications via access" ON public.goal_change_notifications
+    FOR SELECT
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT doctor_id FROM doctor_user_access
+            WHERE patient_id = goal_change_notifications.patient_id
+        )
+    );
+
+-- No INSERT/UPDATE policies: written by the trigger and acknowledge_goal_changes()
+
+-- ============================================================================
+-- 2. Create a notification for every goal change set by a doctor
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_goal_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NEW.set_by_doctor_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Later phases of a protocol belong to the assignment already notified
+    IF NEW.protocol_phase_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.treatment_protocol_phases
+        WHERE id = NEW.protocol_phase_id AND position > 0
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    -- Saving the same values again keeps the patient's acknowledgement
+    IF TG_OP = 'UPDATE'
+       AND NEW.daily_goal_minutes IS NOT DISTINCT FROM OLD.daily_goal_minutes
+       AND NEW.weekly_goal_minutes IS NOT DISTINCT FROM OLD.weekly_goal_minutes
+       AND NEW.weekday_goal_minutes IS NOT DISTINCT FROM OLD.weekday_goal_minutes
+       AND NEW.therapy_type IS NOT DISTINCT FROM OLD.therapy_type THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.goal_change_notifications (patient_id, goal_version_id, doctor_id, reason)
+    VALUES (
+        NEW.user_id,
+        NEW.id,
+        NEW.set_by_doctor_id,
+        NULLIF(current_setting('app.goal_change_reason', true), '')
+    )
+    ON CONFLICT (goal_version_id) DO UPDATE
+    SET doctor_id = EXCLUDED.doctor_id,
+        reason = EXCLUDED.reason,
+        created_at = NOW(),
+        acknowledged_at = NULL;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_goal_change ON public.user_goal_versions;
+CREATE TRIGGER notify_goal_change
+    AFTER INSERT OR UPDATE ON public.user_goal_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.notify_goal_change();
+
+-- ============================================================================
+-- 3. Optional reason on set_user_goal and set_user_goals_bulk
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.set_user_goals_bulk(UUID[], INTEGER, INTEGER, TEXT, DATE, INTEGER[]);
+DROP FUNCTION IF EXISTS public.set_user_goal(UUID, INTEGER, INTEGER, TEXT, DATE, INTEGER[]);
+
+CREATE OR REPLACE FUNCTION public.set_user_goal(
+    p_user_id UUID,
+    p_daily_goal_minutes INTEGER,
+    p_weekly_goal_minutes INTEGER,
+    p_therapy_type TEXT DEFAULT NULL,
+    p_effective_from DATE DEFAULT CURRENT_DATE,
+    p_weekday_goal_minutes INTEGER[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_version_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set goals');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    IF p_effective_from IS NULL
+       OR p_daily_goal_minutes IS NULL OR p_daily_goal_minutes <= 0 OR p_daily_goal_minutes > 1440
+       OR p_weekly_goal_minutes IS NULL OR p_weekly_goal_minutes <= 0 OR p_weekly_goal_minutes > 10080
+       OR (p_therapy_type IS NOT NULL AND p_therapy_type NOT IN ('patching', 'atropine', 'glasses', 'binocular_games'))
+       OR (p_weekday_goal_minutes IS NOT NULL AND NOT (
+            COALESCE(array_length(p_weekday_goal_minutes, 1), 0) = 7
+            AND array_position(p_weekday_goal_minutes, NULL) IS NULL
+            AND 0 < ALL(p_weekday_goal_minutes)
+            AND 1440 >= ALL(p_weekday_goal_minutes)
+       )) THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_GOAL', 'error', 'Invalid goal values');
+    END IF;
+
+    -- Picked up by the notification trigger on user_goal_versions
+    PERFORM set_config('app.goal_change_reason', COALESCE(LEFT(TRIM(p_reason), 500), ''), true);
+
+    INSERT INTO public.user_goal_versions (
+        user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, effective_from, set_by_doctor_id
+    ) VALUES (
+        p_user_id, p_daily_goal_minutes, p_weekly_goal_minutes, p_weekday_goal_minutes, p_therapy_type, p_effective_from, current_user_id
+    )
+    ON CONFLICT (user_id, effective_from) DO UPDATE
+    SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+        weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+        weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+        therapy_type = EXCLUDED.therapy_type,
+        set_by_doctor_id = EXCLUDED.set_by_doctor_id,
+        protocol_phase_id = NULL,
+        created_at = NOW()
+    RETURNING id INTO new_version_id;
+
+    -- Mirror the version in force today into user_goals
+    IF p_effective_from <= CURRENT_DATE AND NOT EXISTS (
+        SELECT 1 FROM public.user_goal_versions
+        WHERE user_id = p_user_id
+        AND effective_from > p_effective_from
+        AND effective_from <= CURRENT_DATE
+    ) THEN
+        PERFORM set_config('app.goal_version_written', 'on', true);
+
+        INSERT INTO public.user_goals (user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, set_by_doctor_id)
+        VALUES (p_user_id, p_daily_goal_minutes, p_weekly_goal_minutes, p_weekday_goal_minutes, p_therapy_type, current_user_id)
+        ON CONFLICT (user_id) DO UPDATE
+        SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+            weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+            weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+            therapy_type = EXCLUDED.therapy_type,
+            set_by_doctor_id = EXCLUDED.set_by_doctor_id;
+
+        PERFORM set_config('app.goal_version_written', 'off', true);
+    END IF;
+
+    RETURN json_build_object('success', true, 'version_id', new_version_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_goals_bulk(
+    p_user_ids UUID[],
+    p_daily_goal_minutes INTEGER,
+    p_weekly_goal_minutes INTEGER,
+    p_therapy_type TEXT DEFAULT NULL,
+    p_effective_from DATE DEFAULT CURRENT_DATE,
+    p_weekday_goal_minutes INTEGER[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    patient_ids UUID[];
+    patient UUID;
+    result JSON;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set goals');
+    END IF;
+
+    SELECT array_agg(DISTINCT id) INTO patient_ids
+    FROM unnest(p_user_ids) AS id
+    WHERE id IS NOT NULL;
+
+    IF patient_ids IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'BULK_EMPTY', 'error', 'No patients selected');
+    END IF;
+
+    IF array_length(patient_ids, 1) > 200 THEN
+        RETURN json_build_object('success', false, 'error_code', 'BULK_TOO_LARGE', 'error', 'At most 200 patients can be updated at once');
+    END IF;
+
+    -- Check access to every patient before writing anything
+    SELECT id INTO patient
+    FROM unnest(patient_ids) AS id
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = id
+    )
+    LIMIT 1;
+
+    IF patient IS NOT NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient', 'patient_id', patient);
+    END IF;
+
+    FOREACH patient IN ARRAY patient_ids
+    LOOP
+        result := public.set_user_goal(
+            patient,
+            p_daily_goal_minutes,
+            p_weekly_goal_minutes,
+            p_therapy_type,
+            p_effective_from,
+            p_weekday_goal_minutes,
+            p_reason
+        );
+
+        IF NOT (result->>'success')::BOOLEAN THEN
+            -- Nothing from this call is kept
+            RAISE EXCEPTION USING MESSAGE = result::TEXT, ERRCODE = 'P0001';
+        END IF;
+    END LOOP;
+
+    RETURN json_build_object('success', true, 'updated_count', array_length(patient_ids, 1));
+EXCEPTION
+    WHEN raise_exception THEN
+        -- Rolls back the goal versions written so far
+        RETURN SQLERRM::JSON;
+END;
+$$;
+
+-- ============================================================================
+-- 4. Pending notifications for the patient and acknowledging them
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_pending_goal_changes()
+RETURNS TABLE (
+    id UUID,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    doctor_name TEXT,
+    daily_goal_minutes INTEGER,
+    weekly_goal_minutes INTEGER,
+    weekday_goal_minutes INTEGER[],
+    therapy_type TEXT,
+    effective_from DATE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        n.id,
+        n.reason,
+        n.created_at,
+        COALESCE(NULLIF(TRIM(COALESCE(ud.name, '') || ' ' || COALESCE(ud.surname, '')), ''), ud.email)::TEXT AS doctor_name,
+        v.daily_goal_minutes,
+        v.weekly_goal_minutes,
+        v.weekday_goal_minutes,
+        v.therapy_type,
+        v.effective_from
+    FROM public.goal_change_notifications n
+    JOIN public.user_goal_versions v ON v.id = n.goal_version_id
+    LEFT JOIN public.user_data ud ON ud.user_id = n.doctor_id
+    WHERE n.patient_id = auth.uid()
+    AND n.acknowledged_at IS NULL
+    ORDER BY v.effective_from ASC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.acknowledge_goal_changes(p_notification_ids UUID[])
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    acknowledged_count INTEGER;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to acknowledge goal changes');
+    END IF;
+
+    UPDATE public.goal_change_notifications
+    SET acknowledged_at = NOW()
+    WHERE id = ANY(p_notification_ids)
+    AND patient_id = current_user_id
+    AND acknowledged_at IS NULL;
+
+    GET DIAGNOSTICS acknowledged_count = ROW_COUNT;
+
+    RETURN json_build_object('success', true, 'acknowledged_count', acknowledged_count);
+END;
+$$;
+
+-- ============================================================================
+-- 5. Goal history with reason and acknowledgement
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_goal_history(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_goal_history(p_user_id UUID)
+RETURNS TABLE (
+    id UUID,
+    daily_goal_minutes INTEGER,
+    weekly_goal_minutes INTEGER,
+    weekday_goal_minutes INTEGER[],
+    therapy_type TEXT,
+    effective_from DATE,
+    set_by_doctor_id UUID,
+    doctor_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    change_reason TEXT,
+    change_notified BOOLEAN,
+    acknowledged_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- auth.uid() <> p_user_id is NULL for anonymous callers
+    IF auth.uid() IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = auth.uid() AND patient_id = p_user_id
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        v.id,
+        v.daily_goal_minutes,
+        v.weekly_goal_minutes,
+        v.weekday_goal_minutes,
+        v.therapy_type,
+        v.effective_from,
+        v.set_by_doctor_id,
+        CASE
+            WHEN v.set_by_doctor_id IS NULL THEN NULL
+            ELSE COALESCE(NULLIF(TRIM(COALESCE(ud.name, '') || ' ' || COALESCE(ud.surname, '')), ''), ud.email)
+        END::TEXT AS doctor_name,
+        v.created_at,
+        n.reason,
+        n.id IS NOT NULL,
+        n.acknowledged_at
+    FROM public.user_goal_versions v
+    LEFT JOIN public.user_data ud ON ud.user_id = v.set_by_doctor_id
+    LEFT JOIN public.goal_change_notifications n ON n.goal_version_id = v.id
+    WHERE v.user_id = p_user_id
+    ORDER BY v.effective_from ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT ON public.goal_change_notifications TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_goal(UUID, INTEGER, INTEGER, TEXT, DATE, INTEGER[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_goals_bulk(UUID[], INTEGER, INTEGER, TEXT, DATE, INTEGER[], TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pending_goal_changes() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.acknowledge_goal_changes(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_goal_history(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_goal_history(UUID) FROM anon;
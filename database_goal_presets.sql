@@ -0,0 +1,129 @@
+-- Doctor-defined goal presets
+-- GoalsManagement offered three fixed presets (Default, Light, Intensive).
+-- Doctors can now keep their own named regimens, optionally with per-weekday
+-- targets (see database_weekday_goals.sql) and a note explaining them, and
+-- share them with every other doctor. Presets are written directly through
+-- RLS by their owner and read through get_goal_presets(), which adds the name
+-- of the doctor who shared each one.
+
+-- ============================================================================
+-- 1. Presets table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.goal_presets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    doctor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    daily_goal_minutes INTEGER NOT NULL CHECK (daily_goal_minutes > 0 AND daily_goal_minutes <= 1440),
+    weekly_goal_minutes INTEGER NOT NULL CHECK (weekly_goal_minutes > 0 AND weekly_goal_minutes <= 10080),
+    weekday_goal_minutes INTEGER[] CHECK (
+        weekday_goal_minutes IS NULL OR (
+            array_length(weekday_goal_minutes, 1) = 7
+            AND array_position(weekday_goal_minutes, NULL) IS NULL
+            AND 0 < ALL(weekday_goal_minutes)
+            AND 1440 >= ALL(weekday_goal_minutes)
+        )
+    ),
+    note TEXT CHECK (note IS NULL OR char_length(note) <= 1000),
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_presets_doctor ON public.goal_presets(doctor_id);
+CREATE INDEX IF NOT EXISTS idx_goal_presets_shared ON public.goal_presets(is_shared) WHERE is_shared;
+
+DROP TRIGGER IF EXISTS update_goal_presets_updated_at ON public.goal_presets;
+CREATE TRIGGER update_goal_presets_updated_at BEFORE UPDATE ON public.goal_presets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.goal_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view own presets" ON public.goal_presets
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = doctor_id);
+
+CREATE POLICY "Doctors can view shared presets" ON public.goal_presets
+    FOR SELECT
+    TO authenticated
+    USING (
+        is_shared AND EXISTS (
+            SELECT 1 FROM public.user_data
+            WHERE user_id = (SELECT auth.uid()) AND account_type = 'doctor'
+        )
+    );
+
+CREATE POLICY "Doctors can create own presets" ON public.goal_presets
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        (SELECT auth.uid()) = doctor_id AND EXISTS (
+            SELECT 1 FROM public.user_data
+            WHERE user_id = (SELECT auth.uid()) AND account_type = 'doctor'
+        )
+    );
+
+CREATE POLICY "Doctors can update own presets" ON public.goal_presets
+    FOR UPDATE
+    TO authenticated
+    USING ((SELECT auth.uid()) = doctor_id)
+    WITH CHECK ((SELECT auth.uid()) = doctor_id);
+
+CREATE POLICY "Doctors can delete own presets" ON public.goal_presets
+    FOR DELETE
+    TO authenticated
+    USING ((SELECT auth.uid()) = doctor_id);
+
+-- ============================================================================
+-- 2. Own and shared presets with the name of their owner
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_goal_presets()
+RETURNS TABLE (
+    id UUID,
+    doctor_id UUID,
+    doctor_name TEXT,
+    name TEXT,
+    daily_goal_minutes INTEGER,
+    weekly_goal_minutes INTEGER,
+    weekday_goal_minutes INTEGER[],
+    note TEXT,
+    is_shared BOOLEAN,
+    updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.user_data ud
+        WHERE ud.user_id = auth.uid() AND ud.account_type = 'doctor'
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        p.id,
+        p.doctor_id,
+        COALESCE(NULLIF(TRIM(COALESCE(ud.name, '') || ' ' || COALESCE(ud.surname, '')), ''), ud.email)::TEXT AS doctor_name,
+        p.name,
+        p.daily_goal_minutes,
+        p.weekly_goal_minutes,
+        p.weekday_goal_minutes,
+        p.note,
+        p.is_shared,
+        p.updated_at
+    FROM public.goal_presets p
+    LEFT JOIN public.user_data ud ON ud.user_id = p.doctor_id
+    WHERE p.doctor_id = auth.uid() OR p.is_shared
+    -- Own presets first
+    ORDER BY (p.doctor_id = auth.uid()) DESC, p.name ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.goal_presets TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_goal_presets() TO authenticated;
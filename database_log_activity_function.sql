@@ -0,0 +1,149 @@
+-- Server-side enforcement of the activity logging rules
+-- Until now the rules lived only in LogEntry.handleSubmit, so anyone holding the
+-- anon key could insert arbitrary rows into daily_logs. Entries are now created
+-- exclusively through log_activity(), which returns structured error codes that
+-- the client maps to friendly messages (see sanitizeError in src/utils/security.ts).
+--
+-- Error codes:
+--   NOT_AUTHENTICATED     - no signed-in user
+--   DURATION_TOO_SHORT    - less than 30 minutes
+--   DURATION_TOO_LONG     - more than 24 hours
+--   DATE_IN_FUTURE        - date after today
+--   DATE_TOO_OLD          - date more than 5 days ago
+--   DAILY_ENTRY_LIMIT     - already 10 entries for that date
+--   DAILY_TOTAL_EXCEEDED  - entries for that date would add up past 24 hours
+--   DATE_CHANGED          - an edit tried to move an entry to another date
+
+-- ============================================================================
+-- 1. log_activity RPC
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.log_activity(
+    p_date DATE,
+    p_minutes INTEGER,
+    p_notes TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    existing_count INTEGER;
+    existing_total INTEGER;
+    new_entry_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to log activity');
+    END IF;
+
+    IF p_minutes IS NULL OR p_minutes < 30 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_SHORT', 'error', 'Minimum session duration is 30 minutes');
+    END IF;
+
+    IF p_minutes > 1440 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_LONG', 'error', 'Time cannot exceed 24 hours in a day');
+    END IF;
+
+    IF p_date IS NULL OR p_date > CURRENT_DATE THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_IN_FUTURE', 'error', 'Cannot log activities for future dates');
+    END IF;
+
+    IF p_date < CURRENT_DATE - 5 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_TOO_OLD', 'error', 'Can only log activities for the last 5 days');
+    END IF;
+
+    -- Serialize concurrent submissions for the same user and day
+    PERFORM pg_advisory_xact_lock(hashtext(current_user_id::TEXT || p_date::TEXT));
+
+    SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+    INTO existing_count, existing_total
+    FROM public.daily_logs
+    WHERE user_id = current_user_id AND date = p_date;
+
+    IF existing_count >= 10 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DAILY_ENTRY_LIMIT', 'error', 'Maximum of 10 activity entries per day');
+    END IF;
+
+    IF existing_total + p_minutes > 1440 THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'DAILY_TOTAL_EXCEEDED',
+            'error', 'Entries for this day cannot add up to more than 24 hours',
+            'remaining_minutes', GREATEST(0, 1440 - existing_total)
+        );
+    END IF;
+
+    INSERT INTO public.daily_logs (user_id, date, time_spent_minutes, notes)
+    VALUES (
+        current_user_id,
+        p_date,
+        p_minutes,
+        NULLIF(LEFT(TRIM(COALESCE(p_notes, '')), 1000), '')
+    )
+    RETURNING id INTO new_entry_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'entry_id', new_entry_id,
+        'entry_count', existing_count + 1,
+        'day_total_minutes', existing_total + p_minutes
+    );
+END;
+$$;
+
+-- ============================================================================
+-- 2. Block direct inserts - entries must go through log_activity()
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can insert own daily logs" ON daily_logs;
+
+-- ============================================================================
+-- 3. Apply the duration and per-day total rules to edits as well
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_daily_log_update_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    other_total INTEGER;
+BEGIN
+    -- Moving an entry to another day would bypass the date, window and
+    -- per-day count checks of log_activity()
+    IF NEW.date IS DISTINCT FROM OLD.date THEN
+        RAISE EXCEPTION 'DATE_CHANGED' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.time_spent_minutes < 30 THEN
+        RAISE EXCEPTION 'DURATION_TOO_SHORT' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.time_spent_minutes > 1440 THEN
+        RAISE EXCEPTION 'DURATION_TOO_LONG' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT COALESCE(SUM(time_spent_minutes), 0)
+    INTO other_total
+    FROM public.daily_logs
+    WHERE user_id = NEW.user_id AND date = NEW.date AND id <> NEW.id;
+
+    IF other_total + NEW.time_spent_minutes > 1440 THEN
+        RAISE EXCEPTION 'DAILY_TOTAL_EXCEEDED' USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_daily_log_update_rules ON public.daily_logs;
+CREATE TRIGGER enforce_daily_log_update_rules
+    BEFORE UPDATE ON public.daily_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_daily_log_update_rules();
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.log_activity(DATE, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,126 @@
+-- Edit and delete daily log entries with an audit trail
+-- Every change to a daily_logs row keeps the previous values in daily_log_revisions,
+-- which the patient and their linked doctors can read. old_values/new_values
+-- hold the whole row, so columns added later (times, therapy, eye) are
+-- recorded as well.
+
+-- ============================================================================
+-- 1. Revision history table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.daily_log_revisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    log_id UUID NOT NULL, -- No FK: the log row may have been deleted
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    log_date DATE NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('update', 'delete')),
+    old_time_spent_minutes INTEGER NOT NULL,
+    old_notes TEXT,
+    new_time_spent_minutes INTEGER, -- NULL for deletions
+    new_notes TEXT,
+    old_values JSONB, -- The whole row before and after the change
+    new_values JSONB, -- NULL for deletions
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_log_revisions_user_date ON public.daily_log_revisions(user_id, log_date);
+CREATE INDEX IF NOT EXISTS idx_daily_log_revisions_log_id ON public.daily_log_revisions(log_id);
+
+ALTER TABLE public.daily_log_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Patients can see the history of their own entries
+CREATE POLICY "Users can view own log revisions" ON public.daily_log_revisions
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+
+-- Linked doctors can see their patients' history
+CREATE POLICY "Doctors can view patient log revisions via access" ON public.daily_log_revisions
+    FOR SELECT
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT doctor_id FROM doctor_user_access
+            WHERE patient_id = daily_log_revisions.user_id
+        )
+    );
+
+-- No INSERT/UPDATE/DELETE policies: rows are only written by the trigger below
+
+-- ============================================================================
+-- 2. Trigger that records the old values
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_daily_log_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    -- updated_at changes on every write and says nothing about the entry
+    old_values JSONB := to_jsonb(OLD) - 'updated_at';
+    new_values JSONB;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        INSERT INTO public.daily_log_revisions (
+            log_id, user_id, log_date, action,
+            old_time_spent_minutes, old_notes, old_values, changed_by
+        ) VALUES (
+            OLD.id, OLD.user_id, OLD.date, 'delete',
+            OLD.time_spent_minutes, OLD.notes, old_values, auth.uid()
+        );
+        RETURN OLD;
+    END IF;
+
+    new_values := to_jsonb(NEW) - 'updated_at';
+
+    -- Ignore updates that only touch bookkeeping columns
+    IF new_values IS DISTINCT FROM old_values THEN
+        INSERT INTO public.daily_log_revisions (
+            log_id, user_id, log_date, action,
+            old_time_spent_minutes, old_notes,
+            new_time_spent_minutes, new_notes,
+            old_values, new_values, changed_by
+        ) VALUES (
+            OLD.id, OLD.user_id, OLD.date, 'update',
+            OLD.time_spent_minutes, OLD.notes,
+            NEW.time_spent_minutes, NEW.notes,
+            old_values, new_values, auth.uid()
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_daily_log_revision ON public.daily_logs;
+CREATE TRIGGER record_daily_log_revision
+    AFTER UPDATE OR DELETE ON public.daily_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.record_daily_log_revision();
+
+-- ============================================================================
+-- 3. Edit/delete policies limited to the 5-day backfill window
+-- ============================================================================
+
+-- CURRENT_DATE is the server's date; database_timezones.sql replaces these
+-- policies with the patient's own date
+
+DROP POLICY IF EXISTS "Users can update own daily logs" ON daily_logs;
+CREATE POLICY "Users can update own daily logs" ON daily_logs
+    FOR UPDATE
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id AND date >= CURRENT_DATE - 5)
+    WITH CHECK ((SELECT auth.uid()) = user_id AND date >= CURRENT_DATE - 5);
+
+DROP POLICY IF EXISTS "Users can delete own daily logs" ON daily_logs;
+CREATE POLICY "Users can delete own daily logs" ON daily_logs
+    FOR DELETE
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id AND date >= CURRENT_DATE - 5);
+
+-- Grant necessary permissions
+GRANT SELECT ON public.daily_log_revisions TO authenticated;
+GRANT DELETE ON public.daily_logs TO authenticated;
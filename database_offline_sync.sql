@@ -0,0 +1,176 @@
+-- Offline-capable activity logging
+-- Entries made without a connection are queued in the browser (IndexedDB) and
+-- replayed later. Every submission carries a client-generated UUID; if a retry
+-- reaches log_activity() after the first attempt already saved the entry, the
+-- existing row is returned instead of inserting a duplicate.
+
+-- ============================================================================
+-- 1. Idempotency key
+-- ============================================================================
+
+ALTER TABLE public.daily_logs ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS daily_logs_user_client_id_idx
+    ON public.daily_logs(user_id, client_id)
+    WHERE client_id IS NOT NULL;
+
+COMMENT ON COLUMN public.daily_logs.client_id IS 'Idempotency key generated by the client when the entry was first submitted';
+
+-- ============================================================================
+-- 2. log_activity with an optional idempotency key
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.log_activity(DATE, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.log_activity(
+    p_date DATE,
+    p_minutes INTEGER,
+    p_notes TEXT DEFAULT NULL,
+    p_started_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_ended_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_therapy_type TEXT DEFAULT 'patching',
+    p_eye TEXT DEFAULT NULL,
+    p_client_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    existing_count INTEGER;
+    existing_total INTEGER;
+    new_entry_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to log activity');
+    END IF;
+
+    -- A retried submission returns the entry that was already saved
+    IF p_client_id IS NOT NULL THEN
+        SELECT id INTO new_entry_id
+        FROM public.daily_logs
+        WHERE user_id = current_user_id AND client_id = p_client_id;
+
+        IF new_entry_id IS NOT NULL THEN
+            SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+            INTO existing_count, existing_total
+            FROM public.daily_logs
+            WHERE user_id = current_user_id
+            AND date = (SELECT date FROM public.daily_logs WHERE id = new_entry_id);
+
+            RETURN json_build_object(
+                'success', true,
+                'duplicate', true,
+                'entry_id', new_entry_id,
+                'entry_count', existing_count,
+                'day_total_minutes', existing_total
+            );
+        END IF;
+    END IF;
+
+    IF p_minutes IS NULL OR p_minutes < 30 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_SHORT', 'error', 'Minimum session duration is 30 minutes');
+    END IF;
+
+    IF p_minutes > 1440 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_LONG', 'error', 'Time cannot exceed 24 hours in a day');
+    END IF;
+
+    IF p_date IS NULL OR p_date > CURRENT_DATE THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_IN_FUTURE', 'error', 'Cannot log activities for future dates');
+    END IF;
+
+    IF p_date < CURRENT_DATE - 5 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_TOO_OLD', 'error', 'Can only log activities for the last 5 days');
+    END IF;
+
+    IF p_therapy_type IS NULL OR p_therapy_type NOT IN ('patching', 'atropine', 'glasses', 'binocular_games') THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_THERAPY_TYPE', 'error', 'Unknown therapy type');
+    END IF;
+
+    IF p_eye IS NOT NULL AND p_eye NOT IN ('left', 'right', 'both') THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_THERAPY_TYPE', 'error', 'Eye must be left, right or both');
+    END IF;
+
+    -- Start and end must be given together and cover at least the logged minutes
+    IF (p_started_at IS NULL) <> (p_ended_at IS NULL)
+       OR p_ended_at <= p_started_at
+       OR p_minutes > CEIL(EXTRACT(EPOCH FROM (p_ended_at - p_started_at)) / 60) THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_TIME_RANGE', 'error', 'The end time must be after the start time and cover the logged duration');
+    END IF;
+
+    -- Serialize concurrent submissions for the same user and day
+    PERFORM pg_advisory_xact_lock(hashtext(current_user_id::TEXT || p_date::TEXT));
+
+    SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+    INTO existing_count, existing_total
+    FROM public.daily_logs
+    WHERE user_id = current_user_id AND date = p_date;
+
+    -- A replay of the same entry may have saved it while this call waited
+    IF p_client_id IS NOT NULL THEN
+        SELECT id INTO new_entry_id
+        FROM public.daily_logs
+        WHERE user_id = current_user_id AND client_id = p_client_id;
+
+        IF new_entry_id IS NOT NULL THEN
+            RETURN json_build_object(
+                'success', true,
+                'duplicate', true,
+                'entry_id', new_entry_id,
+                'entry_count', existing_count,
+                'day_total_minutes', existing_total
+            );
+        END IF;
+    END IF;
+
+    IF existing_count >= 10 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DAILY_ENTRY_LIMIT', 'error', 'Maximum of 10 activity entries per day');
+    END IF;
+
+    IF existing_total + p_minutes > 1440 THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'DAILY_TOTAL_EXCEEDED',
+            'error', 'Entries for this day cannot add up to more than 24 hours',
+            'remaining_minutes', GREATEST(0, 1440 - existing_total)
+        );
+    END IF;
+
+    IF p_started_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.daily_logs
+        WHERE user_id = current_user_id
+        AND date = p_date
+        AND started_at IS NOT NULL
+        AND tstzrange(started_at, ended_at) && tstzrange(p_started_at, p_ended_at)
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'SESSION_OVERLAP', 'error', 'This session overlaps another entry logged for the same day');
+    END IF;
+
+    INSERT INTO public.daily_logs (user_id, date, time_spent_minutes, notes, started_at, ended_at, therapy_type, eye, client_id)
+    VALUES (
+        current_user_id,
+        p_date,
+        p_minutes,
+        NULLIF(LEFT(TRIM(COALESCE(p_notes, '')), 1000), ''),
+        p_started_at,
+        p_ended_at,
+        p_therapy_type,
+        p_eye,
+        p_client_id
+    )
+    RETURNING id INTO new_entry_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'entry_id', new_entry_id,
+        'entry_count', existing_count + 1,
+        'day_total_minutes', existing_total + p_minutes
+    );
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.log_activity(DATE, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT, UUID) TO authenticated;
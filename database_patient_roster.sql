@@ -0,0 +1,246 @@
+-- Patient roster for doctors
+-- GoalsManagement, PatientCalendarView and PatientStatisticsView listed
+-- patients with sequential queries (doctor_user_access, user_data,
+-- user_goals) merged in the browser, with nothing about recent activity.
+-- get_patient_roster() returns one page of the calling doctor's patients with
+-- their current goals, the last log date, this week's total and how many of
+-- the last 14 days met the daily goal. Search, sorting and paging happen on
+-- the server, so a doctor with hundreds of patients only loads what is shown.
+-- get_patient_names() lists every patient's name for the calendar and
+-- statistics pickers, and get_pending_backfill_requests() the backfill
+-- requests waiting for the doctor, so neither needs patient ids from the
+-- browser.
+--
+-- Run after database_achievements.sql (reuses daily_goal_progress()),
+-- database_backfill_requests.sql and database_week_start.sql.
+--
+-- Sort keys (p_sort):
+--   name             - name and surname, or the email for unnamed patients
+--   last_log_date    - patients who never logged come first when ascending
+--   week_minutes     - minutes counting toward the goal since the week started
+--   goal_met_percent - share of the last 14 days (today excluded) with the
+--                      daily goal met
+--
+-- New error codes:
+--   INVALID_SORT - p_sort is not one of the keys above
+
+CREATE OR REPLACE FUNCTION public.get_patient_roster(
+    p_search TEXT DEFAULT NULL,
+    p_sort TEXT DEFAULT 'name',
+    p_ascending BOOLEAN DEFAULT TRUE,
+    p_limit INTEGER DEFAULT 25,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    sort_key TEXT := COALESCE(p_sort, 'name');
+    ascending BOOLEAN := COALESCE(p_ascending, TRUE);
+    page_limit INTEGER := LEAST(GREATEST(COALESCE(p_limit, 25), 1), 200);
+    page_offset INTEGER := GREATEST(COALESCE(p_offset, 0), 0);
+    search_pattern TEXT;
+    result JSON;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in');
+    END IF;
+
+    IF sort_key NOT IN ('name', 'last_log_date', 'week_minutes', 'goal_met_percent') THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_SORT', 'error', 'Patients cannot be sorted by ' || sort_key);
+    END IF;
+
+    -- Matches anywhere in the name or email; % and _ are taken literally
+    IF NULLIF(trim(p_search), '') IS NOT NULL THEN
+        search_pattern := '%' || replace(replace(replace(trim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    END IF;
+
+    WITH filtered AS (
+        SELECT
+            a.patient_id AS user_id,
+            COALESCE(ud.name, '') AS name,
+            COALESCE(ud.surname, '') AS surname,
+            COALESCE(ud.email, '') AS email,
+            lower(COALESCE(NULLIF(trim(COALESCE(ud.name, '') || ' ' || COALESCE(ud.surname, '')), ''), ud.email, '')) AS sort_name
+        FROM public.doctor_user_access a
+        LEFT JOIN public.user_data ud ON ud.user_id = a.patient_id
+        WHERE a.doctor_id = current_user_id
+          AND (
+              search_pattern IS NULL
+              OR ud.name ILIKE search_pattern
+              OR ud.surname ILIKE search_pattern
+              OR ud.email ILIKE search_pattern
+              OR (ud.name || ' ' || ud.surname) ILIKE search_pattern
+          )
+    ),
+    -- Sorting by name needs no metrics, so only the requested page gets them
+    candidates AS (
+        SELECT f.*
+        FROM filtered f
+        WHERE sort_key <> 'name'
+           OR f.user_id IN (
+               SELECT n.user_id
+               FROM filtered n
+               ORDER BY CASE WHEN NOT ascending THEN n.sort_name END DESC, n.sort_name, n.user_id
+               LIMIT page_limit OFFSET page_offset
+           )
+    ),
+    roster AS (
+        SELECT
+            f.*,
+            COALESCE(v.daily_goal_minutes, g.daily_goal_minutes, 240) AS daily_goal_minutes,
+            COALESCE(v.weekly_goal_minutes, g.weekly_goal_minutes, 1680) AS weekly_goal_minutes,
+            CASE WHEN v.user_id IS NOT NULL THEN v.weekday_goal_minutes ELSE g.weekday_goal_minutes END AS weekday_goal_minutes,
+            CASE WHEN v.user_id IS NOT NULL THEN v.therapy_type ELSE g.therapy_type END AS therapy_type,
+            last_log.last_log_date,
+            progress.week_minutes,
+            progress.goal_met_days,
+            ROUND(progress.goal_met_days * 100.0 / 14)::INTEGER AS goal_met_percent
+        FROM candidates f
+        CROSS JOIN LATERAL (
+            SELECT public.user_today(f.user_id) AS today,
+                   public.user_week_start_date(f.user_id) AS week_start
+        ) days
+        -- Goals in force today, as in daily_goal_progress(); user_goals only
+        -- for patients without any version
+        LEFT JOIN LATERAL (
+            SELECT uv.user_id, uv.daily_goal_minutes, uv.weekly_goal_minutes, uv.weekday_goal_minutes, uv.therapy_type
+            FROM public.user_goal_versions uv
+            WHERE uv.user_id = f.user_id
+            ORDER BY uv.effective_from <= days.today DESC,
+                     CASE WHEN uv.effective_from <= days.today THEN uv.effective_from END DESC NULLS LAST,
+                     uv.effective_from
+            LIMIT 1
+        ) v ON TRUE
+        LEFT JOIN public.user_goals g ON g.user_id = f.user_id
+        CROSS JOIN LATERAL (
+            SELECT MAX(l.date) AS last_log_date
+            FROM public.daily_logs l
+            WHERE l.user_id = f.user_id
+        ) last_log
+        CROSS JOIN LATERAL (
+            SELECT
+                COALESCE(SUM(p.goal_minutes) FILTER (WHERE p.log_date >= days.week_start), 0)::INTEGER AS week_minutes,
+                (COUNT(*) FILTER (WHERE p.goal_met AND p.log_date < days.today))::INTEGER AS goal_met_days
+            FROM public.daily_goal_progress(f.user_id, LEAST(days.week_start, days.today - 14), days.today) p
+        ) progress
+    ),
+    ordered AS (
+        SELECT
+            r.*,
+            ROW_NUMBER() OVER (
+                ORDER BY
+                    CASE WHEN sort_key = 'last_log_date' AND ascending THEN r.last_log_date END ASC NULLS FIRST,
+                    CASE WHEN sort_key = 'last_log_date' AND NOT ascending THEN r.last_log_date END DESC NULLS LAST,
+                    CASE WHEN sort_key = 'week_minutes' AND ascending THEN r.week_minutes END ASC,
+                    CASE WHEN sort_key = 'week_minutes' AND NOT ascending THEN r.week_minutes END DESC,
+                    CASE WHEN sort_key = 'goal_met_percent' AND ascending THEN r.goal_met_percent END ASC,
+                    CASE WHEN sort_key = 'goal_met_percent' AND NOT ascending THEN r.goal_met_percent END DESC,
+                    CASE WHEN sort_key = 'name' AND NOT ascending THEN r.sort_name END DESC,
+                    r.sort_name,
+                    r.user_id
+            ) + CASE WHEN sort_key = 'name' THEN page_offset ELSE 0 END AS position
+        FROM roster r
+    )
+    SELECT json_build_object(
+        'success', true,
+        'total', (SELECT COUNT(*) FROM filtered),
+        'limit', page_limit,
+        'offset', page_offset,
+        'patients', COALESCE((
+            SELECT json_agg(json_build_object(
+                'user_id', o.user_id,
+                'name', o.name,
+                'surname', o.surname,
+                'email', o.email,
+                'daily_goal_minutes', o.daily_goal_minutes,
+                'weekly_goal_minutes', o.weekly_goal_minutes,
+                'weekday_goal_minutes', o.weekday_goal_minutes,
+                'therapy_type', o.therapy_type,
+                'last_log_date', o.last_log_date,
+                'week_minutes', o.week_minutes,
+                'goal_met_days', o.goal_met_days,
+                'goal_met_percent', o.goal_met_percent
+            ) ORDER BY o.position)
+            FROM ordered o
+            WHERE o.position > page_offset AND o.position <= page_offset + page_limit
+        ), '[]'::JSON)
+    ) INTO result;
+
+    RETURN result;
+END;
+$$;
+
+-- Every patient of the calling doctor, sorted by name as in the roster
+CREATE OR REPLACE FUNCTION public.get_patient_names()
+RETURNS TABLE (
+    user_id UUID,
+    name TEXT,
+    surname TEXT,
+    email TEXT,
+    week_start SMALLINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        a.patient_id,
+        COALESCE(ud.name, '')::TEXT,
+        COALESCE(ud.surname, '')::TEXT,
+        COALESCE(ud.email, '')::TEXT,
+        ud.week_start
+    FROM public.doctor_user_access a
+    LEFT JOIN public.user_data ud ON ud.user_id = a.patient_id
+    WHERE a.doctor_id = auth.uid()
+    ORDER BY
+        lower(COALESCE(NULLIF(trim(COALESCE(ud.name, '') || ' ' || COALESCE(ud.surname, '')), ''), ud.email, '')),
+        a.patient_id;
+END;
+$$;
+
+-- Pending backfill requests of the calling doctor's patients, oldest first
+CREATE OR REPLACE FUNCTION public.get_pending_backfill_requests()
+RETURNS TABLE (
+    id UUID,
+    patient_id UUID,
+    patient_name TEXT,
+    start_date DATE,
+    end_date DATE,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.patient_id,
+        COALESCE(NULLIF(TRIM(COALESCE(ud.name, '') || ' ' || COALESCE(ud.surname, '')), ''), ud.email)::TEXT AS patient_name,
+        b.start_date,
+        b.end_date,
+        b.reason,
+        b.created_at
+    FROM public.backfill_requests b
+    JOIN public.doctor_user_access a ON a.patient_id = b.patient_id AND a.doctor_id = auth.uid()
+    LEFT JOIN public.user_data ud ON ud.user_id = b.patient_id
+    WHERE b.status = 'pending'
+    ORDER BY b.created_at ASC;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.get_patient_roster(TEXT, TEXT, BOOLEAN, INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_patient_names() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_pending_backfill_requests() TO authenticated;
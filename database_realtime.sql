@@ -0,0 +1,34 @@
+-- Realtime updates for doctors
+-- Doctors watching a patient's calendar or statistics during a consultation
+-- had to reload to see new entries. Adding the tables to the
+-- supabase_realtime publication lets the app subscribe to their changes.
+--
+-- Realtime checks each change against the table's RLS policies, so a doctor
+-- only receives inserts and updates of patients they have access to. Deletes
+-- cannot be filtered by patient. daily_logs keeps the whole old row
+-- (REPLICA IDENTITY FULL) so the app can tell whose entry was deleted; when
+-- realtime sends only the primary key, the app looks the id up in the
+-- patient's cached logs and ignores other patients' deletes.
+--
+-- Run after database_goal_history.sql (user_goal_versions).
+
+DO $$
+DECLARE
+    realtime_table TEXT;
+BEGIN
+    FOREACH realtime_table IN ARRAY ARRAY['daily_logs', 'user_goals', 'user_goal_versions', 'doctor_user_access']
+    LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime'
+              AND schemaname = 'public'
+              AND tablename = realtime_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', realtime_table);
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- Deletes carry the old row, not only its id
+ALTER TABLE public.daily_logs REPLICA IDENTITY FULL;
@@ -0,0 +1,191 @@
+-- Parent-defined rewards
+-- Many families run a sticker chart next to the app ("5 goal days = trip to
+-- the zoo"). Parents can now define such rewards in the app. Progress counts
+-- the days since the reward was set up on which the daily goal in force was
+-- met, the same days Statistics shows as complete. A reward unlocks on its
+-- own once enough goal days are logged, and claiming it keeps it in the
+-- history with the claim date.
+--
+-- Run after database_achievements.sql (reuses daily_goal_progress()).
+--
+-- New error codes:
+--   REWARD_NOT_FOUND       - the reward does not exist or belongs to someone else
+--   REWARD_LOCKED          - not enough goal days yet
+--   REWARD_ALREADY_CLAIMED - the reward was claimed before
+
+-- ============================================================================
+-- 1. Rewards table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.rewards (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 100),
+    goal_days INTEGER NOT NULL CHECK (goal_days BETWEEN 1 AND 365),
+    starts_on DATE NOT NULL DEFAULT CURRENT_DATE, -- Goal days count from this date
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rewards_user ON public.rewards(user_id, created_at);
+
+ALTER TABLE public.rewards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own rewards" ON public.rewards
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can create own rewards" ON public.rewards
+    FOR INSERT
+    TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own rewards" ON public.rewards
+    FOR UPDATE
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id)
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own rewards" ON public.rewards
+    FOR DELETE
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Doctors can view patient rewards via access" ON public.rewards
+    FOR SELECT
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT doctor_id FROM doctor_user_access
+            WHERE patient_id = rewards.user_id
+        )
+    );
+
+-- claimed_at is only written by claim_reward(), which checks the progress
+REVOKE INSERT, UPDATE ON public.rewards FROM authenticated;
+GRANT INSERT (user_id, title, goal_days, starts_on) ON public.rewards TO authenticated;
+GRANT UPDATE (title, goal_days, starts_on) ON public.rewards TO authenticated;
+
+-- ============================================================================
+-- 2. Rewards with their progress
+-- ============================================================================
+
+-- Open rewards first (oldest first), then claimed ones (latest claim first).
+-- unlocked_on is the day the last goal day needed was reached.
+CREATE OR REPLACE FUNCTION public.get_rewards(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    patient_today DATE := public.user_today(p_user_id);
+    first_start DATE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in');
+    END IF;
+
+    IF auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = auth.uid() AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    SELECT MIN(starts_on) INTO first_start
+    FROM public.rewards
+    WHERE user_id = p_user_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'today', patient_today,
+        'rewards', COALESCE((
+            WITH goal_days AS (
+                SELECT log_date
+                FROM public.daily_goal_progress(p_user_id, first_start, patient_today)
+                WHERE goal_met
+            )
+            SELECT json_agg(json_build_object(
+                'id', r.id,
+                'title', r.title,
+                'goal_days', r.goal_days,
+                'starts_on', r.starts_on,
+                'claimed_at', r.claimed_at,
+                'created_at', r.created_at,
+                'goal_days_met', LEAST(progress.days_met, r.goal_days),
+                'unlocked_on', progress.unlocked_on
+            ) ORDER BY r.claimed_at IS NOT NULL, r.claimed_at DESC, r.created_at)
+            FROM public.rewards r
+            CROSS JOIN LATERAL (
+                SELECT COUNT(*)::INTEGER AS days_met,
+                       (array_agg(g.log_date ORDER BY g.log_date))[r.goal_days] AS unlocked_on
+                FROM goal_days g
+                WHERE g.log_date >= r.starts_on
+            ) progress
+            WHERE r.user_id = p_user_id
+        ), '[]'::JSON)
+    );
+END;
+$$;
+
+-- ============================================================================
+-- 3. Claim an unlocked reward
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.claim_reward(p_reward_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    reward public.rewards%ROWTYPE;
+    days_met INTEGER;
+    claimed TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in');
+    END IF;
+
+    SELECT * INTO reward
+    FROM public.rewards
+    WHERE id = p_reward_id AND user_id = current_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN json_build_object('success', false, 'error_code', 'REWARD_NOT_FOUND', 'error', 'This reward no longer exists');
+    END IF;
+
+    IF reward.claimed_at IS NOT NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'REWARD_ALREADY_CLAIMED', 'error', 'This reward has already been claimed');
+    END IF;
+
+    SELECT COUNT(*) INTO days_met
+    FROM public.daily_goal_progress(current_user_id, reward.starts_on, public.user_today(current_user_id))
+    WHERE goal_met;
+
+    IF days_met < reward.goal_days THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'REWARD_LOCKED',
+            'error', 'This reward is not unlocked yet',
+            'goal_days_met', days_met
+        );
+    END IF;
+
+    UPDATE public.rewards
+    SET claimed_at = NOW()
+    WHERE id = p_reward_id
+    RETURNING claimed_at INTO claimed;
+
+    RETURN json_build_object('success', true, 'claimed_at', claimed);
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.get_rewards(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_reward(UUID) TO authenticated;
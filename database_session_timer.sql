@@ -0,0 +1,47 @@
+-- Live session timer
+-- Stores the one running (or paused) patching session per user so the timer
+-- survives page reloads, closed tabs and switching devices.
+
+CREATE TABLE IF NOT EXISTS public.active_sessions (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    log_date DATE NOT NULL, -- Local date the session started on
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    paused_at TIMESTAMP WITH TIME ZONE, -- NULL while the timer is running
+    break_seconds INTEGER NOT NULL DEFAULT 0 CHECK (break_seconds >= 0),
+    break_count INTEGER NOT NULL DEFAULT 0 CHECK (break_count >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.active_sessions IS 'In-progress session timers, removed once the session is saved to daily_logs or discarded';
+
+-- Enable RLS
+ALTER TABLE public.active_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Users manage only their own timer
+CREATE POLICY "Users can view own active session" ON public.active_sessions
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can insert own active session" ON public.active_sessions
+    FOR INSERT
+    TO authenticated
+    WITH CHECK ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can update own active session" ON public.active_sessions
+    FOR UPDATE
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+
+CREATE POLICY "Users can delete own active session" ON public.active_sessions
+    FOR DELETE
+    TO authenticated
+    USING ((SELECT auth.uid()) = user_id);
+
+-- Keep updated_at current (reuses the trigger function from database_schema.sql)
+CREATE TRIGGER update_active_sessions_updated_at BEFORE UPDATE ON public.active_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.active_sessions TO authenticated;
@@ -0,0 +1,185 @@
+-- Start/end times for daily log entries with overlap detection
+-- A bare duration cannot tell two caregivers logging the same morning session
+-- apart, so entries may now carry the interval they cover. log_activity()
+-- rejects entries whose interval overlaps another entry on the same day.
+--
+-- New error codes:
+--   INVALID_TIME_RANGE - end is not after start, or the duration is longer than the range
+--   SESSION_OVERLAP    - the range overlaps another entry logged for that day
+
+-- ============================================================================
+-- 1. Optional interval columns
+-- ============================================================================
+
+ALTER TABLE public.daily_logs ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.daily_logs ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.daily_logs DROP CONSTRAINT IF EXISTS daily_logs_time_range_check;
+ALTER TABLE public.daily_logs ADD CONSTRAINT daily_logs_time_range_check CHECK (
+    (started_at IS NULL AND ended_at IS NULL)
+    OR (started_at IS NOT NULL AND ended_at IS NOT NULL AND ended_at > started_at)
+);
+
+COMMENT ON COLUMN public.daily_logs.started_at IS 'Optional start of the logged session';
+COMMENT ON COLUMN public.daily_logs.ended_at IS 'Optional end of the logged session; breaks may make it longer than time_spent_minutes';
+
+-- ============================================================================
+-- 2. log_activity with an optional time range
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.log_activity(DATE, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.log_activity(
+    p_date DATE,
+    p_minutes INTEGER,
+    p_notes TEXT DEFAULT NULL,
+    p_started_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_ended_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    existing_count INTEGER;
+    existing_total INTEGER;
+    new_entry_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to log activity');
+    END IF;
+
+    IF p_minutes IS NULL OR p_minutes < 30 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_SHORT', 'error', 'Minimum session duration is 30 minutes');
+    END IF;
+
+    IF p_minutes > 1440 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_LONG', 'error', 'Time cannot exceed 24 hours in a day');
+    END IF;
+
+    IF p_date IS NULL OR p_date > CURRENT_DATE THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_IN_FUTURE', 'error', 'Cannot log activities for future dates');
+    END IF;
+
+    IF p_date < CURRENT_DATE - 5 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_TOO_OLD', 'error', 'Can only log activities for the last 5 days');
+    END IF;
+
+    -- Start and end must be given together and cover at least the logged minutes
+    IF (p_started_at IS NULL) <> (p_ended_at IS NULL)
+       OR p_ended_at <= p_started_at
+       OR p_minutes > CEIL(EXTRACT(EPOCH FROM (p_ended_at - p_started_at)) / 60) THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_TIME_RANGE', 'error', 'The end time must be after the start time and cover the logged duration');
+    END IF;
+
+    -- Serialize concurrent submissions for the same user and day
+    PERFORM pg_advisory_xact_lock(hashtext(current_user_id::TEXT || p_date::TEXT));
+
+    SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+    INTO existing_count, existing_total
+    FROM public.daily_logs
+    WHERE user_id = current_user_id AND date = p_date;
+
+    IF existing_count >= 10 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DAILY_ENTRY_LIMIT', 'error', 'Maximum of 10 activity entries per day');
+    END IF;
+
+    IF existing_total + p_minutes > 1440 THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'DAILY_TOTAL_EXCEEDED',
+            'error', 'Entries for this day cannot add up to more than 24 hours',
+            'remaining_minutes', GREATEST(0, 1440 - existing_total)
+        );
+    END IF;
+
+    IF p_started_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.daily_logs
+        WHERE user_id = current_user_id
+        AND date = p_date
+        AND started_at IS NOT NULL
+        AND tstzrange(started_at, ended_at) && tstzrange(p_started_at, p_ended_at)
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'SESSION_OVERLAP', 'error', 'This session overlaps another entry logged for the same day');
+    END IF;
+
+    INSERT INTO public.daily_logs (user_id, date, time_spent_minutes, notes, started_at, ended_at)
+    VALUES (
+        current_user_id,
+        p_date,
+        p_minutes,
+        NULLIF(LEFT(TRIM(COALESCE(p_notes, '')), 1000), ''),
+        p_started_at,
+        p_ended_at
+    )
+    RETURNING id INTO new_entry_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'entry_id', new_entry_id,
+        'entry_count', existing_count + 1,
+        'day_total_minutes', existing_total + p_minutes
+    );
+END;
+$$;
+
+-- ============================================================================
+-- 3. Reject overlapping intervals on edits too
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_daily_log_update_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    other_total INTEGER;
+BEGIN
+    -- Moving an entry to another day would bypass the date, window and
+    -- per-day count checks of log_activity()
+    IF NEW.date IS DISTINCT FROM OLD.date THEN
+        RAISE EXCEPTION 'DATE_CHANGED' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.time_spent_minutes < 30 THEN
+        RAISE EXCEPTION 'DURATION_TOO_SHORT' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.time_spent_minutes > 1440 THEN
+        RAISE EXCEPTION 'DURATION_TOO_LONG' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT COALESCE(SUM(time_spent_minutes), 0)
+    INTO other_total
+    FROM public.daily_logs
+    WHERE user_id = NEW.user_id AND date = NEW.date AND id <> NEW.id;
+
+    IF other_total + NEW.time_spent_minutes > 1440 THEN
+        RAISE EXCEPTION 'DAILY_TOTAL_EXCEEDED' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.started_at IS NOT NULL
+       AND NEW.time_spent_minutes > CEIL(EXTRACT(EPOCH FROM (NEW.ended_at - NEW.started_at)) / 60) THEN
+        RAISE EXCEPTION 'INVALID_TIME_RANGE' USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.started_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.daily_logs
+        WHERE user_id = NEW.user_id
+        AND date = NEW.date
+        AND id <> NEW.id
+        AND started_at IS NOT NULL
+        AND tstzrange(started_at, ended_at) && tstzrange(NEW.started_at, NEW.ended_at)
+    ) THEN
+        RAISE EXCEPTION 'SESSION_OVERLAP' USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.log_activity(DATE, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
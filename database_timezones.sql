@@ -0,0 +1,915 @@
+-- User timezones and consistent day boundaries
+-- "Today" was whatever the browser or the database server (UTC) thought it
+-- was, so a family travelling, or a doctor in another timezone, saw different
+-- days. Each user's IANA timezone is now stored in user_data and the server
+-- works out "today" and "this week" in the patient's own timezone:
+--   user_today(user)            - the user's current date
+--   user_week_start_date(user)  - first day of the user's current week
+--   current_user_today()        - the caller's current date, for policies
+--   get_user_today(user)        - RPC for clients (the patient or their doctors)
+-- Logging, import and backfill checks, the 5-day edit window, goal versions
+-- and treatment protocol phases use the patient's date instead of the
+-- server's.
+--
+-- Run after database_csv_import.sql, database_week_start.sql and
+-- database_goal_notifications.sql.
+
+-- ============================================================================
+-- 1. Timezone column
+-- ============================================================================
+
+ALTER TABLE public.user_data ADD COLUMN IF NOT EXISTS timezone TEXT;
+
+COMMENT ON COLUMN public.user_data.timezone IS
+    'IANA timezone, e.g. Europe/Ljubljana; NULL is treated as UTC until the app saves the browser timezone';
+
+-- Only names PostgreSQL knows are accepted, so date maths never fails later
+CREATE OR REPLACE FUNCTION public.validate_user_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF NEW.timezone IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM pg_catalog.pg_timezone_names WHERE name = NEW.timezone
+    ) THEN
+        RAISE EXCEPTION 'INVALID_TIMEZONE' USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_user_timezone ON public.user_data;
+CREATE TRIGGER validate_user_timezone
+    BEFORE INSERT OR UPDATE OF timezone ON public.user_data
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_user_timezone();
+
+-- ============================================================================
+-- 2. Day helpers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.user_today(p_user_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT (NOW() AT TIME ZONE COALESCE(
+        (SELECT timezone FROM public.user_data WHERE user_id = p_user_id),
+        'UTC'
+    ))::DATE;
+$$;
+
+-- Weeks start on the user's week_start setting; Monday when none is saved,
+-- as in resolveWeekStart() on the client
+CREATE OR REPLACE FUNCTION public.user_week_start_date(p_user_id UUID)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT today - ((EXTRACT(DOW FROM today)::INTEGER - COALESCE(ud.week_start, 1) + 7) % 7)
+    FROM (SELECT public.user_today(p_user_id) AS today) t
+    LEFT JOIN public.user_data ud ON ud.user_id = p_user_id;
+$$;
+
+-- The caller's own date; policies run as the caller, who may not read
+-- other users' dates through user_today()
+CREATE OR REPLACE FUNCTION public.current_user_today()
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+    SELECT public.user_today(auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_today(p_user_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in');
+    END IF;
+
+    IF auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = auth.uid() AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    RETURN json_build_object(
+        'success', true,
+        'today', public.user_today(p_user_id),
+        'week_start_date', public.user_week_start_date(p_user_id),
+        'timezone', (SELECT timezone FROM public.user_data WHERE user_id = p_user_id)
+    );
+END;
+$$;
+
+-- ============================================================================
+-- 3. Logging rules use the patient's date
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.log_activity(
+    p_date DATE,
+    p_minutes INTEGER,
+    p_notes TEXT DEFAULT NULL,
+    p_started_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_ended_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_therapy_type TEXT DEFAULT 'patching',
+    p_eye TEXT DEFAULT NULL,
+    p_client_id UUID DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    existing_count INTEGER;
+    existing_total INTEGER;
+    new_entry_id UUID;
+    is_backfill BOOLEAN;
+    patient_today DATE := public.user_today(current_user_id);
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to log activity');
+    END IF;
+
+    -- A retried submission returns the entry that was already saved
+    IF p_client_id IS NOT NULL THEN
+        SELECT id INTO new_entry_id
+        FROM public.daily_logs
+        WHERE user_id = current_user_id AND client_id = p_client_id;
+
+        IF new_entry_id IS NOT NULL THEN
+            SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+            INTO existing_count, existing_total
+            FROM public.daily_logs
+            WHERE user_id = current_user_id
+            AND date = (SELECT date FROM public.daily_logs WHERE id = new_entry_id);
+
+            RETURN json_build_object(
+                'success', true,
+                'duplicate', true,
+                'entry_id', new_entry_id,
+                'entry_count', existing_count,
+                'day_total_minutes', existing_total
+            );
+        END IF;
+    END IF;
+
+    IF p_minutes IS NULL OR p_minutes < 30 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_SHORT', 'error', 'Minimum session duration is 30 minutes');
+    END IF;
+
+    IF p_minutes > 1440 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DURATION_TOO_LONG', 'error', 'Time cannot exceed 24 hours in a day');
+    END IF;
+
+    IF p_date IS NULL OR p_date > patient_today THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_IN_FUTURE', 'error', 'Cannot log activities for future dates');
+    END IF;
+
+    -- Older dates are only open while the doctor's approval is active
+    is_backfill := p_date < patient_today - 5;
+    IF is_backfill AND NOT public.has_open_backfill(current_user_id, p_date) THEN
+        RETURN json_build_object('success', false, 'error_code', 'DATE_TOO_OLD', 'error', 'Can only log activities for the last 5 days');
+    END IF;
+
+    IF p_therapy_type IS NULL OR p_therapy_type NOT IN ('patching', 'atropine', 'glasses', 'binocular_games') THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_THERAPY_TYPE', 'error', 'Unknown therapy type');
+    END IF;
+
+    IF p_eye IS NOT NULL AND p_eye NOT IN ('left', 'right', 'both') THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_THERAPY_TYPE', 'error', 'Eye must be left, right or both');
+    END IF;
+
+    -- Start and end must be given together and cover at least the logged minutes
+    IF (p_started_at IS NULL) <> (p_ended_at IS NULL)
+       OR p_ended_at <= p_started_at
+       OR p_minutes > CEIL(EXTRACT(EPOCH FROM (p_ended_at - p_started_at)) / 60) THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_TIME_RANGE', 'error', 'The end time must be after the start time and cover the logged duration');
+    END IF;
+
+    -- Serialize concurrent submissions for the same user and day
+    PERFORM pg_advisory_xact_lock(hashtext(current_user_id::TEXT || p_date::TEXT));
+
+    SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+    INTO existing_count, existing_total
+    FROM public.daily_logs
+    WHERE user_id = current_user_id AND date = p_date;
+
+    -- A replay of the same entry may have saved it while this call waited
+    IF p_client_id IS NOT NULL THEN
+        SELECT id INTO new_entry_id
+        FROM public.daily_logs
+        WHERE user_id = current_user_id AND client_id = p_client_id;
+
+        IF new_entry_id IS NOT NULL THEN
+            RETURN json_build_object(
+                'success', true,
+                'duplicate', true,
+                'entry_id', new_entry_id,
+                'entry_count', existing_count,
+                'day_total_minutes', existing_total
+            );
+        END IF;
+    END IF;
+
+    IF existing_count >= 10 THEN
+        RETURN json_build_object('success', false, 'error_code', 'DAILY_ENTRY_LIMIT', 'error', 'Maximum of 10 activity entries per day');
+    END IF;
+
+    IF existing_total + p_minutes > 1440 THEN
+        RETURN json_build_object(
+            'success', false,
+            'error_code', 'DAILY_TOTAL_EXCEEDED',
+            'error', 'Entries for this day cannot add up to more than 24 hours',
+            'remaining_minutes', GREATEST(0, 1440 - existing_total)
+        );
+    END IF;
+
+    IF p_started_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.daily_logs
+        WHERE user_id = current_user_id
+        AND date = p_date
+        AND started_at IS NOT NULL
+        AND tstzrange(started_at, ended_at) && tstzrange(p_started_at, p_ended_at)
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'SESSION_OVERLAP', 'error', 'This session overlaps another entry logged for the same day');
+    END IF;
+
+    INSERT INTO public.daily_logs (user_id, date, time_spent_minutes, notes, started_at, ended_at, therapy_type, eye, client_id, is_backfilled)
+    VALUES (
+        current_user_id,
+        p_date,
+        p_minutes,
+        NULLIF(LEFT(TRIM(COALESCE(p_notes, '')), 1000), ''),
+        p_started_at,
+        p_ended_at,
+        p_therapy_type,
+        p_eye,
+        p_client_id,
+        is_backfill
+    )
+    RETURNING id INTO new_entry_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'entry_id', new_entry_id,
+        'entry_count', existing_count + 1,
+        'day_total_minutes', existing_total + p_minutes
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_backfill(
+    p_start_date DATE,
+    p_end_date DATE,
+    p_reason TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_request_id UUID;
+    patient_today DATE := public.user_today(current_user_id);
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to request a backfill');
+    END IF;
+
+    -- Only dates already outside the normal window, at most 31 days at a time
+    IF p_start_date IS NULL OR p_end_date IS NULL
+       OR p_end_date < p_start_date
+       OR p_end_date > patient_today
+       OR p_start_date >= patient_today - 5
+       OR p_end_date - p_start_date > 30 THEN
+        RETURN json_build_object('success', false, 'error_code', 'BACKFILL_RANGE_INVALID', 'error', 'Invalid backfill date range');
+    END IF;
+
+    IF TRIM(COALESCE(p_reason, '')) = '' THEN
+        RETURN json_build_object('success', false, 'error_code', 'BACKFILL_REASON_REQUIRED', 'error', 'A reason is required');
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.backfill_requests
+        WHERE patient_id = current_user_id
+        AND status = 'pending'
+        AND daterange(start_date, end_date, '[]') && daterange(p_start_date, p_end_date, '[]')
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'BACKFILL_REQUEST_EXISTS', 'error', 'A pending request already covers these dates');
+    END IF;
+
+    INSERT INTO public.backfill_requests (patient_id, start_date, end_date, reason)
+    VALUES (current_user_id, p_start_date, p_end_date, LEFT(TRIM(p_reason), 500))
+    RETURNING id INTO new_request_id;
+
+    RETURN json_build_object('success', true, 'request_id', new_request_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.import_activity_logs(
+    p_patient_id UUID,
+    p_rows JSON
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    row_count INTEGER;
+    row_index INTEGER := 0;
+    import_row JSON;
+    row_date DATE;
+    row_minutes INTEGER;
+    day_count INTEGER;
+    day_total INTEGER;
+    is_backfill BOOLEAN;
+    patient_today DATE := public.user_today(p_patient_id);
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to import activity');
+    END IF;
+
+    IF current_user_id <> p_patient_id AND NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_patient_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    row_count := COALESCE(json_array_length(p_rows), 0);
+
+    IF row_count = 0 THEN
+        RETURN json_build_object('success', false, 'error_code', 'IMPORT_EMPTY', 'error', 'No rows to import');
+    END IF;
+
+    IF row_count > 1000 THEN
+        RETURN json_build_object('success', false, 'error_code', 'IMPORT_TOO_LARGE', 'error', 'At most 1000 rows can be imported at once');
+    END IF;
+
+    FOR import_row IN SELECT * FROM json_array_elements(p_rows)
+    LOOP
+        BEGIN
+            row_date := (import_row->>'date')::DATE;
+            row_minutes := (import_row->>'minutes')::INTEGER;
+        EXCEPTION WHEN OTHERS THEN
+            row_date := NULL;
+            row_minutes := NULL;
+        END;
+
+        -- Same lock as log_activity() so concurrent entries cannot exceed the day limits
+        PERFORM pg_advisory_xact_lock(hashtext(p_patient_id::TEXT || row_date::TEXT));
+
+        SELECT COUNT(*), COALESCE(SUM(time_spent_minutes), 0)
+        INTO day_count, day_total
+        FROM public.daily_logs
+        WHERE user_id = p_patient_id AND date = row_date;
+
+        IF row_date IS NULL OR row_date > patient_today
+           OR row_minutes IS NULL OR row_minutes < 30 OR row_minutes > 1440
+           OR day_count >= 10 OR day_total + row_minutes > 1440 THEN
+            -- Nothing from this import is kept
+            RAISE EXCEPTION USING MESSAGE = json_build_object(
+                'success', false,
+                'error_code', 'IMPORT_ROW_INVALID',
+                'error', 'Row breaks the logging rules',
+                'row', row_index
+            )::TEXT, ERRCODE = 'P0001';
+        END IF;
+
+        -- Patients import older dates only under an approved backfill
+        -- request, as in log_activity(); their doctors may import any date
+        is_backfill := current_user_id = p_patient_id AND row_date < patient_today - 5;
+        IF is_backfill AND NOT public.has_open_backfill(p_patient_id, row_date) THEN
+            RAISE EXCEPTION USING MESSAGE = json_build_object(
+                'success', false,
+                'error_code', 'IMPORT_ROW_TOO_OLD',
+                'error', 'Can only import the last 5 days or dates opened by your doctor',
+                'row', row_index
+            )::TEXT, ERRCODE = 'P0001';
+        END IF;
+
+        INSERT INTO public.daily_logs (user_id, date, time_spent_minutes, notes, source, imported_by, is_backfilled)
+        VALUES (
+            p_patient_id,
+            row_date,
+            row_minutes,
+            NULLIF(LEFT(TRIM(COALESCE(import_row->>'notes', '')), 1000), ''),
+            'import',
+            current_user_id,
+            is_backfill
+        );
+
+        row_index := row_index + 1;
+    END LOOP;
+
+    RETURN json_build_object('success', true, 'imported_count', row_count);
+EXCEPTION
+    WHEN raise_exception THEN
+        -- Rolls back the rows inserted so far and reports the failing one
+        RETURN SQLERRM::JSON;
+END;
+$$;
+
+-- ============================================================================
+-- 4. Edit/delete window in the patient's timezone
+-- ============================================================================
+
+-- Older dates stay editable while an approved backfill request covers them;
+-- patients can read their own requests, so the policies check them directly
+DROP POLICY IF EXISTS "Users can update own daily logs" ON daily_logs;
+CREATE POLICY "Users can update own daily logs" ON daily_logs
+    FOR UPDATE
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) = user_id
+        AND (
+            date >= (SELECT public.current_user_today()) - 5
+            OR EXISTS (
+                SELECT 1 FROM public.backfill_requests b
+                WHERE b.patient_id = daily_logs.user_id
+                AND b.status = 'approved'
+                AND b.expires_at > NOW()
+                AND daily_logs.date BETWEEN b.start_date AND b.end_date
+            )
+        )
+    )
+    WITH CHECK (
+        (SELECT auth.uid()) = user_id
+        AND (
+            date >= (SELECT public.current_user_today()) - 5
+            OR EXISTS (
+                SELECT 1 FROM public.backfill_requests b
+                WHERE b.patient_id = daily_logs.user_id
+                AND b.status = 'approved'
+                AND b.expires_at > NOW()
+                AND daily_logs.date BETWEEN b.start_date AND b.end_date
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Users can delete own daily logs" ON daily_logs;
+CREATE POLICY "Users can delete own daily logs" ON daily_logs
+    FOR DELETE
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) = user_id
+        AND (
+            date >= (SELECT public.current_user_today()) - 5
+            OR EXISTS (
+                SELECT 1 FROM public.backfill_requests b
+                WHERE b.patient_id = daily_logs.user_id
+                AND b.status = 'approved'
+                AND b.expires_at > NOW()
+                AND daily_logs.date BETWEEN b.start_date AND b.end_date
+            )
+        )
+    );
+
+-- ============================================================================
+-- 5. Treatment protocol phases switch on the patient's date
+-- ============================================================================
+
+-- Phases that have not started for the patient are removed
+CREATE OR REPLACE FUNCTION public.cancel_treatment_protocol(p_protocol_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    protocol_patient_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to cancel a protocol');
+    END IF;
+
+    SELECT patient_id INTO protocol_patient_id
+    FROM public.treatment_protocols
+    WHERE id = p_protocol_id AND status = 'active'
+    FOR UPDATE;
+
+    IF protocol_patient_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'PROTOCOL_NOT_FOUND', 'error', 'Protocol not found');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = protocol_patient_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    UPDATE public.treatment_protocols
+    SET status = 'cancelled', cancelled_at = NOW()
+    WHERE id = p_protocol_id;
+
+    DELETE FROM public.user_goal_versions
+    WHERE effective_from > public.user_today(protocol_patient_id)
+    AND protocol_phase_id IN (
+        SELECT id FROM public.treatment_protocol_phases WHERE protocol_id = p_protocol_id
+    );
+
+    RETURN json_build_object('success', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_user_goals_from_versions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    updated_count INTEGER;
+BEGIN
+    PERFORM set_config('app.goal_version_written', 'on', true);
+
+    UPDATE public.user_goals g
+    SET daily_goal_minutes = v.daily_goal_minutes,
+        weekly_goal_minutes = v.weekly_goal_minutes,
+        weekday_goal_minutes = v.weekday_goal_minutes,
+        therapy_type = v.therapy_type,
+        set_by_doctor_id = v.set_by_doctor_id
+    FROM (
+        SELECT DISTINCT ON (user_id) *
+        FROM public.user_goal_versions
+        WHERE effective_from <= public.user_today(user_id)
+        ORDER BY user_id, effective_from DESC
+    ) v
+    WHERE g.user_id = v.user_id
+    AND (g.daily_goal_minutes, g.weekly_goal_minutes, g.weekday_goal_minutes, g.therapy_type)
+        IS DISTINCT FROM (v.daily_goal_minutes, v.weekly_goal_minutes, v.weekday_goal_minutes, v.therapy_type);
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    PERFORM set_config('app.goal_version_written', 'off', true);
+
+    RETURN updated_count;
+END;
+$$;
+
+-- A protocol may start on the patient's today, whatever the doctor's date
+-- p_phases: [{"name": "Intensive", "duration_weeks": 8, "daily_goal_minutes": 360,
+--             "weekly_goal_minutes": 2520, "therapy_type": null}, ...]
+CREATE OR REPLACE FUNCTION public.set_treatment_protocol(
+    p_user_id UUID,
+    p_name TEXT,
+    p_start_date DATE,
+    p_phases JSON
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_protocol_id UUID;
+    new_phase_id UUID;
+    phase_count INTEGER;
+    phase_index INTEGER := 0;
+    phase JSON;
+    phase_weeks INTEGER;
+    phase_daily INTEGER;
+    phase_weekly INTEGER;
+    phase_therapy TEXT;
+    phase_start DATE;
+    patient_today DATE;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set a protocol');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    phase_count := COALESCE(json_array_length(p_phases), 0);
+    patient_today := public.user_today(p_user_id);
+
+    IF NULLIF(TRIM(COALESCE(p_name, '')), '') IS NULL
+       OR p_start_date IS NULL OR p_start_date < patient_today
+       OR phase_count = 0 OR phase_count > 10 THEN
+        RETURN json_build_object('success', false, 'error_code', 'PROTOCOL_INVALID', 'error', 'Invalid protocol');
+    END IF;
+
+    -- The new protocol replaces the active one and everything scheduled from its start
+    UPDATE public.treatment_protocols
+    SET status = 'cancelled', cancelled_at = NOW()
+    WHERE patient_id = p_user_id AND status = 'active';
+
+    DELETE FROM public.user_goal_versions
+    WHERE user_id = p_user_id AND effective_from >= p_start_date;
+
+    INSERT INTO public.treatment_protocols (patient_id, name, start_date, created_by)
+    VALUES (p_user_id, LEFT(TRIM(p_name), 100), p_start_date, current_user_id)
+    RETURNING id INTO new_protocol_id;
+
+    phase_start := p_start_date;
+
+    FOR phase IN SELECT * FROM json_array_elements(p_phases)
+    LOOP
+        BEGIN
+            phase_weeks := (phase->>'duration_weeks')::INTEGER;
+            phase_daily := (phase->>'daily_goal_minutes')::INTEGER;
+            phase_weekly := (phase->>'weekly_goal_minutes')::INTEGER;
+        EXCEPTION WHEN OTHERS THEN
+            phase_weeks := NULL;
+        END;
+        phase_therapy := NULLIF(phase->>'therapy_type', '');
+
+        IF phase_weeks IS NULL OR phase_weeks <= 0 OR phase_weeks > 104
+           OR phase_daily IS NULL OR phase_daily <= 0 OR phase_daily > 1440
+           OR phase_weekly IS NULL OR phase_weekly <= 0 OR phase_weekly > 10080
+           OR (phase_therapy IS NOT NULL AND phase_therapy NOT IN ('patching', 'atropine', 'glasses', 'binocular_games')) THEN
+            -- Nothing from this call is kept
+            RAISE EXCEPTION USING MESSAGE = json_build_object(
+                'success', false,
+                'error_code', 'PROTOCOL_INVALID',
+                'error', 'Phase is out of range',
+                'phase', phase_index
+            )::TEXT, ERRCODE = 'P0001';
+        END IF;
+
+        INSERT INTO public.treatment_protocol_phases (
+            protocol_id, position, name, duration_weeks, daily_goal_minutes, weekly_goal_minutes, therapy_type
+        ) VALUES (
+            new_protocol_id, phase_index, NULLIF(LEFT(TRIM(COALESCE(phase->>'name', '')), 100), ''),
+            phase_weeks, phase_daily, phase_weekly, phase_therapy
+        )
+        RETURNING id INTO new_phase_id;
+
+        PERFORM set_config('app.goal_version_written', 'on', true);
+
+        INSERT INTO public.user_goal_versions (
+            user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type, effective_from, set_by_doctor_id, protocol_phase_id
+        ) VALUES (
+            p_user_id, phase_daily, phase_weekly, phase_therapy, phase_start, current_user_id, new_phase_id
+        );
+
+        -- The first phase may start today
+        IF phase_start = patient_today THEN
+            INSERT INTO public.user_goals (user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, set_by_doctor_id)
+            VALUES (p_user_id, phase_daily, phase_weekly, NULL, phase_therapy, current_user_id)
+            ON CONFLICT (user_id) DO UPDATE
+            SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+                weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+                weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+                therapy_type = EXCLUDED.therapy_type,
+                set_by_doctor_id = EXCLUDED.set_by_doctor_id;
+        END IF;
+
+        PERFORM set_config('app.goal_version_written', 'off', true);
+
+        phase_start := phase_start + phase_weeks * 7;
+        phase_index := phase_index + 1;
+    END LOOP;
+
+    RETURN json_build_object('success', true, 'protocol_id', new_protocol_id);
+EXCEPTION
+    WHEN raise_exception THEN
+        -- Rolls back the protocol and phases written so far
+        RETURN SQLERRM::JSON;
+END;
+$$;
+
+-- Midnight comes at a different hour in each timezone, so sync every hour
+SELECT cron.schedule('sync-user-goals', '5 * * * *', 'SELECT public.sync_user_goals_from_versions()');
+
+-- ============================================================================
+-- 6. Goal versions start on the patient's date
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_user_goal_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- set_user_goal() writes its own version
+    IF current_setting('app.goal_version_written', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.user_goal_versions (
+        user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, effective_from, set_by_doctor_id
+    ) VALUES (
+        NEW.user_id, NEW.daily_goal_minutes, NEW.weekly_goal_minutes, NEW.weekday_goal_minutes, NEW.therapy_type, public.user_today(NEW.user_id), NEW.set_by_doctor_id
+    )
+    ON CONFLICT (user_id, effective_from) DO UPDATE
+    SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+        weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+        weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+        therapy_type = EXCLUDED.therapy_type,
+        set_by_doctor_id = EXCLUDED.set_by_doctor_id,
+        created_at = NOW();
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_goal(
+    p_user_id UUID,
+    p_daily_goal_minutes INTEGER,
+    p_weekly_goal_minutes INTEGER,
+    p_therapy_type TEXT DEFAULT NULL,
+    p_effective_from DATE DEFAULT NULL,
+    p_weekday_goal_minutes INTEGER[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_version_id UUID;
+    patient_today DATE;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set goals');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    -- Without a date the goal starts on the patient's today
+    patient_today := public.user_today(p_user_id);
+    p_effective_from := COALESCE(p_effective_from, patient_today);
+
+    IF p_daily_goal_minutes IS NULL OR p_daily_goal_minutes <= 0 OR p_daily_goal_minutes > 1440
+       OR p_weekly_goal_minutes IS NULL OR p_weekly_goal_minutes <= 0 OR p_weekly_goal_minutes > 10080
+       OR (p_therapy_type IS NOT NULL AND p_therapy_type NOT IN ('patching', 'atropine', 'glasses', 'binocular_games'))
+       OR (p_weekday_goal_minutes IS NOT NULL AND NOT (
+            COALESCE(array_length(p_weekday_goal_minutes, 1), 0) = 7
+            AND array_position(p_weekday_goal_minutes, NULL) IS NULL
+            AND 0 < ALL(p_weekday_goal_minutes)
+            AND 1440 >= ALL(p_weekday_goal_minutes)
+       )) THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_GOAL', 'error', 'Invalid goal values');
+    END IF;
+
+    -- Picked up by the notification trigger on user_goal_versions
+    PERFORM set_config('app.goal_change_reason', COALESCE(LEFT(TRIM(p_reason), 500), ''), true);
+
+    INSERT INTO public.user_goal_versions (
+        user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, effective_from, set_by_doctor_id
+    ) VALUES (
+        p_user_id, p_daily_goal_minutes, p_weekly_goal_minutes, p_weekday_goal_minutes, p_therapy_type, p_effective_from, current_user_id
+    )
+    ON CONFLICT (user_id, effective_from) DO UPDATE
+    SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+        weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+        weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+        therapy_type = EXCLUDED.therapy_type,
+        set_by_doctor_id = EXCLUDED.set_by_doctor_id,
+        protocol_phase_id = NULL,
+        created_at = NOW()
+    RETURNING id INTO new_version_id;
+
+    -- Mirror the version in force today into user_goals
+    IF p_effective_from <= patient_today AND NOT EXISTS (
+        SELECT 1 FROM public.user_goal_versions
+        WHERE user_id = p_user_id
+        AND effective_from > p_effective_from
+        AND effective_from <= patient_today
+    ) THEN
+        PERFORM set_config('app.goal_version_written', 'on', true);
+
+        INSERT INTO public.user_goals (user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, set_by_doctor_id)
+        VALUES (p_user_id, p_daily_goal_minutes, p_weekly_goal_minutes, p_weekday_goal_minutes, p_therapy_type, current_user_id)
+        ON CONFLICT (user_id) DO UPDATE
+        SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+            weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+            weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+            therapy_type = EXCLUDED.therapy_type,
+            set_by_doctor_id = EXCLUDED.set_by_doctor_id;
+
+        PERFORM set_config('app.goal_version_written', 'off', true);
+    END IF;
+
+    RETURN json_build_object('success', true, 'version_id', new_version_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_goals_bulk(
+    p_user_ids UUID[],
+    p_daily_goal_minutes INTEGER,
+    p_weekly_goal_minutes INTEGER,
+    p_therapy_type TEXT DEFAULT NULL,
+    p_effective_from DATE DEFAULT NULL,
+    p_weekday_goal_minutes INTEGER[] DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    patient_ids UUID[];
+    patient UUID;
+    result JSON;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set goals');
+    END IF;
+
+    SELECT array_agg(DISTINCT id) INTO patient_ids
+    FROM unnest(p_user_ids) AS id
+    WHERE id IS NOT NULL;
+
+    IF patient_ids IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'BULK_EMPTY', 'error', 'No patients selected');
+    END IF;
+
+    IF array_length(patient_ids, 1) > 200 THEN
+        RETURN json_build_object('success', false, 'error_code', 'BULK_TOO_LARGE', 'error', 'At most 200 patients can be updated at once');
+    END IF;
+
+    -- Check access to every patient before writing anything
+    SELECT id INTO patient
+    FROM unnest(patient_ids) AS id
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = id
+    )
+    LIMIT 1;
+
+    IF patient IS NOT NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient', 'patient_id', patient);
+    END IF;
+
+    -- Without a date, set_user_goal() starts each goal on that patient's today
+    FOREACH patient IN ARRAY patient_ids
+    LOOP
+        result := public.set_user_goal(
+            patient,
+            p_daily_goal_minutes,
+            p_weekly_goal_minutes,
+            p_therapy_type,
+            p_effective_from,
+            p_weekday_goal_minutes,
+            p_reason
+        );
+
+        IF NOT (result->>'success')::BOOLEAN THEN
+            -- Nothing from this call is kept
+            RAISE EXCEPTION USING MESSAGE = result::TEXT, ERRCODE = 'P0001';
+        END IF;
+    END LOOP;
+
+    RETURN json_build_object('success', true, 'updated_count', array_length(patient_ids, 1));
+EXCEPTION
+    WHEN raise_exception THEN
+        -- Rolls back the goal versions written so far
+        RETURN SQLERRM::JSON;
+END;
+$$;
+
+-- Grant necessary permissions
+-- current_user_today() is called from the policies above, so the role needs
+-- EXECUTE; clients read other dates through get_user_today(), which checks
+-- access
+GRANT EXECUTE ON FUNCTION public.current_user_today() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_today(UUID) TO authenticated;
+
+-- Only used by other functions; they take any user id, so keep them private.
+-- Supabase grants new functions to anon and authenticated directly.
+REVOKE EXECUTE ON FUNCTION public.user_today(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.user_today(UUID) FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.user_week_start_date(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.user_week_start_date(UUID) FROM anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.current_user_today() FROM PUBLIC, anon;
@@ -0,0 +1,304 @@
+-- Multi-phase treatment protocols
+-- Treatment usually tapers in phases (e.g. 6h/day for 8 weeks, then 4h, then
+-- 2h for maintenance). A protocol is an ordered list of phases, each with a
+-- duration and daily/weekly targets. Saving a protocol writes one goal version
+-- per phase, effective from the day the phase starts (see
+-- database_goal_history.sql), so goals switch on phase boundaries without the
+-- doctor editing them. The last phase stays in force after it ends.
+--
+-- New error codes:
+--   PROTOCOL_INVALID   - missing name, start date in the past, or a phase is out of range
+--   PROTOCOL_NOT_FOUND - protocol does not exist or is no longer active
+
+-- ============================================================================
+-- 1. Protocol tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.treatment_protocols (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    patient_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    start_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    cancelled_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One active protocol per patient
+CREATE UNIQUE INDEX IF NOT EXISTS idx_treatment_protocols_active
+    ON public.treatment_protocols(patient_id)
+    WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS public.treatment_protocol_phases (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    protocol_id UUID NOT NULL REFERENCES public.treatment_protocols(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL CHECK (position >= 0),
+    name TEXT,
+    duration_weeks INTEGER NOT NULL CHECK (duration_weeks > 0 AND duration_weeks <= 104),
+    daily_goal_minutes INTEGER NOT NULL CHECK (daily_goal_minutes > 0 AND daily_goal_minutes <= 1440),
+    weekly_goal_minutes INTEGER NOT NULL CHECK (weekly_goal_minutes > 0 AND weekly_goal_minutes <= 10080),
+    therapy_type TEXT CHECK (therapy_type IS NULL OR therapy_type IN ('patching', 'atropine', 'glasses', 'binocular_games')),
+    UNIQUE (protocol_id, position)
+);
+
+-- Goal versions written for a phase, so cancelling a protocol can remove them
+ALTER TABLE public.user_goal_versions ADD COLUMN IF NOT EXISTS protocol_phase_id UUID
+    REFERENCES public.treatment_protocol_phases(id) ON DELETE SET NULL;
+
+ALTER TABLE public.treatment_protocols ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.treatment_protocol_phases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own protocols" ON public.treatment_protocols
+    FOR SELECT
+    TO authenticated
+    USING ((SELECT auth.uid()) = patient_id);
+
+CREATE POLICY "Doctors can view patient protocols via access" ON public.treatment_protocols
+    FOR SELECT
+    TO authenticated
+    USING (
+        (SELECT auth.uid()) IN (
+            SELECT doctor_id FROM doctor_user_access
+            WHERE patient_id = treatment_protocols.patient_id
+        )
+    );
+
+CREATE POLICY "Users can view phases of visible protocols" ON public.treatment_protocol_phases
+    FOR SELECT
+    TO authenticated
+    USING (
+        protocol_id IN (SELECT id FROM public.treatment_protocols)
+    );
+
+-- No INSERT/UPDATE policies: protocols are written by the functions below
+
+-- ============================================================================
+-- 2. Saving a protocol
+-- ============================================================================
+
+-- p_phases: [{"name": "Intensive", "duration_weeks": 8, "daily_goal_minutes": 360,
+--             "weekly_goal_minutes": 2520, "therapy_type": null}, ...]
+CREATE OR REPLACE FUNCTION public.set_treatment_protocol(
+    p_user_id UUID,
+    p_name TEXT,
+    p_start_date DATE,
+    p_phases JSON
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_protocol_id UUID;
+    new_phase_id UUID;
+    phase_count INTEGER;
+    phase_index INTEGER := 0;
+    phase JSON;
+    phase_weeks INTEGER;
+    phase_daily INTEGER;
+    phase_weekly INTEGER;
+    phase_therapy TEXT;
+    phase_start DATE;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set a protocol');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    phase_count := COALESCE(json_array_length(p_phases), 0);
+
+    IF NULLIF(TRIM(COALESCE(p_name, '')), '') IS NULL
+       OR p_start_date IS NULL OR p_start_date < CURRENT_DATE
+       OR phase_count = 0 OR phase_count > 10 THEN
+        RETURN json_build_object('success', false, 'error_code', 'PROTOCOL_INVALID', 'error', 'Invalid protocol');
+    END IF;
+
+    -- The new protocol replaces the active one and everything scheduled from its start
+    UPDATE public.treatment_protocols
+    SET status = 'cancelled', cancelled_at = NOW()
+    WHERE patient_id = p_user_id AND status = 'active';
+
+    DELETE FROM public.user_goal_versions
+    WHERE user_id = p_user_id AND effective_from >= p_start_date;
+
+    INSERT INTO public.treatment_protocols (patient_id, name, start_date, created_by)
+    VALUES (p_user_id, LEFT(TRIM(p_name), 100), p_start_date, current_user_id)
+    RETURNING id INTO new_protocol_id;
+
+    phase_start := p_start_date;
+
+    FOR phase IN SELECT * FROM json_array_elements(p_phases)
+    LOOP
+        BEGIN
+            phase_weeks := (phase->>'duration_weeks')::INTEGER;
+            phase_daily := (phase->>'daily_goal_minutes')::INTEGER;
+            phase_weekly := (phase->>'weekly_goal_minutes')::INTEGER;
+        EXCEPTION WHEN OTHERS THEN
+            phase_weeks := NULL;
+        END;
+        phase_therapy := NULLIF(phase->>'therapy_type', '');
+
+        IF phase_weeks IS NULL OR phase_weeks <= 0 OR phase_weeks > 104
+           OR phase_daily IS NULL OR phase_daily <= 0 OR phase_daily > 1440
+           OR phase_weekly IS NULL OR phase_weekly <= 0 OR phase_weekly > 10080
+           OR (phase_therapy IS NOT NULL AND phase_therapy NOT IN ('patching', 'atropine', 'glasses', 'binocular_games')) THEN
+            -- Nothing from this call is kept
+            RAISE EXCEPTION USING MESSAGE = json_build_object(
+                'success', false,
+                'error_code', 'PROTOCOL_INVALID',
+                'error', 'Phase is out of range',
+                'phase', phase_index
+            )::TEXT, ERRCODE = 'P0001';
+        END IF;
+
+        INSERT INTO public.treatment_protocol_phases (
+            protocol_id, position, name, duration_weeks, daily_goal_minutes, weekly_goal_minutes, therapy_type
+        ) VALUES (
+            new_protocol_id, phase_index, NULLIF(LEFT(TRIM(COALESCE(phase->>'name', '')), 100), ''),
+            phase_weeks, phase_daily, phase_weekly, phase_therapy
+        )
+        RETURNING id INTO new_phase_id;
+
+        PERFORM set_config('app.goal_version_written', 'on', true);
+
+        INSERT INTO public.user_goal_versions (
+            user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type, effective_from, set_by_doctor_id, protocol_phase_id
+        ) VALUES (
+            p_user_id, phase_daily, phase_weekly, phase_therapy, phase_start, current_user_id, new_phase_id
+        );
+
+        -- The first phase may start today
+        IF phase_start = CURRENT_DATE THEN
+            INSERT INTO public.user_goals (user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type, set_by_doctor_id)
+            VALUES (p_user_id, phase_daily, phase_weekly, phase_therapy, current_user_id)
+            ON CONFLICT (user_id) DO UPDATE
+            SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+                weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+                therapy_type = EXCLUDED.therapy_type,
+                set_by_doctor_id = EXCLUDED.set_by_doctor_id;
+        END IF;
+
+        PERFORM set_config('app.goal_version_written', 'off', true);
+
+        phase_start := phase_start + phase_weeks * 7;
+        phase_index := phase_index + 1;
+    END LOOP;
+
+    RETURN json_build_object('success', true, 'protocol_id', new_protocol_id);
+EXCEPTION
+    WHEN raise_exception THEN
+        -- Rolls back the protocol and phases written so far
+        RETURN SQLERRM::JSON;
+END;
+$$;
+
+-- ============================================================================
+-- 3. Cancelling a protocol
+-- ============================================================================
+
+-- Phases that have not started yet are removed; the goal in force today stays
+CREATE OR REPLACE FUNCTION public.cancel_treatment_protocol(p_protocol_id UUID)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    protocol_patient_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to cancel a protocol');
+    END IF;
+
+    SELECT patient_id INTO protocol_patient_id
+    FROM public.treatment_protocols
+    WHERE id = p_protocol_id AND status = 'active'
+    FOR UPDATE;
+
+    IF protocol_patient_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'PROTOCOL_NOT_FOUND', 'error', 'Protocol not found');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = protocol_patient_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    UPDATE public.treatment_protocols
+    SET status = 'cancelled', cancelled_at = NOW()
+    WHERE id = p_protocol_id;
+
+    DELETE FROM public.user_goal_versions
+    WHERE effective_from > CURRENT_DATE
+    AND protocol_phase_id IN (
+        SELECT id FROM public.treatment_protocol_phases WHERE protocol_id = p_protocol_id
+    );
+
+    RETURN json_build_object('success', true);
+END;
+$$;
+
+-- ============================================================================
+-- 4. Keeping user_goals on the phase in force
+-- ============================================================================
+
+-- The app reads goal versions directly, so goals switch in the UI on the phase
+-- boundary. user_goals is only a mirror for older clients, brought onto the
+-- phase in force by the pg_cron job below.
+CREATE OR REPLACE FUNCTION public.sync_user_goals_from_versions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    updated_count INTEGER;
+BEGIN
+    PERFORM set_config('app.goal_version_written', 'on', true);
+
+    UPDATE public.user_goals g
+    SET daily_goal_minutes = v.daily_goal_minutes,
+        weekly_goal_minutes = v.weekly_goal_minutes,
+        therapy_type = v.therapy_type,
+        set_by_doctor_id = v.set_by_doctor_id
+    FROM (
+        SELECT DISTINCT ON (user_id) *
+        FROM public.user_goal_versions
+        WHERE effective_from <= CURRENT_DATE
+        ORDER BY user_id, effective_from DESC
+    ) v
+    WHERE g.user_id = v.user_id
+    AND (g.daily_goal_minutes, g.weekly_goal_minutes, g.therapy_type)
+        IS DISTINCT FROM (v.daily_goal_minutes, v.weekly_goal_minutes, v.therapy_type);
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    PERFORM set_config('app.goal_version_written', 'off', true);
+
+    RETURN updated_count;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT SELECT ON public.treatment_protocols TO authenticated;
+GRANT SELECT ON public.treatment_protocol_phases TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_treatment_protocol(UUID, TEXT, DATE, JSON) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_treatment_protocol(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_user_goals_from_versions() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.sync_user_goals_from_versions() FROM anon, authenticated;
+
+-- Runs shortly after midnight; scheduling again under the same name replaces the job
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+SELECT cron.schedule('sync-user-goals', '5 0 * * *', 'SELECT public.sync_user_goals_from_versions()');
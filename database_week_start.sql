@@ -0,0 +1,17 @@
+-- Per-user first day of the week
+-- Weeks were hardcoded to start on Sunday. week_start lets each user choose;
+-- the app saves the browser locale's first day on the first visit, and NULL
+-- means Monday everywhere. The calendar grid, week view and the weekly goal
+-- progress in Statistics use it, also when a doctor views the patient.
+--
+-- Values follow JavaScript's Date.getDay(): 0 = Sunday, 1 = Monday, ... 6 = Saturday
+
+ALTER TABLE public.user_data
+    ADD COLUMN IF NOT EXISTS week_start SMALLINT
+    CHECK (week_start IS NULL OR week_start BETWEEN 0 AND 6);
+
+COMMENT ON COLUMN public.user_data.week_start IS
+    'First day of the week (0 = Sunday, 1 = Monday); NULL is Monday until the app saves the browser locale';
+
+-- Users already update their own user_data row (name, surname), so no new
+-- policies are needed.
@@ -0,0 +1,393 @@
+-- Per-weekday daily goals
+-- Children patch far more on weekends than on school days, so a goal can hold
+-- a separate daily target for each weekday. weekday_goal_minutes has seven
+-- entries, Sunday first (matching JavaScript's Date.getDay()); when it is NULL
+-- every day uses daily_goal_minutes. daily_goal_minutes stays filled with the
+-- average so older clients keep working. The weekly goal is still stored on
+-- its own; the app fills it with the sum of the weekday targets unless the
+-- doctor sets it independently.
+--
+-- Run after database_goal_history.sql and database_treatment_protocols.sql.
+-- INVALID_GOAL now also covers weekday targets that are out of range.
+
+-- ============================================================================
+-- 1. Weekday target columns
+-- ============================================================================
+
+ALTER TABLE public.user_goals ADD COLUMN IF NOT EXISTS weekday_goal_minutes INTEGER[];
+ALTER TABLE public.user_goal_versions ADD COLUMN IF NOT EXISTS weekday_goal_minutes INTEGER[];
+
+ALTER TABLE public.user_goals DROP CONSTRAINT IF EXISTS user_goals_weekday_goal_minutes_check;
+ALTER TABLE public.user_goals ADD CONSTRAINT user_goals_weekday_goal_minutes_check
+    CHECK (
+        weekday_goal_minutes IS NULL OR (
+            array_length(weekday_goal_minutes, 1) = 7
+            AND array_position(weekday_goal_minutes, NULL) IS NULL
+            AND 0 < ALL(weekday_goal_minutes)
+            AND 1440 >= ALL(weekday_goal_minutes)
+        )
+    );
+
+ALTER TABLE public.user_goal_versions DROP CONSTRAINT IF EXISTS user_goal_versions_weekday_goal_minutes_check;
+ALTER TABLE public.user_goal_versions ADD CONSTRAINT user_goal_versions_weekday_goal_minutes_check
+    CHECK (
+        weekday_goal_minutes IS NULL OR (
+            array_length(weekday_goal_minutes, 1) = 7
+            AND array_position(weekday_goal_minutes, NULL) IS NULL
+            AND 0 < ALL(weekday_goal_minutes)
+            AND 1440 >= ALL(weekday_goal_minutes)
+        )
+    );
+
+COMMENT ON COLUMN public.user_goal_versions.weekday_goal_minutes IS 'Daily target per weekday, Sunday first; NULL uses daily_goal_minutes every day';
+
+-- ============================================================================
+-- 2. Carry weekday targets through the goal version trigger
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.record_user_goal_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- set_user_goal() writes its own version
+    IF current_setting('app.goal_version_written', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.user_goal_versions (
+        user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, effective_from, set_by_doctor_id
+    ) VALUES (
+        NEW.user_id, NEW.daily_goal_minutes, NEW.weekly_goal_minutes, NEW.weekday_goal_minutes, NEW.therapy_type, CURRENT_DATE, NEW.set_by_doctor_id
+    )
+    ON CONFLICT (user_id, effective_from) DO UPDATE
+    SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+        weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+        weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+        therapy_type = EXCLUDED.therapy_type,
+        set_by_doctor_id = EXCLUDED.set_by_doctor_id,
+        created_at = NOW();
+
+    RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- 3. set_user_goal with weekday targets
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.set_user_goal(UUID, INTEGER, INTEGER, TEXT, DATE);
+
+CREATE OR REPLACE FUNCTION public.set_user_goal(
+    p_user_id UUID,
+    p_daily_goal_minutes INTEGER,
+    p_weekly_goal_minutes INTEGER,
+    p_therapy_type TEXT DEFAULT NULL,
+    p_effective_from DATE DEFAULT CURRENT_DATE,
+    p_weekday_goal_minutes INTEGER[] DEFAULT NULL
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_version_id UUID;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set goals');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    IF p_effective_from IS NULL
+       OR p_daily_goal_minutes IS NULL OR p_daily_goal_minutes <= 0 OR p_daily_goal_minutes > 1440
+       OR p_weekly_goal_minutes IS NULL OR p_weekly_goal_minutes <= 0 OR p_weekly_goal_minutes > 10080
+       OR (p_therapy_type IS NOT NULL AND p_therapy_type NOT IN ('patching', 'atropine', 'glasses', 'binocular_games'))
+       OR (p_weekday_goal_minutes IS NOT NULL AND NOT (
+            COALESCE(array_length(p_weekday_goal_minutes, 1), 0) = 7
+            AND array_position(p_weekday_goal_minutes, NULL) IS NULL
+            AND 0 < ALL(p_weekday_goal_minutes)
+            AND 1440 >= ALL(p_weekday_goal_minutes)
+       )) THEN
+        RETURN json_build_object('success', false, 'error_code', 'INVALID_GOAL', 'error', 'Invalid goal values');
+    END IF;
+
+    INSERT INTO public.user_goal_versions (
+        user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, effective_from, set_by_doctor_id
+    ) VALUES (
+        p_user_id, p_daily_goal_minutes, p_weekly_goal_minutes, p_weekday_goal_minutes, p_therapy_type, p_effective_from, current_user_id
+    )
+    ON CONFLICT (user_id, effective_from) DO UPDATE
+    SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+        weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+        weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+        therapy_type = EXCLUDED.therapy_type,
+        set_by_doctor_id = EXCLUDED.set_by_doctor_id,
+        protocol_phase_id = NULL,
+        created_at = NOW()
+    RETURNING id INTO new_version_id;
+
+    -- Mirror the version in force today into user_goals
+    IF p_effective_from <= CURRENT_DATE AND NOT EXISTS (
+        SELECT 1 FROM public.user_goal_versions
+        WHERE user_id = p_user_id
+        AND effective_from > p_effective_from
+        AND effective_from <= CURRENT_DATE
+    ) THEN
+        PERFORM set_config('app.goal_version_written', 'on', true);
+
+        INSERT INTO public.user_goals (user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, set_by_doctor_id)
+        VALUES (p_user_id, p_daily_goal_minutes, p_weekly_goal_minutes, p_weekday_goal_minutes, p_therapy_type, current_user_id)
+        ON CONFLICT (user_id) DO UPDATE
+        SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+            weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+            weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+            therapy_type = EXCLUDED.therapy_type,
+            set_by_doctor_id = EXCLUDED.set_by_doctor_id;
+
+        PERFORM set_config('app.goal_version_written', 'off', true);
+    END IF;
+
+    RETURN json_build_object('success', true, 'version_id', new_version_id);
+END;
+$$;
+
+-- ============================================================================
+-- 4. Goal history including weekday targets
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_goal_history(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_goal_history(p_user_id UUID)
+RETURNS TABLE (
+    id UUID,
+    daily_goal_minutes INTEGER,
+    weekly_goal_minutes INTEGER,
+    weekday_goal_minutes INTEGER[],
+    therapy_type TEXT,
+    effective_from DATE,
+    set_by_doctor_id UUID,
+    doctor_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+BEGIN
+    -- auth.uid() <> p_user_id is NULL for anonymous callers
+    IF auth.uid() IS NULL THEN
+        RETURN;
+    END IF;
+
+    IF auth.uid() <> p_user_id AND NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = auth.uid() AND patient_id = p_user_id
+    ) THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        v.id,
+        v.daily_goal_minutes,
+        v.weekly_goal_minutes,
+        v.weekday_goal_minutes,
+        v.therapy_type,
+        v.effective_from,
+        v.set_by_doctor_id,
+        CASE
+            WHEN v.set_by_doctor_id IS NULL THEN NULL
+            ELSE COALESCE(NULLIF(TRIM(COALESCE(ud.name, '') || ' ' || COALESCE(ud.surname, '')), ''), ud.email)
+        END::TEXT AS doctor_name,
+        v.created_at
+    FROM public.user_goal_versions v
+    LEFT JOIN public.user_data ud ON ud.user_id = v.set_by_doctor_id
+    WHERE v.user_id = p_user_id
+    ORDER BY v.effective_from ASC;
+END;
+$$;
+
+-- ============================================================================
+-- 5. Keep weekday targets in the daily user_goals sync
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.sync_user_goals_from_versions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    updated_count INTEGER;
+BEGIN
+    PERFORM set_config('app.goal_version_written', 'on', true);
+
+    UPDATE public.user_goals g
+    SET daily_goal_minutes = v.daily_goal_minutes,
+        weekly_goal_minutes = v.weekly_goal_minutes,
+        weekday_goal_minutes = v.weekday_goal_minutes,
+        therapy_type = v.therapy_type,
+        set_by_doctor_id = v.set_by_doctor_id
+    FROM (
+        SELECT DISTINCT ON (user_id) *
+        FROM public.user_goal_versions
+        WHERE effective_from <= CURRENT_DATE
+        ORDER BY user_id, effective_from DESC
+    ) v
+    WHERE g.user_id = v.user_id
+    AND (g.daily_goal_minutes, g.weekly_goal_minutes, g.weekday_goal_minutes, g.therapy_type)
+        IS DISTINCT FROM (v.daily_goal_minutes, v.weekly_goal_minutes, v.weekday_goal_minutes, v.therapy_type);
+
+    GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+    PERFORM set_config('app.goal_version_written', 'off', true);
+
+    RETURN updated_count;
+END;
+$$;
+
+-- ============================================================================
+-- 6. Protocol phases use one daily target, so clear weekday targets on start
+-- ============================================================================
+
+-- p_phases: [{"name": "Intensive", "duration_weeks": 8, "daily_goal_minutes": 360,
+--             "weekly_goal_minutes": 2520, "therapy_type": null}, ...]
+CREATE OR REPLACE FUNCTION public.set_treatment_protocol(
+    p_user_id UUID,
+    p_name TEXT,
+    p_start_date DATE,
+    p_phases JSON
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_catalog
+AS $$
+DECLARE
+    current_user_id UUID := auth.uid();
+    new_protocol_id UUID;
+    new_phase_id UUID;
+    phase_count INTEGER;
+    phase_index INTEGER := 0;
+    phase JSON;
+    phase_weeks INTEGER;
+    phase_daily INTEGER;
+    phase_weekly INTEGER;
+    phase_therapy TEXT;
+    phase_start DATE;
+BEGIN
+    IF current_user_id IS NULL THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHENTICATED', 'error', 'You must be signed in to set a protocol');
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.doctor_user_access
+        WHERE doctor_id = current_user_id AND patient_id = p_user_id
+    ) THEN
+        RETURN json_build_object('success', false, 'error_code', 'NOT_AUTHORIZED', 'error', 'You do not have access to this patient');
+    END IF;
+
+    phase_count := COALESCE(json_array_length(p_phases), 0);
+
+    IF NULLIF(TRIM(COALESCE(p_name, '')), '') IS NULL
+       OR p_start_date IS NULL OR p_start_date < CURRENT_DATE
+       OR phase_count = 0 OR phase_count > 10 THEN
+        RETURN json_build_object('success', false, 'error_code', 'PROTOCOL_INVALID', 'error', 'Invalid protocol');
+    END IF;
+
+    -- The new protocol replaces the active one and everything scheduled from its start
+    UPDATE public.treatment_protocols
+    SET status = 'cancelled', cancelled_at = NOW()
+    WHERE patient_id = p_user_id AND status = 'active';
+
+    DELETE FROM public.user_goal_versions
+    WHERE user_id = p_user_id AND effective_from >= p_start_date;
+
+    INSERT INTO public.treatment_protocols (patient_id, name, start_date, created_by)
+    VALUES (p_user_id, LEFT(TRIM(p_name), 100), p_start_date, current_user_id)
+    RETURNING id INTO new_protocol_id;
+
+    phase_start := p_start_date;
+
+    FOR phase IN SELECT * FROM json_array_elements(p_phases)
+    LOOP
+        BEGIN
+            phase_weeks := (phase->>'duration_weeks')::INTEGER;
+            phase_daily := (phase->>'daily_goal_minutes')::INTEGER;
+            phase_weekly := (phase->>'weekly_goal_minutes')::INTEGER;
+        EXCEPTION WHEN OTHERS THEN
+            phase_weeks := NULL;
+        END;
+        phase_therapy := NULLIF(phase->>'therapy_type', '');
+
+        IF phase_weeks IS NULL OR phase_weeks <= 0 OR phase_weeks > 104
+           OR phase_daily IS NULL OR phase_daily <= 0 OR phase_daily > 1440
+           OR phase_weekly IS NULL OR phase_weekly <= 0 OR phase_weekly > 10080
+           OR (phase_therapy IS NOT NULL AND phase_therapy NOT IN ('patching', 'atropine', 'glasses', 'binocular_games')) THEN
+            -- Nothing from this call is kept
+            RAISE EXCEPTION USING MESSAGE = json_build_object(
+                'success', false,
+                'error_code', 'PROTOCOL_INVALID',
+                'error', 'Phase is out of range',
+                'phase', phase_index
+            )::TEXT, ERRCODE = 'P0001';
+        END IF;
+
+        INSERT INTO public.treatment_protocol_phases (
+            protocol_id, position, name, duration_weeks, daily_goal_minutes, weekly_goal_minutes, therapy_type
+        ) VALUES (
+            new_protocol_id, phase_index, NULLIF(LEFT(TRIM(COALESCE(phase->>'name', '')), 100), ''),
+            phase_weeks, phase_daily, phase_weekly, phase_therapy
+        )
+        RETURNING id INTO new_phase_id;
+
+        PERFORM set_config('app.goal_version_written', 'on', true);
+
+        INSERT INTO public.user_goal_versions (
+            user_id, daily_goal_minutes, weekly_goal_minutes, therapy_type, effective_from, set_by_doctor_id, protocol_phase_id
+        ) VALUES (
+            p_user_id, phase_daily, phase_weekly, phase_therapy, phase_start, current_user_id, new_phase_id
+        );
+
+        -- The first phase may start today
+        IF phase_start = CURRENT_DATE THEN
+            INSERT INTO public.user_goals (user_id, daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type, set_by_doctor_id)
+            VALUES (p_user_id, phase_daily, phase_weekly, NULL, phase_therapy, current_user_id)
+            ON CONFLICT (user_id) DO UPDATE
+            SET daily_goal_minutes = EXCLUDED.daily_goal_minutes,
+                weekly_goal_minutes = EXCLUDED.weekly_goal_minutes,
+                weekday_goal_minutes = EXCLUDED.weekday_goal_minutes,
+                therapy_type = EXCLUDED.therapy_type,
+                set_by_doctor_id = EXCLUDED.set_by_doctor_id;
+        END IF;
+
+        PERFORM set_config('app.goal_version_written', 'off', true);
+
+        phase_start := phase_start + phase_weeks * 7;
+        phase_index := phase_index + 1;
+    END LOOP;
+
+    RETURN json_build_object('success', true, 'protocol_id', new_protocol_id);
+EXCEPTION
+    WHEN raise_exception THEN
+        -- Rolls back the protocol and phases written so far
+        RETURN SQLERRM::JSON;
+END;
+$$;
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION public.set_user_goal(UUID, INTEGER, INTEGER, TEXT, DATE, INTEGER[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_goal_history(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_goal_history(UUID) FROM anon;
+REVOKE EXECUTE ON FUNCTION public.sync_user_goals_from_versions() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.sync_user_goals_from_versions() FROM anon, authenticated;
@@ -0,0 +1,123 @@
+import React from "react";
+import { User } from "@supabase/supabase-js";
+import { BADGES } from "../utils/achievements";
+import { useAchievements } from "../utils/dataCache";
+
+interface AchievementsGalleryProps {
+  user: User | null;
+  darkMode: boolean;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const formatDays = (days: number) => `${days} day${days === 1 ? "" : "s"}`;
+
+// Current streak and every badge, earned ones with the date they were earned
+const AchievementsGallery: React.FC<AchievementsGalleryProps> = ({
+  user,
+  darkMode,
+}) => {
+  const { achievements, loading } = useAchievements(user?.id);
+
+  if (!user || (loading && !achievements)) return null;
+
+  const earned = new Map(
+    (achievements?.achievements || []).map((badge) => [badge.badge_id, badge])
+  );
+  const currentStreak = achievements?.current_streak || 0;
+  const bestStreak = achievements?.best_streak || 0;
+
+  return (
+    <div
+      className={`rounded-lg p-6 ${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } shadow-lg`}
+    >
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-4">
+        <h3
+          className={`text-xl font-semibold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Achievements
+        </h3>
+        <span
+          className={`text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}
+        >
+          {earned.size} of {BADGES.length} badges
+        </span>
+      </div>
+
+      {/* Goal days in a row */}
+      <div
+        className={`flex items-center p-4 rounded-lg mb-4 ${
+          darkMode
+            ? "bg-orange-900 text-orange-100"
+            : "bg-orange-50 text-orange-900"
+        }`}
+      >
+        <span className="text-3xl mr-3" aria-hidden="true">
+          🔥
+        </span>
+        <div>
+          <div className="text-lg font-semibold">
+            {currentStreak > 0
+              ? `${formatDays(currentStreak)} in a row!`
+              : "Start a streak today!"}
+          </div>
+          <div className="text-sm opacity-75">
+            Best streak: {formatDays(bestStreak)}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3">
+        {BADGES.map((badge) => {
+          const earnedBadge = earned.get(badge.id);
+          return (
+            <div
+              key={badge.id}
+              title={badge.description}
+              className={`relative p-3 rounded-lg text-center ${
+                earnedBadge
+                  ? darkMode
+                    ? "bg-yellow-900 text-yellow-100"
+                    : "bg-yellow-50 text-yellow-900"
+                  : darkMode
+                  ? "bg-gray-700 text-gray-400"
+                  : "bg-gray-100 text-gray-500"
+              } ${earnedBadge?.is_new ? "ring-2 ring-brand-cyan" : ""}`}
+            >
+              {earnedBadge?.is_new && (
+                <span className="absolute top-1 right-1 px-1.5 rounded text-xs font-semibold bg-brand-cyan text-white">
+                  New!
+                </span>
+              )}
+              <div
+                className={`text-3xl mb-1 ${
+                  earnedBadge ? "" : "grayscale opacity-40"
+                }`}
+                aria-hidden="true"
+              >
+                {badge.icon}
+              </div>
+              <div className="text-sm font-semibold">{badge.label}</div>
+              <div className="text-xs opacity-75">
+                {earnedBadge
+                  ? `Earned ${formatDate(earnedBadge.earned_on)}`
+                  : badge.description}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AchievementsGallery;
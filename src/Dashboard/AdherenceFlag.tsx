@@ -0,0 +1,71 @@
+import React from "react";
+import {
+  AdherenceSettings,
+  PatientAdherence,
+  describeFlagReason,
+} from "../utils/adherence";
+
+interface AdherenceFlagProps {
+  adherence: PatientAdherence | undefined;
+  settings: AdherenceSettings | undefined;
+  darkMode: boolean;
+}
+
+const formatDays = (days: number) => `${days} day${days === 1 ? "" : "s"}`;
+
+// A patient's adherence score and, when flagged, every reason for the flag
+const AdherenceFlag: React.FC<AdherenceFlagProps> = ({
+  adherence,
+  settings,
+  darkMode,
+}) => {
+  if (!adherence || !settings) return null;
+
+  const flagged = adherence.flag_reasons.length > 0;
+
+  return (
+    <div className="mt-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+            flagged
+              ? darkMode
+                ? "bg-red-900 text-red-200"
+                : "bg-red-100 text-red-800"
+              : darkMode
+              ? "bg-green-900 text-green-200"
+              : "bg-green-100 text-green-800"
+          }`}
+        >
+          {flagged ? "⚠ At risk" : "On track"}
+        </span>
+        <span className={darkMode ? "text-gray-300" : "text-gray-600"}>
+          {adherence.adherence_percent !== null
+            ? `Adherence ${adherence.adherence_percent}%`
+            : "No adherence score yet"}
+          {adherence.days_counted > 0 &&
+            ` · ${formatDays(
+              adherence.zero_log_days
+            )} without entries in the last ${formatDays(
+              adherence.days_counted
+            )}`}
+        </span>
+      </div>
+      {flagged && (
+        <ul
+          className={`mt-1 list-disc list-inside text-xs ${
+            darkMode ? "text-red-300" : "text-red-700"
+          }`}
+        >
+          {adherence.flag_reasons.map((reason) => (
+            <li key={reason}>
+              {describeFlagReason(reason, adherence, settings)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AdherenceFlag;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import {
+  ADHERENCE_WINDOW_OPTIONS,
+  AdherenceSettings,
+  saveAdherenceSettings,
+} from "../utils/adherence";
+import { invalidateAdherence } from "../utils/dataCache";
+
+interface AdherenceSettingsFormProps {
+  user: User | null;
+  darkMode: boolean;
+  settings: AdherenceSettings | undefined;
+}
+
+// The doctor's window and limits for flagging patients at risk
+const AdherenceSettingsForm: React.FC<AdherenceSettingsFormProps> = ({
+  user,
+  darkMode,
+  settings,
+}) => {
+  const [form, setForm] = useState<AdherenceSettings>({
+    window_days: 14,
+    threshold_percent: 80,
+    max_zero_days: 2,
+  });
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    if (settings) {
+      setForm({
+        window_days: settings.window_days,
+        threshold_percent: settings.threshold_percent,
+        max_zero_days: settings.max_zero_days,
+      });
+    }
+  }, [settings]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (form.threshold_percent < 1 || form.threshold_percent > 100) {
+      setStatus("The threshold must be between 1% and 100%.");
+      return;
+    }
+    if (form.max_zero_days < 0 || form.max_zero_days > form.window_days) {
+      setStatus(
+        `Days without entries must be between 0 and ${form.window_days}.`
+      );
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setStatus("");
+
+      await saveAdherenceSettings(user.id, form);
+
+      setStatus("Flag settings saved successfully!");
+      invalidateAdherence(user.id);
+    } catch (error) {
+      console.error("Error saving adherence settings:", error);
+      setStatus("Failed to save the flag settings. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const labelClass = `block text-sm font-medium mb-1 ${
+    darkMode ? "text-gray-300" : "text-gray-700"
+  }`;
+  const inputClass = `w-full px-3 py-2 rounded-lg border-2 focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white"
+      : "bg-white border-gray-300 text-gray-900"
+  }`;
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className={`mb-4 p-4 rounded-lg ${
+        darkMode ? "bg-gray-700" : "bg-gray-50"
+      }`}
+    >
+      <p
+        className={`text-sm mb-3 ${
+          darkMode ? "text-gray-300" : "text-gray-600"
+        }`}
+      >
+        Adherence is the time logged toward the goal divided by the time
+        prescribed, over the last days before today.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="adherence-window" className={labelClass}>
+            Window
+          </label>
+          <select
+            id="adherence-window"
+            value={form.window_days}
+            onChange={(e) =>
+              setForm({ ...form, window_days: parseInt(e.target.value) })
+            }
+            className={inputClass}
+          >
+            {ADHERENCE_WINDOW_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                Last {days} days
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="adherence-threshold" className={labelClass}>
+            Flag below (%)
+          </label>
+          <input
+            id="adherence-threshold"
+            type="number"
+            min={1}
+            max={100}
+            value={form.threshold_percent}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                threshold_percent: parseInt(e.target.value) || 0,
+              })
+            }
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="adherence-zero-days" className={labelClass}>
+            Days without entries allowed
+          </label>
+          <input
+            id="adherence-zero-days"
+            type="number"
+            min={0}
+            max={form.window_days}
+            value={form.max_zero_days}
+            onChange={(e) =>
+              setForm({ ...form, max_zero_days: parseInt(e.target.value) || 0 })
+            }
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mt-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save Flag Settings"}
+        </button>
+        {status && (
+          <span
+            className={`text-sm font-medium ${
+              status.includes("success")
+                ? darkMode
+                  ? "text-green-300"
+                  : "text-green-700"
+                : darkMode
+                ? "text-red-300"
+                : "text-red-700"
+            }`}
+          >
+            {status}
+          </span>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default AdherenceSettingsForm;
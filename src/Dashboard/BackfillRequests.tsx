@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { supabase } from "../config/supabase";
+import { User } from "@supabase/supabase-js";
+import { sanitizeError } from "../utils/security";
+import { getDateStringDaysAgo } from "../utils/dates";
+import {
+  BACKFILL_WINDOW_DAYS,
+  MAX_BACKFILL_REQUEST_DAYS,
+} from "../utils/logValidation";
+
+interface BackfillRequestsProps {
+  user: User | null;
+  darkMode: boolean;
+}
+
+interface BackfillRequest {
+  id: string;
+  start_date: string;
+  end_date: string;
+  reason: string;
+  status: "pending" | "approved" | "rejected";
+  review_note: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// Patients ask their doctor to open dates older than the backfill window
+const BackfillRequests: React.FC<BackfillRequestsProps> = ({
+  user,
+  darkMode,
+}) => {
+  const [requests, setRequests] = useState<BackfillRequest[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [requestForm, setRequestForm] = useState({
+    startDate: "",
+    endDate: "",
+    reason: "",
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [status, setStatus] = useState("");
+
+  // Latest date that is already outside the normal logging window
+  const latestRequestableDate = getDateStringDaysAgo(BACKFILL_WINDOW_DAYS + 1);
+
+  const fetchRequests = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("backfill_requests")
+        .select(
+          "id, start_date, end_date, reason, status, review_note, expires_at, created_at"
+        )
+        .eq("patient_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+
+      setRequests(data || []);
+    } catch (error: any) {
+      // Don't log RLS policy errors during logout
+      if (error?.code !== "42501") {
+        console.error("Error fetching backfill requests:", error);
+      }
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchRequests();
+    } else {
+      setRequests([]);
+    }
+  }, [user, fetchRequests]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const { startDate, endDate, reason } = requestForm;
+    const days =
+      (new Date(endDate).getTime() - new Date(startDate).getTime()) /
+        (24 * 60 * 60 * 1000) +
+      1;
+
+    if (!startDate || !endDate || endDate < startDate) {
+      setStatus("Please choose a start date before the end date.");
+      return;
+    }
+
+    if (days > MAX_BACKFILL_REQUEST_DAYS) {
+      setStatus(
+        `A backfill request can cover at most ${MAX_BACKFILL_REQUEST_DAYS} days.`
+      );
+      return;
+    }
+
+    if (!reason.trim()) {
+      setStatus("Please tell your doctor why you need a backfill.");
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setStatus("");
+
+      const { data, error } = await supabase.rpc("request_backfill", {
+        p_start_date: startDate,
+        p_end_date: endDate,
+        p_reason: reason.trim().substring(0, 500),
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        setStatus(sanitizeError(data));
+        return;
+      }
+
+      setStatus("Request sent successfully! Your doctor will review it.");
+      setRequestForm({ startDate: "", endDate: "", reason: "" });
+      setShowForm(false);
+      await fetchRequests();
+    } catch (error) {
+      // Only log detailed errors in development
+      if (process.env.NODE_ENV === "development") {
+        console.error("Error requesting backfill:", error);
+      }
+      setStatus("Failed to send request. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const getStatusBadge = (request: BackfillRequest) => {
+    if (request.status === "approved") {
+      const expired =
+        !!request.expires_at && new Date(request.expires_at) < new Date();
+      return expired
+        ? { label: "Expired", className: "bg-gray-200 text-gray-700" }
+        : { label: "Approved", className: "bg-green-100 text-green-800" };
+    }
+    if (request.status === "rejected") {
+      return { label: "Rejected", className: "bg-red-100 text-red-800" };
+    }
+    return { label: "Pending", className: "bg-yellow-100 text-yellow-800" };
+  };
+
+  return (
+    <div
+      className={`rounded-lg p-6 ${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } shadow-lg`}
+    >
+      <div className="flex justify-between items-center mb-2">
+        <h3
+          className={`text-xl font-semibold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Missed Logging?
+        </h3>
+        {!showForm && (
+          <button
+            onClick={() => {
+              setShowForm(true);
+              setStatus("");
+            }}
+            className="px-3 py-1 bg-brand-cyan text-white rounded-md hover:bg-brand-dark-blue transition-colors text-sm"
+          >
+            Request Backfill
+          </button>
+        )}
+      </div>
+      <p
+        className={`text-sm mb-4 ${
+          darkMode ? "text-gray-400" : "text-gray-600"
+        }`}
+      >
+        Entries can normally be added for the last {BACKFILL_WINDOW_DAYS} days.
+        If you tracked patching on paper for older dates, ask your doctor to
+        open them for 7 days.
+      </p>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label
+                htmlFor="backfill-start"
+                className={`block text-sm font-medium mb-1 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                From
+              </label>
+              <input
+                id="backfill-start"
+                type="date"
+                value={requestForm.startDate}
+                max={latestRequestableDate}
+                onChange={(e) =>
+                  setRequestForm({ ...requestForm, startDate: e.target.value })
+                }
+                className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600 text-white"
+                    : "border-gray-300"
+                }`}
+                required
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="backfill-end"
+                className={`block text-sm font-medium mb-1 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                To
+              </label>
+              <input
+                id="backfill-end"
+                type="date"
+                value={requestForm.endDate}
+                min={requestForm.startDate || undefined}
+                max={latestRequestableDate}
+                onChange={(e) =>
+                  setRequestForm({ ...requestForm, endDate: e.target.value })
+                }
+                className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600 text-white"
+                    : "border-gray-300"
+                }`}
+                required
+              />
+            </div>
+          </div>
+          <textarea
+            value={requestForm.reason}
+            onChange={(e) =>
+              setRequestForm({ ...requestForm, reason: e.target.value })
+            }
+            rows={2}
+            maxLength={500}
+            placeholder="Why do you need these dates? (e.g. hospital stay, tracked on paper)"
+            className={`w-full px-3 py-2 border rounded-lg text-sm resize-none ${
+              darkMode
+                ? "bg-gray-700 border-gray-600 text-white placeholder-gray-400"
+                : "border-gray-300 placeholder-gray-500"
+            }`}
+            required
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                darkMode
+                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-3 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm disabled:opacity-50"
+            >
+              {submitting ? "Sending..." : "Send Request"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status && (
+        <div
+          className={`p-3 mb-4 rounded-lg text-sm font-medium ${
+            status.includes("success")
+              ? darkMode
+                ? "bg-green-900 text-green-300 border border-green-700"
+                : "bg-green-50 text-green-800 border border-green-200"
+              : darkMode
+              ? "bg-red-900 text-red-300 border border-red-700"
+              : "bg-red-50 text-red-800 border border-red-200"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+
+      {requests.length > 0 && (
+        <div className="space-y-2">
+          {requests.map((request) => {
+            const badge = getStatusBadge(request);
+            return (
+              <div
+                key={request.id}
+                className={`p-3 rounded-lg text-sm ${
+                  darkMode ? "bg-gray-700" : "bg-gray-50"
+                }`}
+              >
+                <div className="flex justify-between items-center">
+                  <span
+                    className={`font-medium ${
+                      darkMode ? "text-white" : "text-gray-900"
+                    }`}
+                  >
+                    {request.start_date} to {request.end_date}
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 rounded text-xs ${badge.className}`}
+                  >
+                    {badge.label}
+                  </span>
+                </div>
+                <div
+                  className={`text-xs mt-1 ${
+                    darkMode ? "text-gray-400" : "text-gray-600"
+                  }`}
+                >
+                  {request.reason}
+                  {request.status === "approved" &&
+                    request.expires_at &&
+                    ` · open until ${new Date(
+                      request.expires_at
+                    ).toLocaleDateString()}`}
+                </div>
+                {request.review_note && (
+                  <div
+                    className={`text-xs mt-1 italic ${
+                      darkMode ? "text-gray-300" : "text-gray-700"
+                    }`}
+                  >
+                    Doctor: {request.review_note}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackfillRequests;
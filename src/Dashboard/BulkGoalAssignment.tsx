@@ -0,0 +1,293 @@
+import React, { useState } from "react";
+import { supabase } from "../config/supabase";
+import { User } from "@supabase/supabase-js";
+import { TherapyType, getTherapyType } from "../utils/therapy";
+import { sanitizeError } from "../utils/security";
+import { getToday } from "../utils/dates";
+import {
+  GoalFormValues,
+  getFormDailyGoal,
+  getFormWeeklyGoal,
+} from "../utils/goals";
+import { applyGoalPreset } from "../utils/goalPresets";
+import GoalFormFields from "./GoalFormFields";
+import GoalPresetLibrary from "./GoalPresetLibrary";
+
+interface BulkPatient {
+  user_id: string;
+  name: string;
+  surname: string;
+  email: string;
+  current_daily_goal: number;
+  current_weekly_goal: number;
+  current_weekday_goals: number[] | null;
+  current_therapy_type: TherapyType | null;
+}
+
+interface BulkGoalAssignmentProps {
+  user: User | null;
+  darkMode: boolean;
+  patients: BulkPatient[]; // Selected patients
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours}h ${mins}m`;
+};
+
+const formatDaily = (daily: number, weekdayTargets: number[] | null) => {
+  if (!weekdayTargets) return formatTime(daily);
+  const min = Math.min(...weekdayTargets);
+  const max = Math.max(...weekdayTargets);
+  return min === max
+    ? formatTime(min)
+    : `${formatTime(min)} - ${formatTime(max)}`;
+};
+
+const formatTherapy = (therapyType: TherapyType | null) =>
+  therapyType ? getTherapyType(therapyType).label : "All";
+
+const getPatientName = (patient: BulkPatient) =>
+  patient.name && patient.surname
+    ? `${patient.name} ${patient.surname}`
+    : patient.email;
+
+// One goal or preset applied to many patients, previewed before saving
+const BulkGoalAssignment: React.FC<BulkGoalAssignmentProps> = ({
+  user,
+  darkMode,
+  patients,
+  onSaved,
+  onCancel,
+}) => {
+  const [goalForm, setGoalForm] = useState<GoalFormValues>({
+    daily_goal_minutes: 240,
+    weekly_goal_minutes: 1680,
+    weekday_goal_minutes: null,
+    derive_weekly: true,
+    therapy_type: null,
+    effective_from: getToday(),
+    reason: "",
+  });
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  const newDaily = formatDaily(
+    getFormDailyGoal(goalForm),
+    goalForm.weekday_goal_minutes
+  );
+  const newWeekly = formatTime(getFormWeeklyGoal(goalForm));
+  const newTherapy = formatTherapy(goalForm.therapy_type);
+
+  const handleApply = async () => {
+    if (!user || patients.length === 0) return;
+
+    try {
+      setSaving(true);
+      setStatus("");
+
+      const { data, error } = await supabase.rpc("set_user_goals_bulk", {
+        p_user_ids: patients.map((patient) => patient.user_id),
+        p_daily_goal_minutes: getFormDailyGoal(goalForm),
+        p_weekly_goal_minutes: getFormWeeklyGoal(goalForm),
+        p_therapy_type: goalForm.therapy_type,
+        p_effective_from: goalForm.effective_from,
+        p_weekday_goal_minutes: goalForm.weekday_goal_minutes,
+        p_reason: goalForm.reason.trim() || null,
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        const failedPatient = patients.find(
+          (patient) => patient.user_id === data.patient_id
+        );
+        setStatus(
+          failedPatient
+            ? `${getPatientName(failedPatient)}: ${sanitizeError(data)}`
+            : sanitizeError(data)
+        );
+        return;
+      }
+
+      onSaved();
+    } catch (error) {
+      console.error("Error updating goals in bulk:", error);
+      setStatus("Failed to update goals. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cellClass = "p-2";
+  const changedClass = darkMode ? "text-yellow-300" : "text-yellow-700";
+
+  return (
+    <div className="space-y-4">
+      {!previewing ? (
+        <>
+          <GoalPresetLibrary
+            user={user}
+            darkMode={darkMode}
+            onApply={(preset) => setGoalForm(applyGoalPreset(goalForm, preset))}
+          />
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setStatus("");
+              setPreviewing(true);
+            }}
+            className="space-y-4"
+          >
+            <GoalFormFields
+              values={goalForm}
+              onChange={setGoalForm}
+              darkMode={darkMode}
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={onCancel}
+                className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+                  darkMode
+                    ? "bg-gray-600 text-white hover:bg-gray-500"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold"
+              >
+                Preview Changes
+              </button>
+            </div>
+          </form>
+        </>
+      ) : (
+        <>
+          <p
+            className={`text-sm ${
+              darkMode ? "text-gray-400" : "text-gray-600"
+            }`}
+          >
+            New goals take effect from {goalForm.effective_from}. Changed values
+            are highlighted.
+          </p>
+          {goalForm.reason.trim() && (
+            <p
+              className={`text-sm ${
+                darkMode ? "text-gray-300" : "text-gray-700"
+              }`}
+            >
+              Reason sent to each patient: {goalForm.reason.trim()}
+            </p>
+          )}
+          <div className="max-h-80 overflow-y-auto">
+            <table
+              className={`w-full text-sm ${
+                darkMode ? "text-gray-300" : "text-gray-700"
+              }`}
+            >
+              <thead>
+                <tr
+                  className={`text-left ${
+                    darkMode ? "text-gray-400" : "text-gray-500"
+                  }`}
+                >
+                  <th className={cellClass}>Patient</th>
+                  <th className={cellClass}>Daily</th>
+                  <th className={cellClass}>Weekly</th>
+                  <th className={cellClass}>Therapy</th>
+                </tr>
+              </thead>
+              <tbody>
+                {patients.map((patient) => {
+                  const oldDaily = formatDaily(
+                    patient.current_daily_goal,
+                    patient.current_weekday_goals
+                  );
+                  const oldWeekly = formatTime(patient.current_weekly_goal);
+                  const oldTherapy = formatTherapy(
+                    patient.current_therapy_type
+                  );
+                  return (
+                    <tr
+                      key={patient.user_id}
+                      className={`border-t ${
+                        darkMode ? "border-gray-700" : "border-gray-200"
+                      }`}
+                    >
+                      <td className={cellClass}>{getPatientName(patient)}</td>
+                      {[
+                        [oldDaily, newDaily],
+                        [oldWeekly, newWeekly],
+                        [oldTherapy, newTherapy],
+                      ].map(([oldValue, newValue], index) => (
+                        <td
+                          key={index}
+                          className={`${cellClass} ${
+                            oldValue !== newValue ? changedClass : ""
+                          }`}
+                        >
+                          {oldValue === newValue
+                            ? oldValue
+                            : `${oldValue} → ${newValue}`}
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setPreviewing(false)}
+              disabled={saving}
+              className={`px-4 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                darkMode
+                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              disabled={saving}
+              className="px-4 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold disabled:opacity-50"
+            >
+              {saving
+                ? "Saving..."
+                : `Apply to ${patients.length} Patient${
+                    patients.length === 1 ? "" : "s"
+                  }`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {status && (
+        <div
+          className={`p-3 rounded-lg text-sm font-medium ${
+            darkMode
+              ? "bg-red-900 text-red-300 border border-red-700"
+              : "bg-red-50 text-red-800 border border-red-200"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkGoalAssignment;
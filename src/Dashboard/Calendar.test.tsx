@@ -0,0 +1,136 @@
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { User } from "@supabase/supabase-js";
+import Calendar from "./Calendar";
+import { getToday } from "../utils/dates";
+import { invalidateDailyLogs } from "../utils/dataCache";
+
+const mockUpdate = jest.fn();
+const mockResults: { [table: string]: any } = {};
+let mockEntries: any[] = [];
+
+// Every query resolves to the result set for its table, [] by default
+jest.mock("../config/supabase", () => {
+  const query = (table: string): any =>
+    new Proxy(
+      {},
+      {
+        get: (_, method) =>
+          method === "then"
+            ? (resolve: (value: any) => void) =>
+                resolve(mockResults[table] || { data: [], error: null })
+            : (...args: any[]) => {
+                if (method === "update") mockUpdate(...args);
+                return query(table);
+              },
+      }
+    );
+  return {
+    supabase: {
+      from: query,
+      rpc: () => Promise.resolve({ data: null, error: null }),
+    },
+  };
+});
+
+jest.mock("../utils/dataCache", () => ({
+  ...jest.requireActual("../utils/dataCache"),
+  useDailyLogs: () => ({ entries: mockEntries, loading: false }),
+  useGoals: () => ({
+    versions: [],
+    getGoalForDay: () => jest.requireActual("../utils/goals").DEFAULT_GOAL,
+    loading: false,
+  }),
+  invalidateDailyLogs: jest.fn(),
+}));
+
+const patient = { id: "patient" } as User;
+
+const openToday = (container: HTMLElement) => {
+  fireEvent.click(container.querySelector(".border-brand-cyan")!);
+};
+
+describe("Calendar entry editing", () => {
+  beforeEach(() => {
+    mockUpdate.mockReset();
+    Object.keys(mockResults).forEach((table) => delete mockResults[table]);
+    mockEntries = [
+      {
+        id: "entry",
+        date: getToday(),
+        time_spent_minutes: 90,
+        notes: "Morning",
+        started_at: null,
+        ended_at: null,
+        therapy_type: "atropine",
+        eye: "left",
+      },
+    ];
+  });
+
+  it("saves the therapy and eye along with the duration", async () => {
+    mockResults.daily_logs = { data: [{ id: "entry" }], error: null };
+    const { container } = render(
+      <Calendar user={patient} darkMode={false} weekStart={1} />
+    );
+
+    openToday(container);
+    fireEvent.click(await screen.findByText("Edit"));
+    fireEvent.change(screen.getByLabelText("Eye"), {
+      target: { value: "right" },
+    });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(await screen.findByText("Edit")).toBeInTheDocument();
+    expect(mockUpdate).toHaveBeenCalledWith({
+      time_spent_minutes: 90,
+      notes: "Morning",
+      started_at: null,
+      ended_at: null,
+      therapy_type: "atropine",
+      eye: "right",
+    });
+    expect(invalidateDailyLogs).toHaveBeenCalledWith("patient", getToday());
+  });
+
+  it("requires times that cover the duration", async () => {
+    const { container } = render(
+      <Calendar user={patient} darkMode={false} weekStart={1} />
+    );
+
+    openToday(container);
+    fireEvent.click(await screen.findByText("Edit"));
+    fireEvent.change(screen.getByLabelText("Start time"), {
+      target: { value: "09:00" },
+    });
+    fireEvent.change(screen.getByLabelText("End time"), {
+      target: { value: "10:00" },
+    });
+    fireEvent.click(screen.getByText("Save"));
+
+    expect(
+      await screen.findByText(/must be after the start time and cover/)
+    ).toBeInTheDocument();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it("reports an edit or delete that changed no rows", async () => {
+    jest.spyOn(window, "confirm").mockReturnValue(true);
+    const { container } = render(
+      <Calendar user={patient} darkMode={false} weekStart={1} />
+    );
+
+    openToday(container);
+    fireEvent.click(await screen.findByText("Edit"));
+    fireEvent.click(screen.getByText("Save"));
+    expect(
+      await screen.findByText("This entry can no longer be changed.")
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText("Cancel"));
+    fireEvent.click(screen.getByText("Delete"));
+    expect(
+      await screen.findByText("This entry can no longer be deleted.")
+    ).toBeInTheDocument();
+  });
+});
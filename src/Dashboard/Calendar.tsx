@@ -1,176 +1,474 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
 import { supabase } from "../config/supabase";
 import { User } from "@supabase/supabase-js";
+import {
+  OpenBackfill,
+  fetchOpenBackfills,
+  getEarliestLoggableDate,
+  getTimeRangeMinutes,
+  isInBackfillRange,
+  validateLogEntry,
+} from "../utils/logValidation";
+import { sanitizeError } from "../utils/security";
+import {
+  addDays,
+  fetchUserToday,
+  formatClockTime,
+  getClockTimeValue,
+  getLocalDateString,
+  getToday,
+  getWeekStartDate,
+  getWeekdayOrder,
+  toLocalTimestamp,
+} from "../utils/dates";
+import {
+  EYE_OPTIONS,
+  Eye,
+  THERAPY_TYPES,
+  TherapyType,
+  countsTowardGoal,
+  getEyeLabel,
+  getTherapyType,
+} from "../utils/therapy";
+import { WEEKDAY_NAMES } from "../utils/goals";
+import {
+  DailyLogEntry as LoggedEntry,
+  groupLogsByDate,
+  invalidateDailyLogs,
+  reportDataError,
+  useDailyLogs,
+  useGoals,
+} from "../utils/dataCache";
+import GoalTimeline from "./GoalTimeline";
+import YearHeatmap from "./YearHeatmap";
+import WeekView from "./WeekView";
+import {
+  PendingLog,
+  getPendingLogs,
+  subscribeToPendingLogs,
+} from "../utils/offlineQueue";
 
 interface CalendarProps {
   user: User | null;
   darkMode: boolean;
+  weekStart: number; // First day of the week, 0 = Sunday
+  readOnly?: boolean; // Doctors view patient calendars without editing
 }
 
-interface DailyLogEntry {
-  id: string;
-  date: string;
-  time_spent_minutes: number;
-  notes?: string;
-  created_at?: string;
+interface DailyLogEntry extends LoggedEntry {
+  pending?: boolean; // Saved offline, not yet synced
 }
 
 interface DailyLog {
   date: string;
   total_minutes: number;
+  goal_minutes: number; // Minutes of the therapy type the goal targets
   entries: DailyLogEntry[];
   hasNotes: boolean;
 }
 
-interface UserGoals {
-  daily_goal_minutes: number;
-  weekly_goal_minutes: number;
+interface LogRevision {
+  id: string;
+  log_id: string;
+  action: "update" | "delete";
+  old_time_spent_minutes: number;
+  old_notes?: string;
+  new_time_spent_minutes?: number;
+  new_notes?: string;
+  old_values?: Record<string, unknown> | null; // The whole row
+  new_values?: Record<string, unknown> | null;
+  changed_at: string;
 }
 
-const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
-  // Helper function to get local date string without timezone shift
-  const getLocalDateString = (date: Date = new Date()) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
-  };
-  const [currentDate, setCurrentDate] = useState(new Date());
-  const [dailyLogs, setDailyLogs] = useState<DailyLog[]>([]);
-  const [userGoals, setUserGoals] = useState<UserGoals>({
-    daily_goal_minutes: 240,
-    weekly_goal_minutes: 1680,
-  });
-  const [loading, setLoading] = useState(true);
+// Edited fields shown in the change history besides duration and notes
+const REVISION_FIELD_LABELS: [string[], string][] = [
+  [["started_at", "ended_at"], "times"],
+  [["therapy_type"], "therapy"],
+  [["eye"], "eye"],
+];
+
+const getChangedFieldLabels = (revision: LogRevision): string[] =>
+  REVISION_FIELD_LABELS.filter(([fields]) =>
+    fields.some(
+      (field) =>
+        revision.old_values &&
+        revision.new_values &&
+        revision.old_values[field] !== revision.new_values[field]
+    )
+  ).map(([, label]) => label);
+
+interface EntryEditForm {
+  id: string;
+  hours: number;
+  minutes: number;
+  notes: string;
+  startTime: string; // HH:MM, empty when the entry has no times
+  endTime: string;
+  savedStartedAt: string | null; // Kept when the time is not changed
+  savedEndedAt: string | null;
+  therapyType: TherapyType;
+  eye: Eye | "";
+}
+
+interface DayTimelineProps {
+  date: string;
+  entries: DailyLogEntry[];
+  darkMode: boolean;
+}
+
+// 24-hour bar showing when each timed session of the day took place
+const DayTimeline: React.FC<DayTimelineProps> = ({
+  date,
+  entries,
+  darkMode,
+}) => {
+  const dayStart = new Date(toLocalTimestamp(date, "00:00")).getTime();
+  const dayMinutes = 24 * 60;
+  const timedEntries = entries.filter(
+    (entry) => entry.started_at && entry.ended_at
+  );
+
+  const toDayMinute = (timestamp: string) =>
+    Math.max(
+      0,
+      Math.min(
+        dayMinutes,
+        (new Date(timestamp).getTime() - dayStart) / (60 * 1000)
+      )
+    );
+
+  return (
+    <div>
+      <div
+        className={`relative h-6 rounded ${
+          darkMode ? "bg-gray-700" : "bg-gray-100"
+        }`}
+      >
+        {timedEntries.map((entry) => {
+          const start = toDayMinute(entry.started_at!);
+          const end = toDayMinute(entry.ended_at!);
+          return (
+            <div
+              key={entry.id}
+              title={`${formatClockTime(entry.started_at!)} – ${formatClockTime(
+                entry.ended_at!
+              )}`}
+              className="absolute top-0 h-6 rounded opacity-80"
+              style={{
+                backgroundColor: getTherapyType(entry.therapy_type).color,
+                left: `${(start / dayMinutes) * 100}%`,
+                width: `${Math.max(((end - start) / dayMinutes) * 100, 0.5)}%`,
+              }}
+            />
+          );
+        })}
+      </div>
+      <div
+        className={`flex justify-between text-xs mt-1 ${
+          darkMode ? "text-gray-400" : "text-gray-500"
+        }`}
+      >
+        <span>00:00</span>
+        <span>06:00</span>
+        <span>12:00</span>
+        <span>18:00</span>
+        <span>24:00</span>
+      </div>
+      {timedEntries.length < entries.length && (
+        <div
+          className={`text-xs mt-1 ${
+            darkMode ? "text-gray-400" : "text-gray-500"
+          }`}
+        >
+          {entries.length - timedEntries.length} of {entries.length} entries
+          have no start/end time and are not shown on the timeline.
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Calendar: React.FC<CalendarProps> = ({
+  user,
+  darkMode,
+  weekStart,
+  readOnly = false,
+}) => {
+  // Today in the patient's timezone, so doctors see the same day
+  const [today, setToday] = useState(getToday());
+  const [currentDate, setCurrentDate] = useState(
+    new Date(`${getToday()}T00:00`)
+  );
+  const [view, setView] = useState<"week" | "month" | "year">("month");
+  const [heatmapYear, setHeatmapYear] = useState(
+    parseInt(getToday().slice(0, 4))
+  );
+  const [weekViewStart, setWeekViewStart] = useState("");
+  const [pendingLogs, setPendingLogs] = useState<PendingLog[]>([]);
+  const [therapyFilter, setTherapyFilter] = useState<TherapyType | "all">(
+    "all"
+  );
   const [selectedDay, setSelectedDay] = useState<{
     day: number;
     log: DailyLog | undefined;
   } | null>(null);
+  const [revisions, setRevisions] = useState<LogRevision[]>([]);
+  const [editForm, setEditForm] = useState<EntryEditForm | null>(null);
+  const [savingEntry, setSavingEntry] = useState(false);
+  const [entryStatus, setEntryStatus] = useState("");
+  const [openBackfills, setOpenBackfills] = useState<OpenBackfill[]>([]);
 
-  // Get calendar data for current month
+  // Entries of the month shown, grouped by date
+  const { entries: monthEntries, loading } = useDailyLogs(user?.id, {
+    from: getLocalDateString(
+      new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)
+    ),
+    to: getLocalDateString(
+      new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0)
+    ),
+  });
+  const { versions: goalVersions, getGoalForDay } = useGoals(user?.id);
+
+  const dailyLogs: DailyLog[] = Array.from(
+    groupLogsByDate(monthEntries).entries()
+  ).map(([date, entries]) => ({
+    date,
+    total_minutes: entries.reduce(
+      (sum, entry) => sum + entry.time_spent_minutes,
+      0
+    ),
+    goal_minutes: 0, // Set per therapy filter below
+    entries,
+    hasNotes: entries.some(
+      (entry) => entry.notes && entry.notes.trim().length > 0
+    ),
+  }));
+
+  // Close the open day when the user changes (e.g., during logout)
   useEffect(() => {
-    if (user) {
-      setLoading(true);
-      setDailyLogs([]); // Clear previous month's data
-      fetchCalendarData();
-      fetchUserGoals();
-    } else {
-      // Clean up state when user becomes null (e.g., during logout)
-      setDailyLogs([]);
-      setUserGoals({
-        daily_goal_minutes: 240,
-        weekly_goal_minutes: 1680,
-      });
-      setLoading(false);
+    if (!user) {
       setSelectedDay(null);
     }
-  }, [user, currentDate]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [user]);
 
-  const fetchCalendarData = async () => {
+  useEffect(() => {
     if (!user) return;
 
-    const startOfMonth = new Date(
-      currentDate.getFullYear(),
-      currentDate.getMonth(),
-      1
+    fetchUserToday(user.id)
+      .then(setToday)
+      .catch((error) => reportDataError("Error fetching today's date:", error));
+  }, [user]);
+
+  // Keep an open week aligned when the first day of the week setting changes
+  useEffect(() => {
+    setWeekViewStart((prev) =>
+      prev ? getWeekStartDate(prev, weekStart) : prev
     );
-    const endOfMonth = new Date(
-      currentDate.getFullYear(),
-      currentDate.getMonth() + 1,
-      0
+  }, [weekStart]);
+
+  // Entries saved offline show up until they reach the server
+  useEffect(() => {
+    if (!user || readOnly) {
+      setPendingLogs([]);
+      return;
+    }
+
+    const loadPendingLogs = async () => {
+      setPendingLogs(await getPendingLogs(user.id));
+    };
+
+    loadPendingLogs();
+    return subscribeToPendingLogs(loadPendingLogs);
+  }, [user, readOnly]);
+
+  // Dates the doctor opened beyond the 5-day window can be edited as well
+  useEffect(() => {
+    if (!user || readOnly) {
+      setOpenBackfills([]);
+      return;
+    }
+
+    fetchOpenBackfills(user.id)
+      .then(setOpenBackfills)
+      .catch((error) =>
+        reportDataError("Error fetching backfill approvals:", error)
+      );
+  }, [user, readOnly]);
+
+  const fetchRevisions = useCallback(
+    async (dateStr: string) => {
+      if (!user) return;
+
+      try {
+        const { data, error } = await supabase
+          .from("daily_log_revisions")
+          .select(
+            "id, log_id, action, old_time_spent_minutes, old_notes, new_time_spent_minutes, new_notes, old_values, new_values, changed_at"
+          )
+          .eq("user_id", user.id)
+          .eq("log_date", dateStr)
+          .order("changed_at", { ascending: false });
+
+        if (error) throw error;
+
+        setRevisions(data || []);
+      } catch (error) {
+        reportDataError("Error fetching log revisions:", error);
+        setRevisions([]);
+      }
+    },
+    [user]
+  );
+
+  // Date of the open day, if any
+  const selectedDate = selectedDay
+    ? getLocalDateString(
+        new Date(
+          currentDate.getFullYear(),
+          currentDate.getMonth(),
+          selectedDay.day
+        )
+      )
+    : null;
+
+  // Load the change history whenever a day is opened
+  useEffect(() => {
+    setEditForm(null);
+    setEntryStatus("");
+    if (selectedDate) {
+      fetchRevisions(selectedDate);
+    } else {
+      setRevisions([]);
+    }
+  }, [selectedDate, fetchRevisions]);
+
+  const handleEntryUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !editForm || !selectedDay) return;
+
+    const dateStr = getSelectedDateString(selectedDay.day);
+    const totalMinutes = editForm.hours * 60 + editForm.minutes;
+
+    // Edits follow the same rules as new entries, including the backfill window
+    const validationError = validateLogEntry(
+      dateStr,
+      totalMinutes,
+      openBackfills
     );
+    if (validationError) {
+      setEntryStatus(validationError);
+      return;
+    }
+
+    // Times are optional, but come together and cover the duration
+    const hasTimes = !!(editForm.startTime || editForm.endTime);
+    if (
+      hasTimes &&
+      getTimeRangeMinutes(editForm.startTime, editForm.endTime) < totalMinutes
+    ) {
+      setEntryStatus(sanitizeError({ error_code: "INVALID_TIME_RANGE" }));
+      return;
+    }
+
+    const toTimestamp = (time: string, saved: string | null) =>
+      saved && getClockTimeValue(saved) === time
+        ? saved
+        : toLocalTimestamp(dateStr, time);
 
     try {
+      setSavingEntry(true);
+      setEntryStatus("");
+
       const { data, error } = await supabase
         .from("daily_logs")
-        .select("id, date, time_spent_minutes, notes, created_at")
+        .update({
+          time_spent_minutes: totalMinutes,
+          notes: editForm.notes
+            ? editForm.notes.trim().substring(0, 1000)
+            : null,
+          started_at: hasTimes
+            ? toTimestamp(editForm.startTime, editForm.savedStartedAt)
+            : null,
+          ended_at: hasTimes
+            ? toTimestamp(editForm.endTime, editForm.savedEndedAt)
+            : null,
+          therapy_type: editForm.therapyType,
+          eye:
+            getTherapyType(editForm.therapyType).usesEye && editForm.eye
+              ? editForm.eye
+              : null,
+        })
+        .eq("id", editForm.id)
         .eq("user_id", user.id)
-        .gte("date", getLocalDateString(startOfMonth))
-        .lte("date", getLocalDateString(endOfMonth))
-        .order("date", { ascending: true })
-        .order("created_at", { ascending: true });
+        .select("id");
 
       if (error) throw error;
 
-      // Group entries by date and sum up the time
-      const groupedLogs: DailyLog[] = [];
-      const logsByDate = new Map<string, DailyLogEntry[]>();
-
-      (data || []).forEach((entry: DailyLogEntry) => {
-        if (!logsByDate.has(entry.date)) {
-          logsByDate.set(entry.date, []);
-        }
-        logsByDate.get(entry.date)!.push(entry);
-      });
-
-      logsByDate.forEach((entries, date) => {
-        const totalMinutes = entries.reduce(
-          (sum, entry) => sum + entry.time_spent_minutes,
-          0
-        );
-        const hasNotes = entries.some(
-          (entry) => entry.notes && entry.notes.trim().length > 0
-        );
-
-        groupedLogs.push({
-          date,
-          total_minutes: totalMinutes,
-          entries,
-          hasNotes,
-        });
-      });
+      // RLS skips entries outside the edit window instead of failing
+      if (!data || data.length === 0) {
+        setEntryStatus("This entry can no longer be changed.");
+        return;
+      }
 
-      setDailyLogs(groupedLogs);
-    } catch (error: any) {
-      // Don't log RLS policy errors during logout
-      if (error?.code !== "42501") {
-        console.error("Error fetching calendar data:", error);
+      setEditForm(null);
+      invalidateDailyLogs(user.id, dateStr);
+      await fetchRevisions(dateStr);
+    } catch (error) {
+      // Only log detailed errors in development
+      if (process.env.NODE_ENV === "development") {
+        console.error("Error updating log entry:", error);
       }
+      // Day total and duration rules are enforced by a database trigger
+      setEntryStatus(sanitizeError(error));
     } finally {
-      setLoading(false);
+      setSavingEntry(false);
     }
   };
 
-  const fetchUserGoals = async () => {
-    if (!user) return;
+  const handleEntryDelete = async (entry: DailyLogEntry) => {
+    if (!user || !selectedDay) return;
+
+    if (
+      !window.confirm(
+        `Delete this ${formatTime(
+          entry.time_spent_minutes
+        )} entry? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+
+    const dateStr = getSelectedDateString(selectedDay.day);
 
     try {
+      setSavingEntry(true);
+      setEntryStatus("");
+
       const { data, error } = await supabase
-        .from("user_goals")
-        .select("daily_goal_minutes, weekly_goal_minutes")
+        .from("daily_logs")
+        .delete()
+        .eq("id", entry.id)
         .eq("user_id", user.id)
-        .single();
+        .select("id");
 
-      if (error && error.code !== "PGRST116") throw error;
+      if (error) throw error;
 
-      if (data) {
-        setUserGoals(data);
-      } else {
-        // Only try to create default goals if we have a valid user session
-        // Check if auth session is still valid before attempting to create goals
-        const { data: session } = await supabase.auth.getSession();
-        if (session?.session?.user?.id === user.id) {
-          const { error: insertError } = await supabase
-            .from("user_goals")
-            .insert([
-              {
-                user_id: user.id,
-                daily_goal_minutes: 240,
-                weekly_goal_minutes: 1680,
-              },
-            ]);
-
-          if (insertError && insertError.code !== "42501") {
-            // Don't log RLS policy errors (42501) as they're expected during logout
-            console.error("Error creating default goals:", insertError);
-          }
-        }
+      // RLS skips entries outside the edit window instead of failing
+      if (!data || data.length === 0) {
+        setEntryStatus("This entry can no longer be deleted.");
+        return;
       }
-    } catch (error: any) {
-      // Don't log RLS policy errors during logout
-      if (error?.code !== "42501") {
-        console.error("Error fetching user goals:", error);
+
+      invalidateDailyLogs(user.id, dateStr);
+      await fetchRevisions(dateStr);
+    } catch (error) {
+      // Only log detailed errors in development
+      if (process.env.NODE_ENV === "development") {
+        console.error("Error deleting log entry:", error);
       }
+      setEntryStatus("Failed to delete entry. Please try again.");
+    } finally {
+      setSavingEntry(false);
     }
   };
 
@@ -180,7 +478,7 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
     const firstDay = new Date(year, month, 1);
     const lastDay = new Date(year, month + 1, 0);
     const daysInMonth = lastDay.getDate();
-    const startingDayOfWeek = firstDay.getDay();
+    const startingDayOfWeek = (firstDay.getDay() - weekStart + 7) % 7;
 
     const days = [];
 
@@ -197,14 +495,74 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
     return days;
   };
 
-  const getLogForDate = (day: number) => {
-    const date = new Date(
-      currentDate.getFullYear(),
-      currentDate.getMonth(),
-      day
+  const getSelectedDateString = (day: number) =>
+    getLocalDateString(
+      new Date(currentDate.getFullYear(), currentDate.getMonth(), day)
     );
-    const dateStr = getLocalDateString(date);
-    return dailyLogs.find((log) => log.date === dateStr);
+
+  // Synced days with the pending entries of the same date added in
+  const logsWithPending: DailyLog[] = [...dailyLogs];
+  pendingLogs.forEach((pending) => {
+    const entry: DailyLogEntry = {
+      id: pending.client_id,
+      date: pending.date,
+      time_spent_minutes: pending.time_spent_minutes,
+      notes: pending.notes || undefined,
+      created_at: pending.queued_at,
+      started_at: pending.started_at,
+      ended_at: pending.ended_at,
+      therapy_type: pending.therapy_type,
+      eye: pending.eye,
+      pending: true,
+    };
+    const index = logsWithPending.findIndex((log) => log.date === entry.date);
+    if (index >= 0) {
+      const log = logsWithPending[index];
+      logsWithPending[index] = { ...log, entries: [...log.entries, entry] };
+    } else {
+      logsWithPending.push({
+        date: entry.date,
+        total_minutes: 0,
+        goal_minutes: 0,
+        entries: [entry],
+        hasNotes: false,
+      });
+    }
+  });
+
+  // Days narrowed to the selected therapy type, with minutes toward the goal
+  const visibleLogs: DailyLog[] = logsWithPending
+    .map((log) => {
+      const entries = log.entries.filter(
+        (entry) =>
+          therapyFilter === "all" ||
+          (entry.therapy_type || "patching") === therapyFilter
+      );
+      return {
+        ...log,
+        entries,
+        total_minutes: entries.reduce(
+          (sum, entry) => sum + entry.time_spent_minutes,
+          0
+        ),
+        goal_minutes: entries
+          .filter((entry) =>
+            countsTowardGoal(
+              entry.therapy_type,
+              getGoalForDay(log.date).therapy_type
+            )
+          )
+          .reduce((sum, entry) => sum + entry.time_spent_minutes, 0),
+        hasNotes: entries.some(
+          (entry) => entry.notes && entry.notes.trim().length > 0
+        ),
+      };
+    })
+    .filter((log) => log.entries.length > 0);
+
+  const getLogForDate = (day: number) => {
+    const dateStr = getSelectedDateString(day);
+    return visibleLogs.find((log) => log.date === dateStr);
   };
 
   const getDayColor = (log: DailyLog | undefined) => {
@@ -213,7 +571,8 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
         ? "bg-gray-700 text-gray-300"
         : "bg-gray-100 text-gray-600";
 
-    const percentage = (log.total_minutes / userGoals.daily_goal_minutes) * 100;
+    const percentage =
+      (log.goal_minutes / getGoalForDay(log.date).daily_goal_minutes) * 100;
 
     if (percentage >= 100) return "bg-green-500 text-white";
     if (percentage >= 75) return "bg-green-400 text-white";
@@ -251,6 +610,54 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
     });
   };
 
+  const openMonth = (month: number) => {
+    setCurrentDate(new Date(heatmapYear, month, 1));
+    setView("month");
+  };
+
+  const showYear = () => {
+    setHeatmapYear(currentDate.getFullYear());
+    setView("year");
+  };
+
+  // Opens the current week, or the first week of the month being viewed
+  const showWeek = () => {
+    const monthStart = getLocalDateString(
+      new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)
+    );
+    const base =
+      today.slice(0, 7) === monthStart.slice(0, 7)
+        ? today
+        : getLocalDateString(
+            new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)
+          );
+    setWeekViewStart(getWeekStartDate(base, weekStart));
+    setView("week");
+  };
+
+  const changeView = (option: "week" | "month" | "year") => {
+    if (option === "week") showWeek();
+    else if (option === "year") showYear();
+    else setView("month");
+  };
+
+  const navigate = (direction: "prev" | "next") => {
+    const step = direction === "prev" ? -1 : 1;
+    if (view === "week") {
+      setWeekViewStart((prev) => addDays(prev, step * 7));
+    } else if (view === "year") {
+      setHeatmapYear((prev) => prev + step);
+    } else {
+      navigateMonth(direction);
+    }
+  };
+
+  const formatShortDate = (date: string) =>
+    new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+
   const monthNames = [
     "January",
     "February",
@@ -266,18 +673,31 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
     "December",
   ];
 
-  const dayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const dayNames = getWeekdayOrder(weekStart).map((day) => WEEKDAY_NAMES[day]);
 
   const days = getDaysInMonth();
 
+  // Read the selected day from the latest data so edits show up immediately
+  const selectedLog = selectedDay ? getLogForDate(selectedDay.day) : undefined;
+  const selectedGoal = getGoalForDay(
+    selectedDay ? getSelectedDateString(selectedDay.day) : today
+  );
+  const canEditSelectedDay =
+    !readOnly &&
+    !!selectedDate &&
+    (selectedDate >= getEarliestLoggableDate() ||
+      isInBackfillRange(selectedDate, openBackfills));
+
   // Calculate monthly stats
-  const monthlyTotal = dailyLogs.reduce(
+  const monthlyTotal = visibleLogs.reduce(
     (sum, log) => sum + log.total_minutes,
     0
   );
   const monthlyAverage =
-    dailyLogs.length > 0 ? monthlyTotal / dailyLogs.length : 0;
-  const daysWithData = dailyLogs.filter((log) => log.total_minutes > 0).length;
+    visibleLogs.length > 0 ? monthlyTotal / visibleLogs.length : 0;
+  const daysWithData = visibleLogs.filter(
+    (log) => log.total_minutes > 0
+  ).length;
 
   if (loading) {
     return (
@@ -301,10 +721,10 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
             Activity Calendar
           </h2>
         </div>
-        {/* Month navigation positioned absolutely on the right */}
+        {/* Week, month or year navigation positioned absolutely on the right */}
         <div className="absolute top-0 right-0 flex items-center space-x-4">
           <button
-            onClick={() => navigateMonth("prev")}
+            onClick={() => navigate("prev")}
             className={`p-2 rounded-lg transition-colors ${
               darkMode
                 ? "bg-gray-700 text-white hover:bg-gray-600"
@@ -318,10 +738,18 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
               darkMode ? "text-white" : "text-gray-900"
             }`}
           >
-            {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
+            {view === "week"
+              ? `${formatShortDate(weekViewStart)} – ${formatShortDate(
+                  addDays(weekViewStart, 6)
+                )}, ${addDays(weekViewStart, 6).slice(0, 4)}`
+              : view === "year"
+              ? heatmapYear
+              : `${
+                  monthNames[currentDate.getMonth()]
+                } ${currentDate.getFullYear()}`}
           </h3>
           <button
-            onClick={() => navigateMonth("next")}
+            onClick={() => navigate("next")}
             className={`p-2 rounded-lg transition-colors ${
               darkMode
                 ? "bg-gray-700 text-white hover:bg-gray-600"
@@ -333,135 +761,262 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
         </div>
       </div>
 
-      {/* Calendar Grid */}
-      <div
-        className={`rounded-lg p-4 ${
-          darkMode ? "bg-gray-800" : "bg-white"
-        } shadow-lg`}
-      >
-        {/* Day headers */}
-        <div className="grid grid-cols-7 gap-2 mb-4">
-          {dayNames.map((day) => (
-            <div
-              key={day}
-              className={`text-center font-semibold py-2 ${
-                darkMode ? "text-gray-300" : "text-gray-600"
+      {/* View toggle and therapy filter */}
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-1" role="group" aria-label="Calendar view">
+          {(["week", "month", "year"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => changeView(option)}
+              aria-pressed={view === option}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                view === option
+                  ? "bg-brand-cyan text-white"
+                  : darkMode
+                  ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
               }`}
             >
-              {day}
-            </div>
+              {option === "week"
+                ? "Week"
+                : option === "month"
+                ? "Month"
+                : "Year"}
+            </button>
           ))}
         </div>
-
-        {/* Calendar days */}
-        <div className="grid grid-cols-7 gap-2">
-          {days.map((day, index) => {
-            if (day === null) {
-              return <div key={`empty-${index}`} className="h-20"></div>;
-            }
-
-            const log = getLogForDate(day);
-            const isToday =
-              getLocalDateString() ===
-              getLocalDateString(
-                new Date(currentDate.getFullYear(), currentDate.getMonth(), day)
-              );
-
-            return (
-              <div
-                key={`${currentDate.getFullYear()}-${currentDate.getMonth()}-${day}`}
-                onClick={() => setSelectedDay({ day, log })}
-                className={`h-20 p-2 rounded-lg border-2 transition-all cursor-pointer hover:scale-105 ${
-                  isToday ? "border-brand-cyan" : "border-transparent"
-                } ${getDayColor(log)} relative overflow-hidden`}
-              >
-                <div className="font-semibold text-sm">{day}</div>
-                {log && (
-                  <div className="text-xs mt-1">
-                    {formatTime(log.total_minutes)}
-                    {log.entries.length > 1 && (
-                      <div className="text-xs text-gray-400">
-                        {log.entries.length} entries
-                      </div>
-                    )}
-                  </div>
-                )}
-                {log?.hasNotes && (
-                  <div className="absolute bottom-1 right-1">
-                    <div className="w-2 h-2 bg-blue-300 rounded-full"></div>
-                  </div>
-                )}
-              </div>
-            );
-          })}
-        </div>
-      </div>
-
-      {/* Monthly Summary */}
-      <div className={`grid grid-cols-1 md:grid-cols-3 gap-4`}>
-        <div
-          className={`p-4 rounded-lg ${
-            darkMode ? "bg-gray-800" : "bg-white"
-          } shadow-lg`}
-        >
-          <h4
-            className={`font-semibold mb-2 ${
-              darkMode ? "text-white" : "text-gray-900"
+        <div className="flex items-center space-x-2">
+          <label
+            htmlFor="calendar-therapy-filter"
+            className={`text-sm font-medium ${
+              darkMode ? "text-gray-300" : "text-gray-700"
             }`}
           >
-            Monthly Total
-          </h4>
-          <p
-            className={`text-2xl font-bold ${
-              darkMode ? "text-green-400" : "text-green-600"
+            Therapy
+          </label>
+          <select
+            id="calendar-therapy-filter"
+            value={therapyFilter}
+            onChange={(e) =>
+              setTherapyFilter(e.target.value as TherapyType | "all")
+            }
+            className={`px-3 py-1 rounded-lg border text-sm ${
+              darkMode
+                ? "bg-gray-700 border-gray-600 text-white"
+                : "bg-white border-gray-300 text-gray-900"
             }`}
           >
-            {formatTime(monthlyTotal)}
-          </p>
+            <option value="all">All types</option>
+            {THERAPY_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
         </div>
+      </div>
 
+      {/* Single week with every session */}
+      {view === "week" && (
         <div
-          className={`p-4 rounded-lg ${
+          className={`rounded-lg p-4 ${
             darkMode ? "bg-gray-800" : "bg-white"
           } shadow-lg`}
         >
-          <h4
-            className={`font-semibold mb-2 ${
-              darkMode ? "text-white" : "text-gray-900"
-            }`}
-          >
-            Daily Average
-          </h4>
-          <p
-            className={`text-2xl font-bold ${
-              darkMode ? "text-blue-400" : "text-blue-600"
-            }`}
-          >
-            {formatTime(Math.round(monthlyAverage))}
-          </p>
+          <WeekView
+            user={user}
+            darkMode={darkMode}
+            weekStart={weekViewStart}
+            today={today}
+            therapyFilter={therapyFilter}
+            getGoalForDay={getGoalForDay}
+          />
         </div>
+      )}
 
+      {/* Year at a glance */}
+      {view === "year" && (
         <div
-          className={`p-4 rounded-lg ${
+          className={`rounded-lg p-4 ${
             darkMode ? "bg-gray-800" : "bg-white"
           } shadow-lg`}
         >
-          <h4
-            className={`font-semibold mb-2 ${
-              darkMode ? "text-white" : "text-gray-900"
-            }`}
-          >
-            Active Days
-          </h4>
-          <p
-            className={`text-2xl font-bold ${
-              darkMode ? "text-purple-400" : "text-purple-600"
-            }`}
-          >
-            {daysWithData}
-          </p>
+          <YearHeatmap
+            user={user}
+            darkMode={darkMode}
+            year={heatmapYear}
+            today={today}
+            weekStart={weekStart}
+            therapyFilter={therapyFilter}
+            getGoalForDay={getGoalForDay}
+            onSelectMonth={openMonth}
+          />
         </div>
-      </div>
+      )}
+
+      {/* Calendar Grid and Monthly Summary */}
+      {view === "month" && (
+        <>
+          {/* Calendar Grid */}
+          <div
+            className={`rounded-lg p-4 ${
+              darkMode ? "bg-gray-800" : "bg-white"
+            } shadow-lg`}
+          >
+            {/* Day headers */}
+            <div className="grid grid-cols-7 gap-2 mb-4">
+              {dayNames.map((day) => (
+                <div
+                  key={day}
+                  className={`text-center font-semibold py-2 ${
+                    darkMode ? "text-gray-300" : "text-gray-600"
+                  }`}
+                >
+                  {day}
+                </div>
+              ))}
+            </div>
+
+            {/* Calendar days */}
+            <div className="grid grid-cols-7 gap-2">
+              {days.map((day, index) => {
+                if (day === null) {
+                  return <div key={`empty-${index}`} className="h-20"></div>;
+                }
+
+                const log = getLogForDate(day);
+                const isToday =
+                  today ===
+                  getLocalDateString(
+                    new Date(
+                      currentDate.getFullYear(),
+                      currentDate.getMonth(),
+                      day
+                    )
+                  );
+
+                return (
+                  <div
+                    key={`${currentDate.getFullYear()}-${currentDate.getMonth()}-${day}`}
+                    onClick={() => setSelectedDay({ day, log })}
+                    className={`h-20 p-2 rounded-lg border-2 transition-all cursor-pointer hover:scale-105 ${
+                      isToday ? "border-brand-cyan" : "border-transparent"
+                    } ${getDayColor(log)} relative overflow-hidden`}
+                  >
+                    <div className="font-semibold text-sm">{day}</div>
+                    {log && (
+                      <div className="text-xs mt-1">
+                        {formatTime(log.total_minutes)}
+                        {log.entries.length > 1 && (
+                          <div className="text-xs text-gray-400">
+                            {log.entries.length} entries
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {log?.entries.some((entry) => entry.pending) && (
+                      <div
+                        className="absolute top-1 right-1 text-xs"
+                        title="Waiting to sync"
+                      >
+                        ⏳
+                      </div>
+                    )}
+                    {log?.hasNotes && (
+                      <div className="absolute bottom-1 right-1">
+                        <div className="w-2 h-2 bg-blue-300 rounded-full"></div>
+                      </div>
+                    )}
+                    {log && (
+                      <div className="absolute bottom-1 left-1 flex space-x-0.5">
+                        {THERAPY_TYPES.filter((type) =>
+                          log.entries.some(
+                            (entry) =>
+                              (entry.therapy_type || "patching") === type.value
+                          )
+                        ).map((type) => (
+                          <div
+                            key={type.value}
+                            title={type.label}
+                            className="w-2 h-2 rounded-full border border-white"
+                            style={{ backgroundColor: type.color }}
+                          ></div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Monthly Summary */}
+          <div className={`grid grid-cols-1 md:grid-cols-3 gap-4`}>
+            <div
+              className={`p-4 rounded-lg ${
+                darkMode ? "bg-gray-800" : "bg-white"
+              } shadow-lg`}
+            >
+              <h4
+                className={`font-semibold mb-2 ${
+                  darkMode ? "text-white" : "text-gray-900"
+                }`}
+              >
+                Monthly Total
+              </h4>
+              <p
+                className={`text-2xl font-bold ${
+                  darkMode ? "text-green-400" : "text-green-600"
+                }`}
+              >
+                {formatTime(monthlyTotal)}
+              </p>
+            </div>
+
+            <div
+              className={`p-4 rounded-lg ${
+                darkMode ? "bg-gray-800" : "bg-white"
+              } shadow-lg`}
+            >
+              <h4
+                className={`font-semibold mb-2 ${
+                  darkMode ? "text-white" : "text-gray-900"
+                }`}
+              >
+                Daily Average
+              </h4>
+              <p
+                className={`text-2xl font-bold ${
+                  darkMode ? "text-blue-400" : "text-blue-600"
+                }`}
+              >
+                {formatTime(Math.round(monthlyAverage))}
+              </p>
+            </div>
+
+            <div
+              className={`p-4 rounded-lg ${
+                darkMode ? "bg-gray-800" : "bg-white"
+              } shadow-lg`}
+            >
+              <h4
+                className={`font-semibold mb-2 ${
+                  darkMode ? "text-white" : "text-gray-900"
+                }`}
+              >
+                Active Days
+              </h4>
+              <p
+                className={`text-2xl font-bold ${
+                  darkMode ? "text-purple-400" : "text-purple-600"
+                }`}
+              >
+                {daysWithData}
+              </p>
+            </div>
+          </div>
+        </>
+      )}
 
       {/* Legend */}
       <div
@@ -518,8 +1073,39 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
             </span>
           </div>
         </div>
+        <div className="flex flex-wrap gap-4 mt-3">
+          {THERAPY_TYPES.map((type) => (
+            <div key={type.value} className="flex items-center space-x-2">
+              <div
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: type.color }}
+              ></div>
+              <span className={darkMode ? "text-gray-300" : "text-gray-700"}>
+                {type.label}
+              </span>
+            </div>
+          ))}
+        </div>
       </div>
 
+      {/* Goal History */}
+      {goalVersions.length > 0 && (
+        <div
+          className={`p-4 rounded-lg ${
+            darkMode ? "bg-gray-800" : "bg-white"
+          } shadow-lg`}
+        >
+          <h4
+            className={`font-semibold mb-3 ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            Goal History
+          </h4>
+          <GoalTimeline versions={goalVersions} darkMode={darkMode} />
+        </div>
+      )}
+
       {/* Day Detail Modal */}
       {selectedDay && (
         <div
@@ -553,7 +1139,7 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
               </button>
             </div>
 
-            {selectedDay.log ? (
+            {selectedLog ? (
               <div className="space-y-4">
                 <div>
                   <h4
@@ -568,68 +1154,325 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
                       darkMode ? "text-green-400" : "text-green-600"
                     }`}
                   >
-                    {formatTime(selectedDay.log.total_minutes)}
+                    {formatTime(selectedLog.total_minutes)}
                   </p>
                   <div
                     className={`text-sm ${
                       darkMode ? "text-gray-400" : "text-gray-600"
                     }`}
                   >
-                    Goal: {formatTime(userGoals.daily_goal_minutes)} (
+                    Goal: {formatTime(selectedGoal.daily_goal_minutes)}
+                    {selectedGoal.therapy_type &&
+                      ` ${
+                        getTherapyType(selectedGoal.therapy_type).label
+                      }`}{" "}
+                    (
                     {Math.round(
-                      (selectedDay.log.total_minutes /
-                        userGoals.daily_goal_minutes) *
+                      (selectedLog.goal_minutes /
+                        selectedGoal.daily_goal_minutes) *
                         100
                     )}
                     %)
                   </div>
                 </div>
 
+                {selectedLog.entries.some((entry) => entry.started_at) && (
+                  <div>
+                    <h4
+                      className={`font-semibold mb-2 ${
+                        darkMode ? "text-white" : "text-gray-900"
+                      }`}
+                    >
+                      Sessions
+                    </h4>
+                    <DayTimeline
+                      date={selectedLog.date}
+                      entries={selectedLog.entries}
+                      darkMode={darkMode}
+                    />
+                  </div>
+                )}
+
                 <div>
                   <h4
                     className={`font-semibold mb-2 ${
                       darkMode ? "text-white" : "text-gray-900"
                     }`}
                   >
-                    Activity Entries ({selectedDay.log.entries.length})
+                    Activity Entries ({selectedLog.entries.length})
                   </h4>
                   <div className="space-y-2 max-h-48 overflow-y-auto">
-                    {selectedDay.log.entries.map((entry, index) => (
-                      <div
-                        key={entry.id}
-                        className={`p-3 rounded-lg ${
-                          darkMode ? "bg-gray-700" : "bg-gray-100"
-                        }`}
-                      >
-                        <div className="flex justify-between items-start">
-                          <div>
-                            <span
-                              className={`font-medium ${
-                                darkMode ? "text-green-400" : "text-green-600"
+                    {selectedLog.entries.map((entry, index) =>
+                      editForm?.id === entry.id ? (
+                        <form
+                          key={entry.id}
+                          onSubmit={handleEntryUpdate}
+                          className={`p-3 rounded-lg space-y-2 ${
+                            darkMode ? "bg-gray-700" : "bg-gray-100"
+                          }`}
+                        >
+                          <div className="grid grid-cols-2 gap-2">
+                            <input
+                              type="number"
+                              min="0"
+                              max="24"
+                              value={editForm.hours}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  hours: Math.max(
+                                    0,
+                                    Math.min(24, parseInt(e.target.value) || 0)
+                                  ),
+                                })
+                              }
+                              aria-label="Hours"
+                              className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                                darkMode
+                                  ? "bg-gray-600 border-gray-500 text-white"
+                                  : "border-gray-300"
+                              }`}
+                            />
+                            <input
+                              type="number"
+                              min="0"
+                              max="59"
+                              value={editForm.minutes}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  minutes: Math.max(
+                                    0,
+                                    Math.min(59, parseInt(e.target.value) || 0)
+                                  ),
+                                })
+                              }
+                              aria-label="Minutes"
+                              className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                                darkMode
+                                  ? "bg-gray-600 border-gray-500 text-white"
+                                  : "border-gray-300"
+                              }`}
+                            />
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <input
+                              type="time"
+                              value={editForm.startTime}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  startTime: e.target.value,
+                                })
+                              }
+                              aria-label="Start time"
+                              className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                                darkMode
+                                  ? "bg-gray-600 border-gray-500 text-white"
+                                  : "border-gray-300"
+                              }`}
+                            />
+                            <input
+                              type="time"
+                              value={editForm.endTime}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  endTime: e.target.value,
+                                })
+                              }
+                              aria-label="End time"
+                              className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                                darkMode
+                                  ? "bg-gray-600 border-gray-500 text-white"
+                                  : "border-gray-300"
+                              }`}
+                            />
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <select
+                              value={editForm.therapyType}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  therapyType: e.target.value as TherapyType,
+                                })
+                              }
+                              aria-label="Therapy"
+                              className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                                darkMode
+                                  ? "bg-gray-600 border-gray-500 text-white"
+                                  : "border-gray-300"
                               }`}
                             >
-                              {formatTime(entry.time_spent_minutes)}
-                            </span>
-                            <div
-                              className={`text-xs ${
-                                darkMode ? "text-gray-400" : "text-gray-500"
+                              {THERAPY_TYPES.map((type) => (
+                                <option key={type.value} value={type.value}>
+                                  {type.label}
+                                </option>
+                              ))}
+                            </select>
+                            {getTherapyType(editForm.therapyType).usesEye && (
+                              <select
+                                value={editForm.eye}
+                                onChange={(e) =>
+                                  setEditForm({
+                                    ...editForm,
+                                    eye: e.target.value as Eye | "",
+                                  })
+                                }
+                                aria-label="Eye"
+                                className={`w-full px-3 py-2 border rounded-lg text-sm ${
+                                  darkMode
+                                    ? "bg-gray-600 border-gray-500 text-white"
+                                    : "border-gray-300"
+                                }`}
+                              >
+                                <option value="">Not specified</option>
+                                {EYE_OPTIONS.map((eye) => (
+                                  <option key={eye.value} value={eye.value}>
+                                    {eye.label}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          </div>
+                          <textarea
+                            value={editForm.notes}
+                            onChange={(e) =>
+                              setEditForm({
+                                ...editForm,
+                                notes: e.target.value,
+                              })
+                            }
+                            rows={2}
+                            maxLength={1000}
+                            placeholder="Notes (optional)"
+                            className={`w-full px-3 py-2 border rounded-lg text-sm resize-none ${
+                              darkMode
+                                ? "bg-gray-600 border-gray-500 text-white placeholder-gray-400"
+                                : "border-gray-300 placeholder-gray-500"
+                            }`}
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <button
+                              type="button"
+                              onClick={() => setEditForm(null)}
+                              className={`px-3 py-1 rounded text-xs transition-colors ${
+                                darkMode
+                                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
                               }`}
                             >
-                              Entry #{index + 1}
+                              Cancel
+                            </button>
+                            <button
+                              type="submit"
+                              disabled={savingEntry}
+                              className="px-3 py-1 bg-brand-cyan text-white rounded hover:bg-brand-dark-blue transition-colors text-xs disabled:opacity-50"
+                            >
+                              {savingEntry ? "Saving..." : "Save"}
+                            </button>
+                          </div>
+                        </form>
+                      ) : (
+                        <div
+                          key={entry.id}
+                          className={`p-3 rounded-lg ${
+                            darkMode ? "bg-gray-700" : "bg-gray-100"
+                          }`}
+                        >
+                          <div className="flex justify-between items-start">
+                            <div>
+                              <span
+                                className={`font-medium ${
+                                  darkMode ? "text-green-400" : "text-green-600"
+                                }`}
+                              >
+                                {formatTime(entry.time_spent_minutes)}
+                              </span>
+                              <span
+                                className={`ml-2 px-2 py-0.5 rounded text-xs ${
+                                  getTherapyType(entry.therapy_type).badgeClass
+                                }`}
+                              >
+                                {getTherapyType(entry.therapy_type).label}
+                                {entry.eye && ` · ${getEyeLabel(entry.eye)}`}
+                              </span>
+                              <div
+                                className={`text-xs ${
+                                  darkMode ? "text-gray-400" : "text-gray-500"
+                                }`}
+                              >
+                                Entry #{index + 1}
+                                {entry.started_at &&
+                                  entry.ended_at &&
+                                  ` · ${formatClockTime(
+                                    entry.started_at
+                                  )}–${formatClockTime(entry.ended_at)}`}
+                                {revisions.some((r) => r.log_id === entry.id) &&
+                                  " · edited"}
+                                {entry.is_backfilled && " · backfilled"}
+                                {entry.source === "import" &&
+                                  " · imported from diary"}
+                                {entry.pending && " · pending sync"}
+                              </div>
                             </div>
+                            {canEditSelectedDay && !entry.pending && (
+                              <div className="flex space-x-2">
+                                <button
+                                  onClick={() =>
+                                    setEditForm({
+                                      id: entry.id,
+                                      hours: Math.floor(
+                                        entry.time_spent_minutes / 60
+                                      ),
+                                      minutes: entry.time_spent_minutes % 60,
+                                      notes: entry.notes || "",
+                                      startTime: entry.started_at
+                                        ? getClockTimeValue(entry.started_at)
+                                        : "",
+                                      endTime: entry.ended_at
+                                        ? getClockTimeValue(entry.ended_at)
+                                        : "",
+                                      savedStartedAt: entry.started_at || null,
+                                      savedEndedAt: entry.ended_at || null,
+                                      therapyType: getTherapyType(
+                                        entry.therapy_type
+                                      ).value,
+                                      eye: (entry.eye as Eye | null) || "",
+                                    })
+                                  }
+                                  disabled={savingEntry}
+                                  className={`px-2 py-1 rounded text-xs transition-colors disabled:opacity-50 ${
+                                    darkMode
+                                      ? "bg-gray-600 text-white hover:bg-gray-500"
+                                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                                  }`}
+                                >
+                                  Edit
+                                </button>
+                                <button
+                                  onClick={() => handleEntryDelete(entry)}
+                                  disabled={savingEntry}
+                                  className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors text-xs disabled:opacity-50"
+                                >
+                                  Delete
+                                </button>
+                              </div>
+                            )}
                           </div>
+                          {entry.notes && (
+                            <div
+                              className={`mt-2 text-sm ${
+                                darkMode ? "text-gray-300" : "text-gray-600"
+                              }`}
+                            >
+                              {entry.notes}
+                            </div>
+                          )}
                         </div>
-                        {entry.notes && (
-                          <div
-                            className={`mt-2 text-sm ${
-                              darkMode ? "text-gray-300" : "text-gray-600"
-                            }`}
-                          >
-                            {entry.notes}
-                          </div>
-                        )}
-                      </div>
-                    ))}
+                      )
+                    )}
                   </div>
                 </div>
               </div>
@@ -642,6 +1485,59 @@ const Calendar: React.FC<CalendarProps> = ({ user, darkMode }) => {
                 <p>No activity logged for this day.</p>
               </div>
             )}
+
+            {entryStatus && (
+              <div
+                className={`mt-4 p-3 rounded-lg text-sm font-medium ${
+                  darkMode
+                    ? "bg-red-900 text-red-300 border border-red-700"
+                    : "bg-red-50 text-red-800 border border-red-200"
+                }`}
+              >
+                {entryStatus}
+              </div>
+            )}
+
+            {/* Change history - kept for the patient's doctor */}
+            {revisions.length > 0 && (
+              <div className="mt-4">
+                <h4
+                  className={`font-semibold mb-2 ${
+                    darkMode ? "text-white" : "text-gray-900"
+                  }`}
+                >
+                  Change History
+                </h4>
+                <div className="space-y-1 max-h-32 overflow-y-auto">
+                  {revisions.map((revision) => (
+                    <div
+                      key={revision.id}
+                      className={`text-xs ${
+                        darkMode ? "text-gray-400" : "text-gray-600"
+                      }`}
+                    >
+                      {new Date(revision.changed_at).toLocaleString()}:{" "}
+                      {revision.action === "delete"
+                        ? `Deleted ${formatTime(
+                            revision.old_time_spent_minutes
+                          )} entry`
+                        : `Changed ${formatTime(
+                            revision.old_time_spent_minutes
+                          )} to ${formatTime(
+                            revision.new_time_spent_minutes || 0
+                          )}`}
+                      {revision.old_notes &&
+                        revision.old_notes !== revision.new_notes &&
+                        ` (previous note: "${revision.old_notes}")`}
+                      {getChangedFieldLabels(revision).length > 0 &&
+                        `, ${getChangedFieldLabels(revision).join(
+                          ", "
+                        )} edited`}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       )}
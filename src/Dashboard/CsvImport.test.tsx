@@ -0,0 +1,64 @@
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { User } from "@supabase/supabase-js";
+import CsvImport from "./CsvImport";
+
+jest.mock("../config/supabase", () => {
+  const query: any = {};
+  ["select", "eq", "gte"].forEach((method) => {
+    query[method] = () => query;
+  });
+  query.lte = () => Promise.resolve({ data: [], error: null });
+  return { supabase: { from: () => query } };
+});
+
+const doctor = { id: "doctor" } as User;
+
+// jsdom files cannot be read, so the text is handed over directly
+const chooseFile = (content: string) => {
+  const file = new File([content], "diary.csv", { type: "text/csv" });
+  file.text = () => Promise.resolve(content);
+  fireEvent.change(
+    screen.getByText("Choose CSV File").querySelector("input")!,
+    {
+      target: { files: [file] },
+    }
+  );
+};
+
+describe("CsvImport", () => {
+  it("checks the daily limits against the selected rows", async () => {
+    render(
+      <CsvImport
+        user={doctor}
+        darkMode={false}
+        patientId="patient"
+        patientName="Ana Novak"
+      />
+    );
+
+    chooseFile("2024-03-14,800\n2024-03-14,700\n2024-03-15,60");
+
+    const first = await screen.findByLabelText("Import line 1");
+    const second = screen.getByLabelText("Import line 2");
+
+    // The second entry would take the day over 24 hours
+    expect(first).toBeChecked();
+    expect(second).not.toBeChecked();
+    expect(screen.getByLabelText("Import line 3")).toBeChecked();
+
+    fireEvent.click(second);
+    expect(
+      screen.getByText("Day would add up to more than 24 hours.")
+    ).toBeInTheDocument();
+    expect(screen.getByText("Import 3 Entries")).toBeDisabled();
+
+    fireEvent.click(first);
+    await waitFor(() =>
+      expect(
+        screen.queryByText("Day would add up to more than 24 hours.")
+      ).not.toBeInTheDocument()
+    );
+    expect(screen.getByText("Import 2 Entries")).toBeEnabled();
+  });
+});
@@ -0,0 +1,349 @@
+import React, { useMemo, useState } from "react";
+import { supabase } from "../config/supabase";
+import { User } from "@supabase/supabase-js";
+import { sanitizeError } from "../utils/security";
+import {
+  ExistingLog,
+  ImportRow,
+  MAX_IMPORT_ROWS,
+  getDailyLimitErrors,
+  parseDiaryCsv,
+} from "../utils/diaryImport";
+import { BackfillRange, fetchOpenBackfills } from "../utils/logValidation";
+import { invalidateDailyLogs } from "../utils/dataCache";
+
+interface CsvImportProps {
+  user: User | null;
+  darkMode: boolean;
+  patientId?: string; // Doctors import on a patient's behalf
+  patientName?: string;
+  onImported?: () => void;
+}
+
+const CsvImport: React.FC<CsvImportProps> = ({
+  user,
+  darkMode,
+  patientId,
+  patientName,
+  onImported,
+}) => {
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [existingLogs, setExistingLogs] = useState<ExistingLog[]>([]);
+  const [selectedLines, setSelectedLines] = useState<Set<number>>(new Set());
+  const [loadingPreview, setLoadingPreview] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [status, setStatus] = useState("");
+
+  const targetId = patientId || user?.id;
+
+  const resetImport = () => {
+    setFileName("");
+    setRows([]);
+    setExistingLogs([]);
+    setSelectedLines(new Set());
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow choosing the same file again
+    if (!file || !targetId) return;
+
+    try {
+      setLoadingPreview(true);
+      setStatus("");
+
+      // Patients reach past the 5-day window only through approved backfills
+      const backfillRanges: BackfillRange[] | null = patientId
+        ? null
+        : await fetchOpenBackfills(targetId);
+
+      const text = await file.text();
+      const parsed = parseDiaryCsv(text, [], backfillRanges);
+      if (parsed.length === 0) {
+        setStatus("The file does not contain any rows.");
+        resetImport();
+        return;
+      }
+      if (parsed.length > MAX_IMPORT_ROWS) {
+        setStatus(`At most ${MAX_IMPORT_ROWS} rows can be imported at once.`);
+        resetImport();
+        return;
+      }
+
+      // Compare against what is already logged for the dates in the file
+      const dates = parsed
+        .filter((row) => !row.error)
+        .map((row) => row.date)
+        .sort();
+      let savedLogs: ExistingLog[] = [];
+      if (dates.length > 0) {
+        const { data, error } = await supabase
+          .from("daily_logs")
+          .select("date, time_spent_minutes")
+          .eq("user_id", targetId)
+          .gte("date", dates[0])
+          .lte("date", dates[dates.length - 1]);
+
+        if (error) throw error;
+        savedLogs = data || [];
+      }
+
+      const checked = parseDiaryCsv(text, savedLogs, backfillRanges);
+      setFileName(file.name);
+      setRows(checked);
+      setExistingLogs(savedLogs);
+      // Rows without errors or conflicts are selected by default, as long as
+      // their day stays within the daily limits
+      const candidates = new Set(
+        checked
+          .filter((row) => !row.error && !row.conflict)
+          .map((row) => row.line)
+      );
+      const overLimit = getDailyLimitErrors(checked, savedLogs, candidates);
+      setSelectedLines(
+        new Set(Array.from(candidates).filter((line) => !overLimit.has(line)))
+      );
+    } catch (error) {
+      // Only log detailed errors in development
+      if (process.env.NODE_ENV === "development") {
+        console.error("Error reading import file:", error);
+      }
+      setStatus("Failed to read the file. Please check it is a CSV file.");
+      resetImport();
+    } finally {
+      setLoadingPreview(false);
+    }
+  };
+
+  const toggleRow = (line: number) => {
+    const next = new Set(selectedLines);
+    if (next.has(line)) {
+      next.delete(line);
+    } else {
+      next.add(line);
+    }
+    setSelectedLines(next);
+  };
+
+  const handleImport = async () => {
+    if (!targetId) return;
+
+    const selectedRows = rows.filter(
+      (row) => !row.error && selectedLines.has(row.line)
+    );
+    if (selectedRows.length === 0) {
+      setStatus("Select at least one row to import.");
+      return;
+    }
+    if (limitErrors.size > 0) {
+      setStatus("Some selected rows go over the daily limits.");
+      return;
+    }
+
+    try {
+      setImporting(true);
+      setStatus("");
+
+      const { data, error } = await supabase.rpc("import_activity_logs", {
+        p_patient_id: targetId,
+        p_rows: selectedRows.map((row) => ({
+          date: row.date,
+          minutes: row.minutes,
+          notes: row.notes || null,
+        })),
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        const failedRow =
+          typeof data.row === "number" ? selectedRows[data.row] : undefined;
+        setStatus(
+          failedRow
+            ? `Line ${failedRow.line}: ${sanitizeError(data)}`
+            : sanitizeError(data)
+        );
+        return;
+      }
+
+      setStatus(`Imported ${data.imported_count} entries successfully.`);
+      resetImport();
+      invalidateDailyLogs(targetId);
+      if (onImported) {
+        onImported();
+      }
+    } catch (error) {
+      // Only log detailed errors in development
+      if (process.env.NODE_ENV === "development") {
+        console.error("Error importing logs:", error);
+      }
+      setStatus("Failed to import entries. Please try again.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const formatTime = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours}h ${mins}m`;
+  };
+
+  // The daily limits depend on which rows are selected
+  const limitErrors = useMemo(
+    () => getDailyLimitErrors(rows, existingLogs, selectedLines),
+    [rows, existingLogs, selectedLines]
+  );
+
+  const invalidCount = rows.filter((row) => row.error).length;
+  const conflictCount = rows.filter((row) => !row.error && row.conflict).length;
+
+  return (
+    <div className="space-y-4">
+      <p className={`text-sm ${darkMode ? "text-gray-400" : "text-gray-600"}`}>
+        Upload a CSV file with one session per line: date, minutes and optional
+        notes (e.g. <code>2024-03-14,120,Morning patch</code>). Rows are checked
+        against the logging rules and nothing is saved until you confirm.
+        {patientName && ` Entries will be added to ${patientName}'s log.`}
+      </p>
+
+      <label
+        className={`inline-block px-4 py-2 rounded-lg text-sm font-semibold cursor-pointer transition-colors ${
+          darkMode
+            ? "bg-gray-700 text-white hover:bg-gray-600"
+            : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+        }`}
+      >
+        {loadingPreview ? "Checking file..." : "Choose CSV File"}
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={loadingPreview || importing}
+          className="hidden"
+        />
+      </label>
+
+      {rows.length > 0 && (
+        <>
+          <div
+            className={`text-sm ${
+              darkMode ? "text-gray-300" : "text-gray-700"
+            }`}
+          >
+            {fileName}: {rows.length} rows, {selectedLines.size} selected
+            {invalidCount > 0 && `, ${invalidCount} invalid`}
+            {conflictCount > 0 && `, ${conflictCount} with conflicts`}
+            {limitErrors.size > 0 &&
+              `, ${limitErrors.size} over the daily limits`}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr
+                  className={`text-left ${
+                    darkMode ? "text-gray-400" : "text-gray-500"
+                  }`}
+                >
+                  <th className="p-2"></th>
+                  <th className="p-2">Line</th>
+                  <th className="p-2">Date</th>
+                  <th className="p-2">Duration</th>
+                  <th className="p-2">Notes</th>
+                  <th className="p-2">Check</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.line}
+                    className={`border-t ${
+                      darkMode ? "border-gray-700" : "border-gray-200"
+                    } ${row.error ? "opacity-60" : ""}`}
+                  >
+                    <td className="p-2">
+                      <input
+                        type="checkbox"
+                        checked={!row.error && selectedLines.has(row.line)}
+                        disabled={!!row.error}
+                        onChange={() => toggleRow(row.line)}
+                        aria-label={`Import line ${row.line}`}
+                      />
+                    </td>
+                    <td className="p-2">{row.line}</td>
+                    <td className="p-2">{row.date}</td>
+                    <td className="p-2">
+                      {row.minutes > 0 ? formatTime(row.minutes) : "-"}
+                    </td>
+                    <td className="p-2 max-w-[160px] truncate">{row.notes}</td>
+                    <td
+                      className={`p-2 text-xs ${
+                        row.error || limitErrors.has(row.line)
+                          ? "text-red-500"
+                          : row.conflict
+                          ? "text-yellow-600"
+                          : "text-green-600"
+                      }`}
+                    >
+                      {row.error ||
+                        limitErrors.get(row.line) ||
+                        row.conflict ||
+                        "OK"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={resetImport}
+              disabled={importing}
+              className={`px-4 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                darkMode
+                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={
+                importing || selectedLines.size === 0 || limitErrors.size > 0
+              }
+              className="px-4 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold disabled:opacity-50"
+            >
+              {importing
+                ? "Importing..."
+                : `Import ${selectedLines.size} Entries`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {status && (
+        <div
+          className={`p-3 rounded-lg text-sm font-medium ${
+            status.includes("success")
+              ? darkMode
+                ? "bg-green-900 text-green-300 border border-green-700"
+                : "bg-green-50 text-green-800 border border-green-200"
+              : darkMode
+              ? "bg-red-900 text-red-300 border border-red-700"
+              : "bg-red-50 text-red-800 border border-red-200"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvImport;
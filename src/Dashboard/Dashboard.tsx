@@ -10,6 +10,21 @@ import GoalsManagement from "./GoalsManagement";
 import PatientCalendarView from "./PatientCalendarView";
 import PatientStatisticsView from "./PatientStatisticsView";
 import DoctorInvitations from "./DoctorInvitations";
+import BackfillRequests from "./BackfillRequests";
+import CsvImport from "./CsvImport";
+import ProtocolStatus from "./ProtocolStatus";
+import GoalChangeBanner from "./GoalChangeBanner";
+import AchievementsGallery from "./AchievementsGallery";
+import RewardChart from "./RewardChart";
+import { syncPendingLogs } from "../utils/offlineQueue";
+import { clearDataCache } from "../utils/dataCache";
+import { sanitizeError } from "../utils/security";
+import {
+  getBrowserTimeZone,
+  getLocaleWeekStart,
+  resolveWeekStart,
+  setUserTimeZone,
+} from "../utils/dates";
 
 const Dashboard: React.FC = () => {
   const [user, setUser] = useState<User | null>(null);
@@ -17,13 +32,15 @@ const Dashboard: React.FC = () => {
     name: string;
     surname: string;
     account_type: string;
+    week_start?: number | null; // 0 = Sunday; null is Monday
+    timezone?: string | null; // IANA name; "today" is computed in it
   } | null>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [profileForm, setProfileForm] = useState({ name: "", surname: "" });
   const [profileStatus, setProfileStatus] = useState<string>("");
   const [profileLoading, setProfileLoading] = useState(false);
   const [currentPage, setCurrentPage] = useState<string>("dashboard");
-  const [refreshKey, setRefreshKey] = useState(0);
+  const [syncStatus, setSyncStatus] = useState("");
   const [darkMode, setDarkMode] = useState(() => {
     try {
       const saved = localStorage.getItem("darkMode");
@@ -44,7 +61,7 @@ const Dashboard: React.FC = () => {
         // Try to get existing profile
         let { data: profileData } = await supabase
           .from("user_data")
-          .select("name, surname, account_type")
+          .select("name, surname, account_type, week_start, timezone")
           .eq("user_id", data.user.id)
           .single();
 
@@ -61,7 +78,7 @@ const Dashboard: React.FC = () => {
                 account_type: "user",
               },
             ])
-            .select("name, surname, account_type, email")
+            .select("name, surname, account_type, email, week_start, timezone")
             .single();
 
           if (error) {
@@ -74,6 +91,30 @@ const Dashboard: React.FC = () => {
           }
         }
 
+        // Dates follow the saved timezone and week start; the first visit
+        // saves the browser's so the server counts the same days and weeks
+        const defaults: { timezone?: string; week_start?: number } = {};
+        if (profileData && !profileData.timezone) {
+          defaults.timezone = getBrowserTimeZone();
+        }
+        if (
+          profileData &&
+          (profileData.week_start === null ||
+            profileData.week_start === undefined)
+        ) {
+          defaults.week_start = getLocaleWeekStart();
+        }
+        if (profileData && Object.keys(defaults).length > 0) {
+          const { error } = await supabase
+            .from("user_data")
+            .update(defaults)
+            .eq("user_id", data.user.id);
+          if (!error) {
+            profileData = { ...profileData, ...defaults };
+          }
+        }
+        setUserTimeZone(profileData?.timezone || null);
+
         setProfile(profileData);
         if (profileData) {
           setProfileForm({
@@ -88,10 +129,41 @@ const Dashboard: React.FC = () => {
     getUser();
   }, [navigate]);
 
+  // Send entries saved offline once the connection is back
+  useEffect(() => {
+    if (!user || !profile || profile.account_type === "doctor") return;
+
+    const syncOfflineLogs = async () => {
+      if (!navigator.onLine) return;
+      try {
+        const { rejected } = await syncPendingLogs(user.id);
+        if (rejected.length > 0) {
+          setSyncStatus(
+            `${rejected.length} entr${
+              rejected.length === 1 ? "y" : "ies"
+            } saved offline could not be synced: ${rejected
+              .map(({ log, error }) => `${log.date} - ${sanitizeError(error)}`)
+              .join("; ")}`
+          );
+        }
+      } catch (error) {
+        if (process.env.NODE_ENV === "development") {
+          console.error("Error syncing offline logs:", error);
+        }
+      }
+    };
+
+    syncOfflineLogs();
+    window.addEventListener("online", syncOfflineLogs);
+    return () => window.removeEventListener("online", syncOfflineLogs);
+  }, [user, profile]);
+
   const handleLogout = async () => {
     // Clean up state before signing out to prevent API calls with invalid session
     setUser(null);
     setProfile(null);
+    setUserTimeZone(null);
+    clearDataCache();
     setCurrentPage("dashboard");
 
     await supabase.auth.signOut();
@@ -114,6 +186,7 @@ const Dashboard: React.FC = () => {
 
   // Helper to check if user is a doctor
   const isDoctor = profile?.account_type === "doctor";
+  const weekStart = resolveWeekStart(profile?.week_start);
 
   // Input validation
   const validateName = (name: string): boolean => {
@@ -173,7 +246,7 @@ const Dashboard: React.FC = () => {
       // Reload profile
       const { data: profileData } = await supabase
         .from("user_data")
-        .select("name, surname, account_type")
+        .select("name, surname, account_type, week_start, timezone")
         .eq("user_id", user.id)
         .single();
       setProfile(profileData);
@@ -206,6 +279,7 @@ const Dashboard: React.FC = () => {
 
   // Profile update handler for Settings component
   const handleProfileUpdate = (updatedProfile: any) => {
+    setUserTimeZone(updatedProfile.timezone || null);
     setProfile(updatedProfile);
     setProfileForm({
       name: updatedProfile.name || "",
@@ -621,7 +695,7 @@ const Dashboard: React.FC = () => {
                 <Calendar
                   user={user}
                   darkMode={darkMode}
-                  key={`calendar-${refreshKey}`}
+                  weekStart={weekStart}
                 />
               </div>
             </div>
@@ -642,7 +716,7 @@ const Dashboard: React.FC = () => {
                 <Statistics
                   user={user}
                   darkMode={darkMode}
-                  key={`statistics-${refreshKey}`}
+                  weekStart={weekStart}
                 />
               </div>
             </div>
@@ -857,15 +931,57 @@ const Dashboard: React.FC = () => {
                   ) : (
                     <>
                       {/* Patient Dashboard Content */}
+                      {syncStatus && (
+                        <div
+                          className={`p-3 rounded-lg text-sm font-medium flex justify-between items-start ${
+                            darkMode
+                              ? "bg-red-900 text-red-300 border border-red-700"
+                              : "bg-red-50 text-red-800 border border-red-200"
+                          }`}
+                        >
+                          <span>{syncStatus}</span>
+                          <button
+                            onClick={() => setSyncStatus("")}
+                            className="ml-3"
+                            aria-label="Dismiss"
+                          >
+                            ×
+                          </button>
+                        </div>
+                      )}
+                      {/* New goals from the doctor, until acknowledged */}
+                      <GoalChangeBanner user={user} darkMode={darkMode} />
+
                       {/* Log Entry Component - prioritized for quick activity logging */}
-                      <LogEntry
-                        user={user}
-                        darkMode={darkMode}
-                        onLogAdded={() => {
-                          // Force refresh of statistics and calendar when log is added
-                          setRefreshKey((prev) => prev + 1);
-                        }}
-                      />
+                      <LogEntry user={user} darkMode={darkMode} />
+
+                      {/* Streak and badges earned so far */}
+                      <AchievementsGallery user={user} darkMode={darkMode} />
+
+                      {/* Rewards the parent set up for goal days */}
+                      <RewardChart user={user} darkMode={darkMode} />
+
+                      {/* Current treatment phase and the next goal change */}
+                      <ProtocolStatus user={user} darkMode={darkMode} />
+
+                      {/* Backfill requests for dates older than the logging window */}
+                      <BackfillRequests user={user} darkMode={darkMode} />
+
+                      {/* Import of historical paper diaries */}
+                      <div
+                        className={`rounded-lg p-6 ${
+                          darkMode ? "bg-gray-800" : "bg-white"
+                        } shadow-lg`}
+                      >
+                        <h3
+                          className={`text-xl font-semibold mb-2 ${
+                            darkMode ? "text-white" : "text-gray-900"
+                          }`}
+                        >
+                          Import Paper Diary
+                        </h3>
+                        <CsvImport user={user} darkMode={darkMode} />
+                      </div>
 
                       {/* Doctor Invitations Component - shows healthcare team info */}
                       <DoctorInvitations user={user} darkMode={darkMode} />
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from "react";
+import { supabase } from "../config/supabase";
+import { User } from "@supabase/supabase-js";
+import { getTherapyType, TherapyType } from "../utils/therapy";
+import { sanitizeError } from "../utils/security";
+import { getToday } from "../utils/dates";
+import { WEEKDAY_DISPLAY_ORDER, WEEKDAY_NAMES } from "../utils/goals";
+
+interface GoalChange {
+  id: string;
+  reason: string | null;
+  created_at: string;
+  doctor_name: string | null;
+  daily_goal_minutes: number;
+  weekly_goal_minutes: number;
+  weekday_goal_minutes: number[] | null;
+  therapy_type: TherapyType | null;
+  effective_from: string;
+}
+
+interface GoalChangeBannerProps {
+  user: User | null;
+  darkMode: boolean;
+}
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  if (mins === 0) return `${hours}h`;
+  return `${hours}h ${mins}m`;
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+// Goal changes made by the doctor, shown until the patient acknowledges them
+const GoalChangeBanner: React.FC<GoalChangeBannerProps> = ({
+  user,
+  darkMode,
+}) => {
+  const [changes, setChanges] = useState<GoalChange[]>([]);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const [status, setStatus] = useState("");
+
+  useEffect(() => {
+    if (!user) {
+      setChanges([]);
+      return;
+    }
+
+    const fetchChanges = async () => {
+      try {
+        const { data, error } = await supabase.rpc("get_pending_goal_changes");
+
+        if (error) throw error;
+
+        setChanges(data || []);
+      } catch (error: any) {
+        // Don't log RLS policy errors during logout
+        if (error?.code !== "42501") {
+          console.error("Error fetching goal changes:", error);
+        }
+      }
+    };
+
+    fetchChanges();
+  }, [user]);
+
+  const handleAcknowledge = async () => {
+    try {
+      setAcknowledging(true);
+      setStatus("");
+
+      const { data, error } = await supabase.rpc("acknowledge_goal_changes", {
+        p_notification_ids: changes.map((change) => change.id),
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        setStatus(sanitizeError(data));
+        return;
+      }
+
+      setChanges([]);
+    } catch (error) {
+      console.error("Error acknowledging goal changes:", error);
+      setStatus("Failed to acknowledge the goal change. Please try again.");
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  if (changes.length === 0) return null;
+
+  const today = getToday();
+
+  return (
+    <div
+      role="status"
+      className={`rounded-lg p-6 border-l-4 border-brand-cyan shadow-lg ${
+        darkMode ? "bg-gray-800" : "bg-white"
+      }`}
+    >
+      <h3
+        className={`text-xl font-semibold mb-3 ${
+          darkMode ? "text-white" : "text-gray-900"
+        }`}
+      >
+        {changes.length === 1
+          ? "Your goal has changed"
+          : `Your goals have changed ${changes.length} times`}
+      </h3>
+
+      <ul className="space-y-3 mb-4">
+        {changes.map((change) => (
+          <li
+            key={change.id}
+            className={`p-4 rounded-lg ${
+              darkMode
+                ? "bg-blue-900 text-blue-100"
+                : "bg-blue-50 text-blue-900"
+            }`}
+          >
+            <div className="text-xs uppercase tracking-wide opacity-75">
+              {change.effective_from > today
+                ? `Starting ${formatDate(change.effective_from)}`
+                : `Since ${formatDate(change.effective_from)}`}
+              {change.doctor_name && ` · Dr. ${change.doctor_name}`}
+            </div>
+            <div className="text-lg font-semibold">
+              {change.weekday_goal_minutes ? "Avg. " : ""}
+              {formatTime(change.daily_goal_minutes)} a day ·{" "}
+              {formatTime(change.weekly_goal_minutes)} a week
+              {change.therapy_type &&
+                ` · ${getTherapyType(change.therapy_type).label} only`}
+            </div>
+            {change.weekday_goal_minutes && (
+              <div className="text-xs">
+                {WEEKDAY_DISPLAY_ORDER.map(
+                  (day) =>
+                    `${WEEKDAY_NAMES[day]} ${formatTime(
+                      change.weekday_goal_minutes![day]
+                    )}`
+                ).join(" · ")}
+              </div>
+            )}
+            {change.reason && (
+              <p className="text-sm mt-2 italic">"{change.reason}"</p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {status && (
+        <div
+          className={`p-3 rounded-lg text-sm font-medium mb-3 ${
+            darkMode
+              ? "bg-red-900 text-red-300 border border-red-700"
+              : "bg-red-50 text-red-800 border border-red-200"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+
+      <button
+        onClick={handleAcknowledge}
+        disabled={acknowledging}
+        className="px-4 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold disabled:opacity-50"
+      >
+        {acknowledging ? "Saving..." : "Got It"}
+      </button>
+    </div>
+  );
+};
+
+export default GoalChangeBanner;
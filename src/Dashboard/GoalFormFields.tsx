@@ -0,0 +1,269 @@
+import React from "react";
+import { THERAPY_TYPES, TherapyType } from "../utils/therapy";
+import { GoalFormValues, getFormWeeklyGoal } from "../utils/goals";
+import WeekdayGoalInputs from "./WeekdayGoalInputs";
+
+interface GoalFormFieldsProps {
+  values: GoalFormValues;
+  onChange: (values: GoalFormValues) => void;
+  darkMode: boolean;
+}
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours}h ${mins}m`;
+};
+
+// Daily or per-weekday targets, weekly goal, therapy type, effective date and
+// the reason sent to the patient
+const GoalFormFields: React.FC<GoalFormFieldsProps> = ({
+  values,
+  onChange,
+  darkMode,
+}) => {
+  const weeklyGoal = getFormWeeklyGoal(values);
+
+  const toggleWeekdayTargets = (enabled: boolean) => {
+    onChange({
+      ...values,
+      weekday_goal_minutes: enabled
+        ? Array(7).fill(values.daily_goal_minutes)
+        : null,
+      derive_weekly: enabled ? true : values.derive_weekly,
+    });
+  };
+
+  const updateWeekdayTarget = (day: number, minutes: number) => {
+    if (!values.weekday_goal_minutes) return;
+    onChange({
+      ...values,
+      weekday_goal_minutes: values.weekday_goal_minutes.map((value, i) =>
+        i === day ? minutes : value
+      ),
+    });
+  };
+
+  return (
+    <>
+      <label
+        className={`flex items-center space-x-2 text-sm ${
+          darkMode ? "text-gray-300" : "text-gray-700"
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={!!values.weekday_goal_minutes}
+          onChange={(e) => toggleWeekdayTargets(e.target.checked)}
+        />
+        <span>Different daily target for each weekday</span>
+      </label>
+
+      {values.weekday_goal_minutes ? (
+        <div>
+          <label
+            className={`block text-sm font-medium mb-2 ${
+              darkMode ? "text-gray-300" : "text-gray-700"
+            }`}
+          >
+            Daily Goal per Weekday (minutes)
+          </label>
+          <WeekdayGoalInputs
+            values={values.weekday_goal_minutes}
+            onChange={updateWeekdayTarget}
+            darkMode={darkMode}
+          />
+        </div>
+      ) : (
+        <div>
+          <label
+            className={`block text-sm font-medium mb-2 ${
+              darkMode ? "text-gray-300" : "text-gray-700"
+            }`}
+          >
+            Daily Goal (minutes)
+          </label>
+          <div className="flex items-center space-x-2">
+            <input
+              type="number"
+              min="1"
+              max="1440"
+              value={values.daily_goal_minutes}
+              onChange={(e) =>
+                onChange({
+                  ...values,
+                  daily_goal_minutes: parseInt(e.target.value) || 0,
+                })
+              }
+              className={`flex-1 px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+                darkMode
+                  ? "bg-gray-700 border-gray-600 text-white"
+                  : "border-gray-300"
+              }`}
+              required
+            />
+            <span
+              className={`text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}
+            >
+              ({formatTime(values.daily_goal_minutes)})
+            </span>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label
+          className={`block text-sm font-medium mb-2 ${
+            darkMode ? "text-gray-300" : "text-gray-700"
+          }`}
+        >
+          Weekly Goal (minutes)
+        </label>
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min="1"
+            max="10080"
+            value={weeklyGoal}
+            onChange={(e) =>
+              onChange({
+                ...values,
+                weekly_goal_minutes: parseInt(e.target.value) || 0,
+              })
+            }
+            disabled={!!values.weekday_goal_minutes && values.derive_weekly}
+            className={`flex-1 px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+              darkMode
+                ? "bg-gray-700 border-gray-600 text-white"
+                : "border-gray-300"
+            }`}
+            required
+          />
+          <span
+            className={`text-sm ${
+              darkMode ? "text-gray-400" : "text-gray-600"
+            }`}
+          >
+            ({formatTime(weeklyGoal)})
+          </span>
+        </div>
+        {values.weekday_goal_minutes && (
+          <label
+            className={`flex items-center space-x-2 text-sm mt-2 ${
+              darkMode ? "text-gray-400" : "text-gray-600"
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={values.derive_weekly}
+              onChange={(e) =>
+                onChange({
+                  ...values,
+                  derive_weekly: e.target.checked,
+                  // Start editing from the derived value
+                  weekly_goal_minutes: weeklyGoal,
+                })
+              }
+            />
+            <span>Sum of the weekday targets</span>
+          </label>
+        )}
+      </div>
+
+      <div>
+        <label
+          className={`block text-sm font-medium mb-2 ${
+            darkMode ? "text-gray-300" : "text-gray-700"
+          }`}
+        >
+          Therapy Counted Toward Goal
+        </label>
+        <select
+          value={values.therapy_type || ""}
+          onChange={(e) =>
+            onChange({
+              ...values,
+              therapy_type: (e.target.value as TherapyType) || null,
+            })
+          }
+          className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+            darkMode
+              ? "bg-gray-700 border-gray-600 text-white"
+              : "border-gray-300"
+          }`}
+        >
+          <option value="">All therapy types</option>
+          {THERAPY_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label
+          className={`block text-sm font-medium mb-2 ${
+            darkMode ? "text-gray-300" : "text-gray-700"
+          }`}
+        >
+          Effective From
+        </label>
+        <input
+          type="date"
+          value={values.effective_from}
+          onChange={(e) =>
+            onChange({
+              ...values,
+              effective_from: e.target.value,
+            })
+          }
+          className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+            darkMode
+              ? "bg-gray-700 border-gray-600 text-white"
+              : "border-gray-300"
+          }`}
+          required
+        />
+        <p
+          className={`text-xs mt-1 ${
+            darkMode ? "text-gray-400" : "text-gray-500"
+          }`}
+        >
+          Days before this date keep the goal they had.
+        </p>
+      </div>
+
+      <div>
+        <label
+          className={`block text-sm font-medium mb-2 ${
+            darkMode ? "text-gray-300" : "text-gray-700"
+          }`}
+        >
+          Reason for Change (optional)
+        </label>
+        <textarea
+          value={values.reason}
+          onChange={(e) =>
+            onChange({
+              ...values,
+              reason: e.target.value,
+            })
+          }
+          maxLength={500}
+          rows={2}
+          placeholder="Shown to the patient with the new goal"
+          className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+            darkMode
+              ? "bg-gray-700 border-gray-600 text-white"
+              : "border-gray-300"
+          }`}
+        />
+      </div>
+    </>
+  );
+};
+
+export default GoalFormFields;
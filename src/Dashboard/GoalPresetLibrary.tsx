@@ -0,0 +1,472 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { supabase } from "../config/supabase";
+import { User } from "@supabase/supabase-js";
+import { getAverageDailyTarget, sumMinutes } from "../utils/goals";
+import {
+  BUILT_IN_PRESETS,
+  GoalPreset,
+  fetchGoalPresets,
+} from "../utils/goalPresets";
+import WeekdayGoalInputs from "./WeekdayGoalInputs";
+
+interface GoalPresetLibraryProps {
+  user: User | null;
+  darkMode: boolean;
+  onApply: (preset: GoalPreset) => void;
+}
+
+interface PresetForm {
+  id: string | null; // null while creating
+  name: string;
+  daily_goal_minutes: number;
+  weekly_goal_minutes: number;
+  weekday_goal_minutes: number[] | null;
+  derive_weekly: boolean;
+  note: string;
+  is_shared: boolean;
+}
+
+const emptyForm: PresetForm = {
+  id: null,
+  name: "",
+  daily_goal_minutes: 240,
+  weekly_goal_minutes: 1680,
+  weekday_goal_minutes: null,
+  derive_weekly: true,
+  note: "",
+  is_shared: false,
+};
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  if (mins === 0) return `${hours}h`;
+  return `${hours}h ${mins}m`;
+};
+
+const getPresetSummary = (preset: GoalPreset) =>
+  preset.weekday_goal_minutes
+    ? `varies/${formatTime(preset.weekly_goal_minutes)}`
+    : `${formatTime(preset.daily_goal_minutes)}/${formatTime(
+        preset.weekly_goal_minutes
+      )}`;
+
+// Built-in, own and shared presets, plus managing the doctor's own presets
+const GoalPresetLibrary: React.FC<GoalPresetLibraryProps> = ({
+  user,
+  darkMode,
+  onApply,
+}) => {
+  const [presets, setPresets] = useState<GoalPreset[]>([]);
+  const [appliedPreset, setAppliedPreset] = useState<GoalPreset | null>(null);
+  const [managing, setManaging] = useState(false);
+  const [form, setForm] = useState<PresetForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  const loadPresets = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setPresets(await fetchGoalPresets());
+    } catch (error) {
+      console.error("Error fetching goal presets:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  const ownPresets = presets.filter((preset) => preset.doctor_id === user?.id);
+
+  const applyPreset = (preset: GoalPreset) => {
+    setAppliedPreset(preset);
+    onApply(preset);
+  };
+
+  const editPreset = (preset: GoalPreset) => {
+    setForm({
+      id: preset.id,
+      name: preset.name,
+      daily_goal_minutes: preset.daily_goal_minutes,
+      weekly_goal_minutes: preset.weekly_goal_minutes,
+      weekday_goal_minutes: preset.weekday_goal_minutes,
+      derive_weekly:
+        !preset.weekday_goal_minutes ||
+        sumMinutes(preset.weekday_goal_minutes) === preset.weekly_goal_minutes,
+      note: preset.note || "",
+      is_shared: preset.is_shared,
+    });
+    setStatus("");
+  };
+
+  const getFormWeeklyGoal = (current: PresetForm) =>
+    current.weekday_goal_minutes && current.derive_weekly
+      ? sumMinutes(current.weekday_goal_minutes)
+      : current.weekly_goal_minutes;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !form) return;
+
+    if (!form.name.trim()) {
+      setStatus("Please give the preset a name.");
+      return;
+    }
+
+    const values = {
+      name: form.name.trim().substring(0, 100),
+      daily_goal_minutes: form.weekday_goal_minutes
+        ? getAverageDailyTarget(form.weekday_goal_minutes)
+        : form.daily_goal_minutes,
+      weekly_goal_minutes: getFormWeeklyGoal(form),
+      weekday_goal_minutes: form.weekday_goal_minutes,
+      note: form.note.trim().substring(0, 1000) || null,
+      is_shared: form.is_shared,
+    };
+
+    try {
+      setSaving(true);
+      setStatus("");
+
+      const { error } = form.id
+        ? await supabase.from("goal_presets").update(values).eq("id", form.id)
+        : await supabase
+            .from("goal_presets")
+            .insert([{ ...values, doctor_id: user.id }]);
+
+      if (error) throw error;
+
+      setStatus("Preset saved successfully!");
+      setForm(null);
+      await loadPresets();
+    } catch (error) {
+      console.error("Error saving goal preset:", error);
+      setStatus("Failed to save the preset. Please check the values.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePreset = async (preset: GoalPreset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+
+    try {
+      setStatus("");
+      const { error } = await supabase
+        .from("goal_presets")
+        .delete()
+        .eq("id", preset.id);
+
+      if (error) throw error;
+
+      setStatus("Preset deleted successfully.");
+      if (appliedPreset?.id === preset.id) {
+        setAppliedPreset(null);
+      }
+      await loadPresets();
+    } catch (error) {
+      console.error("Error deleting goal preset:", error);
+      setStatus("Failed to delete the preset. Please try again.");
+    }
+  };
+
+  const buttonClass = `px-4 py-2 rounded-lg text-sm transition-colors ${
+    darkMode
+      ? "bg-gray-600 text-white hover:bg-gray-500"
+      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+  }`;
+  const inputClass = `w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  }`;
+  const labelClass = `block text-xs font-medium mb-1 ${
+    darkMode ? "text-gray-300" : "text-gray-700"
+  }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {[...BUILT_IN_PRESETS, ...presets].map((preset) => (
+          <button
+            key={preset.id}
+            type="button"
+            onClick={() => applyPreset(preset)}
+            title={preset.note || undefined}
+            className={`${buttonClass} ${
+              appliedPreset?.id === preset.id ? "ring-2 ring-brand-cyan" : ""
+            }`}
+          >
+            {preset.name} ({getPresetSummary(preset)})
+            {preset.doctor_id && preset.doctor_id !== user?.id && " · shared"}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => {
+            setManaging(!managing);
+            setForm(null);
+            setStatus("");
+          }}
+          className="px-4 py-2 rounded-lg text-sm text-brand-cyan hover:underline"
+        >
+          {managing ? "Done" : "Manage Presets"}
+        </button>
+      </div>
+
+      {appliedPreset &&
+        (appliedPreset.note ||
+          (appliedPreset.doctor_id &&
+            appliedPreset.doctor_id !== user?.id)) && (
+          <div
+            className={`p-3 rounded-lg text-sm ${
+              darkMode
+                ? "bg-gray-700 text-gray-300"
+                : "bg-gray-50 text-gray-700"
+            }`}
+          >
+            <span className="font-medium">{appliedPreset.name}</span>
+            {appliedPreset.doctor_name &&
+              appliedPreset.doctor_id !== user?.id &&
+              ` · shared by Dr. ${appliedPreset.doctor_name}`}
+            {appliedPreset.note && (
+              <p className="mt-1 whitespace-pre-line">{appliedPreset.note}</p>
+            )}
+          </div>
+        )}
+
+      {managing && (
+        <div
+          className={`p-4 rounded-lg space-y-3 ${
+            darkMode ? "bg-gray-700" : "bg-gray-50"
+          }`}
+        >
+          {ownPresets.length === 0 && !form && (
+            <p
+              className={`text-sm ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}
+            >
+              You have no presets of your own yet.
+            </p>
+          )}
+
+          {!form &&
+            ownPresets.map((preset) => (
+              <div
+                key={preset.id}
+                className={`flex justify-between items-center text-sm ${
+                  darkMode ? "text-gray-200" : "text-gray-800"
+                }`}
+              >
+                <span>
+                  {preset.name} ({getPresetSummary(preset)})
+                  {preset.is_shared && " · shared"}
+                </span>
+                <span className="space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => editPreset(preset)}
+                    className="text-xs text-brand-cyan hover:underline"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deletePreset(preset)}
+                    className="text-xs text-red-500 hover:text-red-700"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </div>
+            ))}
+
+          {form ? (
+            <form onSubmit={handleSave} className="space-y-3">
+              <div>
+                <label className={labelClass}>Preset Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  maxLength={100}
+                  placeholder="e.g. School term"
+                  className={inputClass}
+                  required
+                />
+              </div>
+
+              <label
+                className={`flex items-center space-x-2 text-sm ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={!!form.weekday_goal_minutes}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      weekday_goal_minutes: e.target.checked
+                        ? Array(7).fill(form.daily_goal_minutes)
+                        : null,
+                    })
+                  }
+                />
+                <span>Different daily target for each weekday</span>
+              </label>
+
+              {form.weekday_goal_minutes ? (
+                <WeekdayGoalInputs
+                  values={form.weekday_goal_minutes}
+                  onChange={(day, minutes) =>
+                    setForm({
+                      ...form,
+                      weekday_goal_minutes: form.weekday_goal_minutes!.map(
+                        (value, i) => (i === day ? minutes : value)
+                      ),
+                    })
+                  }
+                  darkMode={darkMode}
+                />
+              ) : (
+                <div>
+                  <label className={labelClass}>Daily Goal (minutes)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="1440"
+                    value={form.daily_goal_minutes}
+                    onChange={(e) =>
+                      setForm({
+                        ...form,
+                        daily_goal_minutes: parseInt(e.target.value) || 0,
+                      })
+                    }
+                    className={inputClass}
+                    required
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className={labelClass}>Weekly Goal (minutes)</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="10080"
+                  value={getFormWeeklyGoal(form)}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      weekly_goal_minutes: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  disabled={!!form.weekday_goal_minutes && form.derive_weekly}
+                  className={inputClass}
+                  required
+                />
+                {form.weekday_goal_minutes && (
+                  <label
+                    className={`flex items-center space-x-2 text-xs mt-1 ${
+                      darkMode ? "text-gray-400" : "text-gray-600"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={form.derive_weekly}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          derive_weekly: e.target.checked,
+                          weekly_goal_minutes: getFormWeeklyGoal(form),
+                        })
+                      }
+                    />
+                    <span>Sum of the weekday targets</span>
+                  </label>
+                )}
+              </div>
+
+              <div>
+                <label className={labelClass}>Note (optional)</label>
+                <textarea
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                  maxLength={1000}
+                  rows={2}
+                  placeholder="When to use this regimen"
+                  className={inputClass}
+                />
+              </div>
+
+              <label
+                className={`flex items-center space-x-2 text-sm ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={form.is_shared}
+                  onChange={(e) =>
+                    setForm({ ...form, is_shared: e.target.checked })
+                  }
+                />
+                <span>Share with other doctors</span>
+              </label>
+
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  disabled={saving}
+                  className={`${buttonClass} disabled:opacity-50`}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save Preset"}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              type="button"
+              onClick={() => {
+                setForm(emptyForm);
+                setStatus("");
+              }}
+              className="px-3 py-1 bg-brand-cyan text-white rounded-md hover:bg-brand-dark-blue transition-colors text-sm"
+            >
+              New Preset
+            </button>
+          )}
+        </div>
+      )}
+
+      {status && (
+        <div
+          className={`p-3 rounded-lg text-sm font-medium ${
+            status.includes("success")
+              ? darkMode
+                ? "bg-green-900 text-green-300 border border-green-700"
+                : "bg-green-50 text-green-800 border border-green-200"
+              : darkMode
+              ? "bg-red-900 text-red-300 border border-red-700"
+              : "bg-red-50 text-red-800 border border-red-200"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GoalPresetLibrary;
@@ -0,0 +1,144 @@
+import React from "react";
+import {
+  GoalVersion,
+  WEEKDAY_DISPLAY_ORDER,
+  WEEKDAY_NAMES,
+  getGoalForDate,
+} from "../utils/goals";
+import { getTherapyType } from "../utils/therapy";
+import { getLocalDateString, getToday } from "../utils/dates";
+
+interface GoalTimelineProps {
+  versions: GoalVersion[]; // Oldest first
+  darkMode: boolean;
+  showAcknowledgement?: boolean; // Doctor view: whether the patient saw each change
+}
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  if (mins === 0) return `${hours}h`;
+  return `${hours}h ${mins}m`;
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+
+// Goal changes, newest first, with the doctor who made each one and their reason
+const GoalTimeline: React.FC<GoalTimelineProps> = ({
+  versions,
+  darkMode,
+  showAcknowledgement = false,
+}) => {
+  const today = getToday();
+  const current = getGoalForDate(versions, today);
+
+  return (
+    <ol
+      className={`relative border-l-2 ml-2 space-y-4 ${
+        darkMode ? "border-gray-600" : "border-gray-200"
+      }`}
+    >
+      {[...versions].reverse().map((version) => {
+        const isCurrent = version.effective_from === current.effective_from;
+        const isUpcoming = version.effective_from > today;
+        return (
+          <li
+            key={version.id || version.effective_from}
+            className="relative ml-4"
+          >
+            <div
+              className={`absolute -left-[23px] top-1 w-3 h-3 rounded-full ${
+                isCurrent
+                  ? "bg-brand-cyan"
+                  : isUpcoming
+                  ? "bg-yellow-400"
+                  : darkMode
+                  ? "bg-gray-500"
+                  : "bg-gray-300"
+              }`}
+            ></div>
+            <div
+              className={`text-xs ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              From {formatDate(version.effective_from)}
+              {isCurrent && " · current"}
+              {isUpcoming && " · upcoming"}
+            </div>
+            <div
+              className={`text-sm font-medium ${
+                darkMode ? "text-gray-200" : "text-gray-800"
+              }`}
+            >
+              {version.weekday_goal_minutes ? "Daily avg" : "Daily"}{" "}
+              {formatTime(version.daily_goal_minutes)} · Weekly{" "}
+              {formatTime(version.weekly_goal_minutes)}
+              {version.therapy_type &&
+                ` · ${getTherapyType(version.therapy_type).label} only`}
+            </div>
+            {version.weekday_goal_minutes && (
+              <div
+                className={`text-xs ${
+                  darkMode ? "text-gray-300" : "text-gray-600"
+                }`}
+              >
+                {WEEKDAY_DISPLAY_ORDER.map(
+                  (day) =>
+                    `${WEEKDAY_NAMES[day]} ${formatTime(
+                      version.weekday_goal_minutes![day]
+                    )}`
+                ).join(" · ")}
+              </div>
+            )}
+            <div
+              className={`text-xs ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              {version.doctor_name
+                ? `Set by Dr. ${version.doctor_name}`
+                : "Default goal"}
+            </div>
+            {version.change_reason && (
+              <div
+                className={`text-xs italic ${
+                  darkMode ? "text-gray-300" : "text-gray-600"
+                }`}
+              >
+                "{version.change_reason}"
+              </div>
+            )}
+            {showAcknowledgement && version.change_notified && (
+              <div
+                className={`text-xs ${
+                  version.acknowledged_at
+                    ? darkMode
+                      ? "text-green-400"
+                      : "text-green-600"
+                    : darkMode
+                    ? "text-yellow-300"
+                    : "text-yellow-700"
+                }`}
+              >
+                {version.acknowledged_at
+                  ? `Acknowledged on ${formatDate(
+                      getLocalDateString(new Date(version.acknowledged_at))
+                    )}`
+                  : "Not yet acknowledged"}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default GoalTimeline;
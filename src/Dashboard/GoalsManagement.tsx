@@ -1,6 +1,40 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { supabase } from "../config/supabase";
 import { User } from "@supabase/supabase-js";
+import { TherapyType, getTherapyType } from "../utils/therapy";
+import { sanitizeError } from "../utils/security";
+import CsvImport from "./CsvImport";
+import GoalTimeline from "./GoalTimeline";
+import TreatmentProtocolEditor from "./TreatmentProtocolEditor";
+import GoalFormFields from "./GoalFormFields";
+import GoalPresetLibrary from "./GoalPresetLibrary";
+import BulkGoalAssignment from "./BulkGoalAssignment";
+import AdherenceFlag from "./AdherenceFlag";
+import AdherenceSettingsForm from "./AdherenceSettingsForm";
+import { applyGoalPreset } from "../utils/goalPresets";
+import {
+  GoalFormValues,
+  GoalVersion,
+  fetchGoalHistory,
+  getFormDailyGoal,
+  getFormWeeklyGoal,
+  getGoalForDate,
+  sumMinutes,
+} from "../utils/goals";
+import { getToday } from "../utils/dates";
+import {
+  ROSTER_GOAL_DAYS,
+  ROSTER_PAGE_SIZE,
+  ROSTER_SORT_OPTIONS,
+  RosterQuery,
+  RosterSort,
+  fetchPatientRoster,
+} from "../utils/roster";
+import {
+  invalidateAdherence,
+  invalidateGoals,
+  useAdherence,
+} from "../utils/dataCache";
 
 interface GoalsManagementProps {
   user: User | null;
@@ -14,11 +48,21 @@ interface Patient {
   email: string;
   current_daily_goal: number;
   current_weekly_goal: number;
+  current_weekday_goals: number[] | null; // Sunday first
+  current_therapy_type: TherapyType | null;
+  last_log_date: string | null;
+  week_minutes: number; // Toward the goal since the week started
+  goal_met_days: number; // Of the last ROSTER_GOAL_DAYS days
 }
 
-interface GoalUpdateForm {
-  daily_goal_minutes: number;
-  weekly_goal_minutes: number;
+interface BackfillRequest {
+  id: string;
+  patient_id: string;
+  patient_name: string | null; // Name and surname, or the email
+  start_date: string;
+  end_date: string;
+  reason: string;
+  created_at: string;
 }
 
 const GoalsManagement: React.FC<GoalsManagementProps> = ({
@@ -27,102 +71,99 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
 }) => {
   const [patients, setPatients] = useState<Patient[]>([]);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
-  const [goalForm, setGoalForm] = useState<GoalUpdateForm>({
+  const [goalForm, setGoalForm] = useState<GoalFormValues>({
     daily_goal_minutes: 240,
     weekly_goal_minutes: 1680,
+    weekday_goal_minutes: null,
+    derive_weekly: true,
+    therapy_type: null,
+    effective_from: getToday(),
+    reason: "",
   });
+  const [goalHistory, setGoalHistory] = useState<GoalVersion[]>([]);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
   const [status, setStatus] = useState("");
   const [showInviteModal, setShowInviteModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [bulkMode, setBulkMode] = useState(false);
+  const [bulkSelection, setBulkSelection] = useState<Set<string>>(new Set());
+  const [showBulkModal, setShowBulkModal] = useState(false);
+  const [bulkStatus, setBulkStatus] = useState("");
   const [inviteForm, setInviteForm] = useState({
     email: "",
     message: "",
   });
   const [sendingInvite, setSendingInvite] = useState(false);
+  const [backfillRequests, setBackfillRequests] = useState<BackfillRequest[]>(
+    []
+  );
+  const [reviewNotes, setReviewNotes] = useState<{ [id: string]: string }>({});
+  const [reviewingRequest, setReviewingRequest] = useState<string | null>(null);
+  const [backfillStatus, setBackfillStatus] = useState("");
+  const [showFlagSettings, setShowFlagSettings] = useState(false);
+  const [rosterQuery, setRosterQuery] = useState<RosterQuery>({
+    sort: "name",
+    ascending: true,
+    offset: 0,
+  });
+  const [rosterSearch, setRosterSearch] = useState("");
+  const [rosterTotal, setRosterTotal] = useState(0);
+  const { report: adherence, getAdherence } = useAdherence(user?.id);
 
   const fetchPatients = useCallback(async () => {
     if (!user) return;
 
     try {
-      setLoading(true);
-      // First, get the patient IDs for this doctor
-      const { data: accessData, error: accessError } = await supabase
-        .from("doctor_user_access")
-        .select("patient_id")
-        .eq("doctor_id", user.id);
-
-      if (accessError) throw accessError;
-
-      if (!accessData || accessData.length === 0) {
-        console.log("No patient access records found for doctor");
-        setPatients([]);
+      // One page of patients with their goals and recent activity
+      const roster = await fetchPatientRoster({
+        ...rosterQuery,
+        limit: ROSTER_PAGE_SIZE,
+      });
+
+      // The last page emptied, e.g. after removing its only patient
+      if (roster.patients.length === 0 && roster.offset > 0) {
+        setRosterQuery((current) => ({
+          ...current,
+          offset: Math.max(0, roster.offset - ROSTER_PAGE_SIZE),
+        }));
         return;
       }
 
-      const patientIds = accessData.map((access) => access.patient_id);
-
-      // Now fetch the user data for these patients
-      const { data: patientsData, error } = await supabase
-        .from("user_data")
-        .select(
-          `
-          user_id,
-          name,
-          surname,
-          email
-        `
-        )
-        .in("user_id", patientIds);
+      setRosterTotal(roster.total);
+      setPatients(
+        roster.patients.map((patient) => ({
+          user_id: patient.user_id,
+          name: patient.name,
+          surname: patient.surname,
+          email: patient.email,
+          current_daily_goal: patient.daily_goal_minutes,
+          current_weekly_goal: patient.weekly_goal_minutes,
+          current_weekday_goals: patient.weekday_goal_minutes,
+          current_therapy_type: patient.therapy_type,
+          last_log_date: patient.last_log_date,
+          week_minutes: patient.week_minutes,
+          goal_met_days: patient.goal_met_days,
+        }))
+      );
 
-      if (error) throw error;
+      // Backfill requests waiting for review, from patients on any page
+      const { data: requestsData, error: requestsError } = await supabase.rpc(
+        "get_pending_backfill_requests"
+      );
 
-      // Separately fetch goals for these patients
-      const { data: goalsData, error: goalsError } = await supabase
-        .from("user_goals")
-        .select(
-          `
-          user_id,
-          daily_goal_minutes,
-          weekly_goal_minutes
-        `
-        )
-        .in("user_id", patientIds);
-
-      if (goalsError) {
-        console.warn("Error fetching goals:", goalsError);
-        // Continue without goals data
+      if (requestsError) {
+        console.warn("Error fetching backfill requests:", requestsError);
       }
 
-      // Create a goals lookup map
-      const goalsMap = new Map();
-      goalsData?.forEach((goal: any) => {
-        goalsMap.set(goal.user_id, goal);
-      });
-
-      // Transform the data to match our Patient interface
-      const transformedPatients =
-        patientsData?.map((patient: any) => {
-          const goals = goalsMap.get(patient.user_id);
-          return {
-            user_id: patient.user_id,
-            name: patient.name || "",
-            surname: patient.surname || "",
-            email: patient.email || "",
-            current_daily_goal: goals?.daily_goal_minutes || 240,
-            current_weekly_goal: goals?.weekly_goal_minutes || 1680,
-          };
-        }) || [];
-
-      console.log("Transformed patients:", transformedPatients);
-      setPatients(transformedPatients);
+      setBackfillRequests(requestsData || []);
     } catch (error) {
       console.error("Error fetching patients:", error);
       setStatus("Error loading patients");
     } finally {
       setLoading(false);
     }
-  }, [user]);
+  }, [user, rosterQuery]);
 
   useEffect(() => {
     if (user) {
@@ -130,6 +171,23 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
     }
   }, [user, fetchPatients]);
 
+  // Selections only cover the page they were made on
+  const updateRosterQuery = useCallback((changes: RosterQuery) => {
+    setRosterQuery((current) => ({ ...current, ...changes }));
+    setBulkSelection(new Set());
+  }, []);
+
+  // Search once typing pauses
+  useEffect(() => {
+    if (rosterSearch === (rosterQuery.search || "")) return;
+
+    const timeout = setTimeout(
+      () => updateRosterQuery({ search: rosterSearch, offset: 0 }),
+      300
+    );
+    return () => clearTimeout(timeout);
+  }, [rosterSearch, rosterQuery.search, updateRosterQuery]);
+
   const sendInvitation = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !inviteForm.email.trim()) return;
@@ -172,6 +230,7 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
       if (error) throw error;
 
       setStatus("Patient access revoked successfully!");
+      invalidateAdherence(user.id);
       await fetchPatients(); // Refresh the patient list
 
       // Clear selected patient if it was the revoked one
@@ -184,13 +243,122 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
     }
   };
 
+  const reviewBackfillRequest = async (
+    request: BackfillRequest,
+    approve: boolean
+  ) => {
+    if (!user) return;
+
+    try {
+      setReviewingRequest(request.id);
+      setBackfillStatus("");
+
+      const { data, error } = await supabase.rpc("review_backfill_request", {
+        p_request_id: request.id,
+        p_approve: approve,
+        p_note: reviewNotes[request.id]?.trim() || null,
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        setBackfillStatus(`Error: ${sanitizeError(data)}`);
+        return;
+      }
+
+      setBackfillStatus(
+        approve
+          ? `Backfill approved successfully for ${request.start_date} to ${request.end_date}.`
+          : "Backfill request rejected successfully."
+      );
+      setBackfillRequests((current) =>
+        current.filter((item) => item.id !== request.id)
+      );
+    } catch (error) {
+      console.error("Error reviewing backfill request:", error);
+      setBackfillStatus("Failed to review backfill request. Please try again.");
+    } finally {
+      setReviewingRequest(null);
+    }
+  };
+
+  const toggleBulkSelection = (patientId: string) => {
+    const next = new Set(bulkSelection);
+    if (next.has(patientId)) {
+      next.delete(patientId);
+    } else {
+      next.add(patientId);
+    }
+    setBulkSelection(next);
+  };
+
+  const handleBulkSaved = async () => {
+    const count = bulkSelection.size;
+    setShowBulkModal(false);
+    setBulkMode(false);
+    setBulkSelection(new Set());
+    setBulkStatus(`Goals updated successfully for ${count} patients!`);
+    bulkSelection.forEach((patientId) => invalidateGoals(patientId));
+    await fetchPatients();
+    if (selectedPatient) {
+      await refreshPatientGoals(selectedPatient);
+    }
+  };
+
   const handlePatientSelect = (patient: Patient) => {
     setSelectedPatient(patient);
     setGoalForm({
       daily_goal_minutes: patient.current_daily_goal,
       weekly_goal_minutes: patient.current_weekly_goal,
+      weekday_goal_minutes: patient.current_weekday_goals,
+      derive_weekly:
+        !patient.current_weekday_goals ||
+        sumMinutes(patient.current_weekday_goals) ===
+          patient.current_weekly_goal,
+      therapy_type: patient.current_therapy_type,
+      effective_from: getToday(),
+      reason: "",
     });
     setStatus("");
+    loadGoalHistory(patient.user_id);
+  };
+
+  const loadGoalHistory = async (patientId: string): Promise<GoalVersion[]> => {
+    setGoalHistory([]);
+    try {
+      const versions = await fetchGoalHistory(patientId);
+      setGoalHistory(versions);
+      return versions;
+    } catch (error) {
+      console.error("Error fetching goal history:", error);
+      return [];
+    }
+  };
+
+  // A backdated version may be superseded by a later one, so the current goals
+  // come from the refreshed history
+  const refreshPatientGoals = async (patient: Patient) => {
+    invalidateGoals(patient.user_id);
+    const versions = await loadGoalHistory(patient.user_id);
+    if (versions.length === 0) return;
+
+    const current = getGoalForDate(versions);
+    const currentGoals = {
+      current_daily_goal: current.daily_goal_minutes,
+      current_weekly_goal: current.weekly_goal_minutes,
+      current_weekday_goals: current.weekday_goal_minutes || null,
+      current_therapy_type: current.therapy_type,
+    };
+
+    // Update the patient in our local state
+    setPatients((currentPatients) =>
+      currentPatients.map((item) =>
+        item.user_id === patient.user_id ? { ...item, ...currentGoals } : item
+      )
+    );
+
+    // Update selected patient
+    setSelectedPatient({ ...patient, ...currentGoals });
   };
 
   const handleGoalUpdate = async (e: React.FormEvent) => {
@@ -201,42 +369,32 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
       setUpdating(true);
       setStatus("");
 
-      // Update or insert user goals
-      const { error } = await supabase.from("user_goals").upsert(
-        {
-          user_id: selectedPatient.user_id,
-          daily_goal_minutes: goalForm.daily_goal_minutes,
-          weekly_goal_minutes: goalForm.weekly_goal_minutes,
-          set_by_doctor_id: user.id,
-        },
-        {
-          onConflict: "user_id",
-        }
-      );
+      // Adds a goal version; earlier days keep the goal they had
+      const { data, error } = await supabase.rpc("set_user_goal", {
+        p_user_id: selectedPatient.user_id,
+        p_daily_goal_minutes: getFormDailyGoal(goalForm),
+        p_weekly_goal_minutes: getFormWeeklyGoal(goalForm),
+        p_therapy_type: goalForm.therapy_type,
+        p_effective_from: goalForm.effective_from,
+        p_weekday_goal_minutes: goalForm.weekday_goal_minutes,
+        p_reason: goalForm.reason.trim() || null,
+      });
 
       if (error) throw error;
 
-      setStatus("Goals updated successfully!");
+      if (!data.success) {
+        setStatus(`Error: ${sanitizeError(data)}`);
+        return;
+      }
 
-      // Update the patient in our local state
-      setPatients(
-        patients.map((patient) =>
-          patient.user_id === selectedPatient.user_id
-            ? {
-                ...patient,
-                current_daily_goal: goalForm.daily_goal_minutes,
-                current_weekly_goal: goalForm.weekly_goal_minutes,
-              }
-            : patient
-        )
+      setStatus(
+        goalForm.effective_from > getToday()
+          ? `Goals scheduled successfully from ${goalForm.effective_from}.`
+          : "Goals updated successfully!"
       );
+      setGoalForm({ ...goalForm, reason: "" });
 
-      // Update selected patient
-      setSelectedPatient({
-        ...selectedPatient,
-        current_daily_goal: goalForm.daily_goal_minutes,
-        current_weekly_goal: goalForm.weekly_goal_minutes,
-      });
+      await refreshPatientGoals(selectedPatient);
     } catch (error) {
       console.error("Error updating goals:", error);
       setStatus("Failed to update goals. Please try again.");
@@ -251,6 +409,29 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
     return `${hours}h ${mins}m`;
   };
 
+  const formatDailyGoal = (patient: Patient) => {
+    if (!patient.current_weekday_goals) {
+      return formatTime(patient.current_daily_goal);
+    }
+    const min = Math.min(...patient.current_weekday_goals);
+    const max = Math.max(...patient.current_weekday_goals);
+    return min === max
+      ? formatTime(min)
+      : `${formatTime(min)} - ${formatTime(max)}`;
+  };
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+
+  // Counted over every patient, not only the page shown
+  const flaggedCount =
+    adherence?.patients.filter((patient) => patient.flag_reasons.length)
+      .length || 0;
+  const rosterOffset = rosterQuery.offset || 0;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -289,35 +470,190 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
                 darkMode ? "text-white" : "text-gray-900"
               }`}
             >
-              Your Patients ({patients.length})
+              Your Patients ({rosterTotal})
             </h3>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setShowFlagSettings(!showFlagSettings)}
+                className={`px-3 py-1 rounded-md transition-colors text-sm ${
+                  darkMode
+                    ? "bg-gray-600 text-white hover:bg-gray-500"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                {showFlagSettings ? "Hide Flag Settings" : "Flag Settings"}
+              </button>
+              {patients.length > 1 && (
+                <button
+                  onClick={() => {
+                    setBulkMode(!bulkMode);
+                    setBulkSelection(new Set());
+                    setBulkStatus("");
+                  }}
+                  className={`px-3 py-1 rounded-md transition-colors text-sm ${
+                    darkMode
+                      ? "bg-gray-600 text-white hover:bg-gray-500"
+                      : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  {bulkMode ? "Cancel Selection" : "Select Multiple"}
+                </button>
+              )}
+              <button
+                onClick={() => setShowInviteModal(true)}
+                className="px-3 py-1 bg-brand-cyan text-white rounded-md hover:bg-brand-dark-blue transition-colors text-sm"
+              >
+                Invite Patient
+              </button>
+            </div>
+          </div>
+
+          {showFlagSettings && (
+            <AdherenceSettingsForm
+              user={user}
+              darkMode={darkMode}
+              settings={adherence}
+            />
+          )}
+
+          {flaggedCount > 0 && (
+            <div
+              className={`mb-4 p-3 rounded-lg text-sm font-medium ${
+                darkMode
+                  ? "bg-red-900 text-red-300 border border-red-700"
+                  : "bg-red-50 text-red-800 border border-red-200"
+              }`}
+            >
+              {flaggedCount} of {adherence?.patients.length} patients flagged as
+              at risk over the last {adherence?.window_days} days
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            <input
+              type="search"
+              value={rosterSearch}
+              onChange={(e) => setRosterSearch(e.target.value)}
+              placeholder="Search by name or email"
+              aria-label="Search patients"
+              className={`flex-1 min-w-[10rem] px-3 py-1 rounded-md border text-sm ${
+                darkMode
+                  ? "bg-gray-700 border-gray-600 text-white"
+                  : "bg-white border-gray-300 text-gray-900"
+              }`}
+            />
+            <select
+              value={rosterQuery.sort}
+              onChange={(e) =>
+                updateRosterQuery({
+                  sort: e.target.value as RosterSort,
+                  offset: 0,
+                })
+              }
+              aria-label="Sort patients by"
+              className={`px-3 py-1 rounded-md border text-sm ${
+                darkMode
+                  ? "bg-gray-700 border-gray-600 text-white"
+                  : "bg-white border-gray-300 text-gray-900"
+              }`}
+            >
+              {ROSTER_SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
             <button
-              onClick={() => setShowInviteModal(true)}
-              className="px-3 py-1 bg-brand-cyan text-white rounded-md hover:bg-brand-dark-blue transition-colors text-sm"
+              onClick={() =>
+                updateRosterQuery({
+                  ascending: !rosterQuery.ascending,
+                  offset: 0,
+                })
+              }
+              aria-label={
+                rosterQuery.ascending ? "Sort descending" : "Sort ascending"
+              }
+              className={`px-3 py-1 rounded-md transition-colors text-sm ${
+                darkMode
+                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
             >
-              Invite Patient
+              {rosterQuery.ascending ? "↑" : "↓"}
             </button>
           </div>
 
+          {bulkMode && (
+            <div className="flex justify-between items-center mb-4">
+              <button
+                onClick={() =>
+                  setBulkSelection(
+                    bulkSelection.size === patients.length
+                      ? new Set()
+                      : new Set(patients.map((patient) => patient.user_id))
+                  )
+                }
+                className="text-sm text-brand-cyan hover:underline"
+              >
+                {bulkSelection.size === patients.length
+                  ? "Clear All"
+                  : "Select All"}
+              </button>
+              <button
+                onClick={() => setShowBulkModal(true)}
+                disabled={bulkSelection.size === 0}
+                className="px-3 py-1 bg-brand-cyan text-white rounded-md hover:bg-brand-dark-blue transition-colors text-sm disabled:opacity-50"
+              >
+                Set Goals for {bulkSelection.size} Patients
+              </button>
+            </div>
+          )}
+
+          {bulkStatus && (
+            <div
+              className={`mb-4 p-3 rounded-lg text-sm font-medium ${
+                darkMode
+                  ? "bg-green-900 text-green-300 border border-green-700"
+                  : "bg-green-50 text-green-800 border border-green-200"
+              }`}
+            >
+              {bulkStatus}
+            </div>
+          )}
+
           {patients.length === 0 ? (
             <div
               className={`text-center py-8 ${
                 darkMode ? "text-gray-400" : "text-gray-500"
               }`}
             >
-              <p>No patients assigned to you yet.</p>
-              <p className="text-sm mt-2">
-                Click "Add Patient" to assign patients to your care.
-              </p>
+              {rosterQuery.search ? (
+                <p>No patients match "{rosterQuery.search}".</p>
+              ) : (
+                <>
+                  <p>No patients assigned to you yet.</p>
+                  <p className="text-sm mt-2">
+                    Click "Add Patient" to assign patients to your care.
+                  </p>
+                </>
+              )}
             </div>
           ) : (
             <div className="space-y-3">
               {patients.map((patient) => (
                 <div
                   key={patient.user_id}
-                  onClick={() => handlePatientSelect(patient)}
+                  onClick={() =>
+                    bulkMode
+                      ? toggleBulkSelection(patient.user_id)
+                      : handlePatientSelect(patient)
+                  }
                   className={`p-4 rounded-lg cursor-pointer transition-all ${
-                    selectedPatient?.user_id === patient.user_id
+                    (
+                      bulkMode
+                        ? bulkSelection.has(patient.user_id)
+                        : selectedPatient?.user_id === patient.user_id
+                    )
                       ? darkMode
                         ? "bg-blue-900 border-blue-400"
                         : "bg-blue-50 border-blue-300"
@@ -333,6 +669,15 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
                           darkMode ? "text-white" : "text-gray-900"
                         }`}
                       >
+                        {bulkMode && (
+                          <input
+                            type="checkbox"
+                            checked={bulkSelection.has(patient.user_id)}
+                            readOnly
+                            className="mr-2"
+                            aria-label="Select patient"
+                          />
+                        )}
                         {patient.name && patient.surname
                           ? `${patient.name} ${patient.surname}`
                           : "Unnamed Patient"}
@@ -344,6 +689,22 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
                       >
                         {patient.email}
                       </p>
+                      <p
+                        className={`text-xs mt-1 ${
+                          darkMode ? "text-gray-400" : "text-gray-500"
+                        }`}
+                      >
+                        {patient.last_log_date
+                          ? `Last entry ${formatDate(patient.last_log_date)}`
+                          : "No entries yet"}
+                        {` · This week ${formatTime(patient.week_minutes)}`}
+                        {` · Goal met ${patient.goal_met_days}/${ROSTER_GOAL_DAYS} days`}
+                      </p>
+                      <AdherenceFlag
+                        adherence={getAdherence(patient.user_id)}
+                        settings={adherence}
+                        darkMode={darkMode}
+                      />
                     </div>
                     <div className="text-right">
                       <div
@@ -358,7 +719,7 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
                           darkMode ? "text-gray-300" : "text-gray-700"
                         }`}
                       >
-                        Daily: {formatTime(patient.current_daily_goal)}
+                        Daily: {formatDailyGoal(patient)}
                       </div>
                       <div
                         className={`text-sm font-medium mb-2 ${
@@ -367,6 +728,16 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
                       >
                         Weekly: {formatTime(patient.current_weekly_goal)}
                       </div>
+                      {patient.current_therapy_type && (
+                        <div
+                          className={`text-xs mb-2 ${
+                            darkMode ? "text-gray-400" : "text-gray-500"
+                          }`}
+                        >
+                          {getTherapyType(patient.current_therapy_type).label}{" "}
+                          only
+                        </div>
+                      )}
                       <button
                         onClick={(e) => {
                           e.stopPropagation(); // Prevent patient selection
@@ -388,6 +759,39 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
               ))}
             </div>
           )}
+
+          {rosterTotal > ROSTER_PAGE_SIZE && (
+            <div
+              className={`flex justify-between items-center mt-4 text-sm ${
+                darkMode ? "text-gray-300" : "text-gray-700"
+              }`}
+            >
+              <button
+                onClick={() =>
+                  updateRosterQuery({
+                    offset: Math.max(0, rosterOffset - ROSTER_PAGE_SIZE),
+                  })
+                }
+                disabled={rosterOffset === 0}
+                className="px-3 py-1 rounded-md text-brand-cyan hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                Previous
+              </button>
+              <span>
+                {rosterOffset + 1}–{rosterOffset + patients.length} of{" "}
+                {rosterTotal}
+              </span>
+              <button
+                onClick={() =>
+                  updateRosterQuery({ offset: rosterOffset + ROSTER_PAGE_SIZE })
+                }
+                disabled={rosterOffset + ROSTER_PAGE_SIZE >= rosterTotal}
+                className="px-3 py-1 rounded-md text-brand-cyan hover:underline disabled:opacity-50 disabled:no-underline"
+              >
+                Next
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Goal Setting Form */}
@@ -430,133 +834,38 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
                 >
                   {selectedPatient.email}
                 </p>
+                <button
+                  type="button"
+                  onClick={() => setShowImportModal(true)}
+                  className="mt-3 px-3 py-1 bg-brand-cyan text-white rounded-md hover:bg-brand-dark-blue transition-colors text-sm"
+                >
+                  Import Paper Diary
+                </button>
               </div>
 
-              <form onSubmit={handleGoalUpdate} className="space-y-4">
-                <div>
-                  <label
-                    className={`block text-sm font-medium mb-2 ${
-                      darkMode ? "text-gray-300" : "text-gray-700"
-                    }`}
-                  >
-                    Daily Goal (minutes)
-                  </label>
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="number"
-                      min="1"
-                      max="1440"
-                      value={goalForm.daily_goal_minutes}
-                      onChange={(e) =>
-                        setGoalForm({
-                          ...goalForm,
-                          daily_goal_minutes: parseInt(e.target.value) || 0,
-                        })
-                      }
-                      className={`flex-1 px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
-                        darkMode
-                          ? "bg-gray-700 border-gray-600 text-white"
-                          : "border-gray-300"
-                      }`}
-                      required
-                    />
-                    <span
-                      className={`text-sm ${
-                        darkMode ? "text-gray-400" : "text-gray-600"
-                      }`}
-                    >
-                      ({formatTime(goalForm.daily_goal_minutes)})
-                    </span>
-                  </div>
-                </div>
-
-                <div>
-                  <label
-                    className={`block text-sm font-medium mb-2 ${
-                      darkMode ? "text-gray-300" : "text-gray-700"
-                    }`}
-                  >
-                    Weekly Goal (minutes)
-                  </label>
-                  <div className="flex items-center space-x-2">
-                    <input
-                      type="number"
-                      min="1"
-                      max="10080"
-                      value={goalForm.weekly_goal_minutes}
-                      onChange={(e) =>
-                        setGoalForm({
-                          ...goalForm,
-                          weekly_goal_minutes: parseInt(e.target.value) || 0,
-                        })
-                      }
-                      className={`flex-1 px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
-                        darkMode
-                          ? "bg-gray-700 border-gray-600 text-white"
-                          : "border-gray-300"
-                      }`}
-                      required
-                    />
-                    <span
-                      className={`text-sm ${
-                        darkMode ? "text-gray-400" : "text-gray-600"
-                      }`}
-                    >
-                      ({formatTime(goalForm.weekly_goal_minutes)})
-                    </span>
-                  </div>
-                </div>
+              <div className="mb-6">
+                <h4
+                  className={`text-md font-semibold mb-3 ${
+                    darkMode ? "text-gray-200" : "text-gray-800"
+                  }`}
+                >
+                  Presets
+                </h4>
+                <GoalPresetLibrary
+                  user={user}
+                  darkMode={darkMode}
+                  onApply={(preset) =>
+                    setGoalForm(applyGoalPreset(goalForm, preset))
+                  }
+                />
+              </div>
 
-                <div className="flex space-x-2">
-                  <button
-                    type="button"
-                    onClick={() =>
-                      setGoalForm({
-                        daily_goal_minutes: 240,
-                        weekly_goal_minutes: 1680,
-                      })
-                    }
-                    className={`px-4 py-2 rounded-lg text-sm transition-colors ${
-                      darkMode
-                        ? "bg-gray-600 text-white hover:bg-gray-500"
-                        : "bg-gray-200 text-gray-700 hover:bg-gray-300"
-                    }`}
-                  >
-                    Default (4h/28h)
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() =>
-                      setGoalForm({
-                        daily_goal_minutes: 180,
-                        weekly_goal_minutes: 1260,
-                      })
-                    }
-                    className={`px-4 py-2 rounded-lg text-sm transition-colors ${
-                      darkMode
-                        ? "bg-gray-600 text-white hover:bg-gray-500"
-                        : "bg-gray-200 text-gray-700 hover:bg-gray-300"
-                    }`}
-                  >
-                    Light (3h/21h)
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() =>
-                      setGoalForm({
-                        daily_goal_minutes: 300,
-                        weekly_goal_minutes: 2100,
-                      })
-                    }
-                    className={`px-4 py-2 rounded-lg text-sm transition-colors ${
-                      darkMode
-                        ? "bg-gray-600 text-white hover:bg-gray-500"
-                        : "bg-gray-200 text-gray-700 hover:bg-gray-300"
-                    }`}
-                  >
-                    Intensive (5h/35h)
-                  </button>
-                </div>
+              <form onSubmit={handleGoalUpdate} className="space-y-4">
+                <GoalFormFields
+                  values={goalForm}
+                  onChange={setGoalForm}
+                  darkMode={darkMode}
+                />
 
                 <button
                   type="submit"
@@ -582,6 +891,38 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
                   </div>
                 )}
               </form>
+
+              {goalHistory.length > 0 && (
+                <div className="mt-6">
+                  <h4
+                    className={`text-md font-semibold mb-3 ${
+                      darkMode ? "text-gray-200" : "text-gray-800"
+                    }`}
+                  >
+                    Goal History
+                  </h4>
+                  <GoalTimeline
+                    versions={goalHistory}
+                    darkMode={darkMode}
+                    showAcknowledgement
+                  />
+                </div>
+              )}
+
+              <div className="mt-6">
+                <h4
+                  className={`text-md font-semibold mb-3 ${
+                    darkMode ? "text-gray-200" : "text-gray-800"
+                  }`}
+                >
+                  Treatment Protocol
+                </h4>
+                <TreatmentProtocolEditor
+                  patientId={selectedPatient.user_id}
+                  darkMode={darkMode}
+                  onSaved={() => refreshPatientGoals(selectedPatient)}
+                />
+              </div>
             </div>
           ) : (
             <div
@@ -595,6 +936,125 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
         </div>
       </div>
 
+      {/* Backfill Requests */}
+      {(backfillRequests.length > 0 || backfillStatus) && (
+        <div
+          className={`rounded-lg p-6 ${
+            darkMode ? "bg-gray-800" : "bg-white"
+          } shadow-lg`}
+        >
+          <h3
+            className={`text-xl font-semibold mb-1 ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            Backfill Requests ({backfillRequests.length})
+          </h3>
+          <p
+            className={`text-sm mb-4 ${
+              darkMode ? "text-gray-400" : "text-gray-600"
+            }`}
+          >
+            Approving opens the dates for logging for 7 days. Entries added this
+            way are marked as backfilled.
+          </p>
+          {backfillStatus && (
+            <div
+              className={`p-3 mb-4 rounded-lg text-sm font-medium ${
+                backfillStatus.includes("success")
+                  ? darkMode
+                    ? "bg-green-900 text-green-300 border border-green-700"
+                    : "bg-green-50 text-green-800 border border-green-200"
+                  : darkMode
+                  ? "bg-red-900 text-red-300 border border-red-700"
+                  : "bg-red-50 text-red-800 border border-red-200"
+              }`}
+            >
+              {backfillStatus}
+            </div>
+          )}
+          <div className="space-y-3">
+            {backfillRequests.map((request) => (
+              <div
+                key={request.id}
+                className={`p-4 rounded-lg border-2 ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600"
+                    : "bg-gray-50 border-gray-200"
+                }`}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <div>
+                    <h4
+                      className={`font-semibold ${
+                        darkMode ? "text-white" : "text-gray-900"
+                      }`}
+                    >
+                      {request.patient_name || "Unknown Patient"}
+                    </h4>
+                    <p
+                      className={`text-sm ${
+                        darkMode ? "text-gray-300" : "text-gray-600"
+                      }`}
+                    >
+                      {request.start_date} to {request.end_date}
+                    </p>
+                  </div>
+                  <span
+                    className={`text-xs ${
+                      darkMode ? "text-gray-400" : "text-gray-500"
+                    }`}
+                  >
+                    Requested{" "}
+                    {new Date(request.created_at).toLocaleDateString()}
+                  </span>
+                </div>
+                <p
+                  className={`text-sm mb-3 ${
+                    darkMode ? "text-gray-300" : "text-gray-700"
+                  }`}
+                >
+                  {request.reason}
+                </p>
+                <div className="flex flex-col sm:flex-row sm:space-x-2 space-y-2 sm:space-y-0">
+                  <input
+                    type="text"
+                    value={reviewNotes[request.id] || ""}
+                    onChange={(e) =>
+                      setReviewNotes({
+                        ...reviewNotes,
+                        [request.id]: e.target.value,
+                      })
+                    }
+                    maxLength={500}
+                    placeholder="Note for the patient (optional)"
+                    className={`flex-1 px-3 py-2 border rounded-lg text-sm ${
+                      darkMode
+                        ? "bg-gray-600 border-gray-500 text-white placeholder-gray-400"
+                        : "border-gray-300 placeholder-gray-500"
+                    }`}
+                  />
+                  <button
+                    onClick={() => reviewBackfillRequest(request, true)}
+                    disabled={reviewingRequest === request.id}
+                    className="px-3 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => reviewBackfillRequest(request, false)}
+                    disabled={reviewingRequest === request.id}
+                    className="px-3 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick Stats */}
       {patients.length > 0 && (
         <div
@@ -620,7 +1080,7 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
                   darkMode ? "text-white" : "text-gray-900"
                 }`}
               >
-                {patients.length}
+                {rosterTotal}
               </div>
               <div
                 className={`text-sm ${
@@ -683,6 +1143,103 @@ const GoalsManagement: React.FC<GoalsManagementProps> = ({
               </div>
             </div>
           </div>
+          {rosterTotal > patients.length && (
+            <p
+              className={`text-xs mt-2 ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              Averages cover the {patients.length} patients shown.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Diary Import Modal */}
+      {showImportModal && selectedPatient && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={() => setShowImportModal(false)}
+        >
+          <div
+            className={`p-6 rounded-lg max-w-2xl w-full mx-4 ${
+              darkMode ? "bg-gray-800" : "bg-white"
+            }`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-4">
+              <h3
+                className={`text-xl font-semibold ${
+                  darkMode ? "text-white" : "text-gray-900"
+                }`}
+              >
+                Import Paper Diary
+              </h3>
+              <button
+                onClick={() => setShowImportModal(false)}
+                className={`text-2xl ${
+                  darkMode
+                    ? "text-gray-400 hover:text-white"
+                    : "text-gray-600 hover:text-gray-900"
+                }`}
+              >
+                ×
+              </button>
+            </div>
+            <CsvImport
+              user={user}
+              darkMode={darkMode}
+              patientId={selectedPatient.user_id}
+              patientName={
+                selectedPatient.name && selectedPatient.surname
+                  ? `${selectedPatient.name} ${selectedPatient.surname}`
+                  : selectedPatient.email
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      {showBulkModal && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+          onClick={() => setShowBulkModal(false)}
+        >
+          <div
+            className={`p-6 rounded-lg max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto ${
+              darkMode ? "bg-gray-800" : "bg-white"
+            }`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-center mb-4">
+              <h3
+                className={`text-xl font-semibold ${
+                  darkMode ? "text-white" : "text-gray-900"
+                }`}
+              >
+                Set Goals for {bulkSelection.size} Patients
+              </h3>
+              <button
+                onClick={() => setShowBulkModal(false)}
+                className={`text-2xl ${
+                  darkMode
+                    ? "text-gray-400 hover:text-white"
+                    : "text-gray-600 hover:text-gray-900"
+                }`}
+              >
+                ×
+              </button>
+            </div>
+            <BulkGoalAssignment
+              user={user}
+              darkMode={darkMode}
+              patients={patients.filter((patient) =>
+                bulkSelection.has(patient.user_id)
+              )}
+              onSaved={handleBulkSaved}
+              onCancel={() => setShowBulkModal(false)}
+            />
+          </div>
         </div>
       )}
 
@@ -1,6 +1,31 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { supabase } from "../config/supabase";
 import { User } from "@supabase/supabase-js";
+import SessionTimer, { CompletedSession } from "./SessionTimer";
+import { toLocalTimestamp, getToday } from "../utils/dates";
+import { sanitizeError } from "../utils/security";
+import {
+  PendingLog,
+  createClientId,
+  isNetworkError,
+  queuePendingLog,
+} from "../utils/offlineQueue";
+import {
+  EYE_OPTIONS,
+  Eye,
+  THERAPY_TYPES,
+  TherapyType,
+  getTherapyType,
+} from "../utils/therapy";
+import {
+  OpenBackfill,
+  fetchOpenBackfills,
+  getEarliestLoggableDate,
+  getTimeRangeMinutes,
+  isInBackfillRange,
+  validateLogEntry,
+} from "../utils/logValidation";
+import { invalidateDailyLogs } from "../utils/dataCache";
 
 interface LogEntryProps {
   user: User | null;
@@ -10,127 +35,226 @@ interface LogEntryProps {
 
 interface LogForm {
   date: string;
+  entryMode: "duration" | "timeRange";
   hours: number;
   minutes: number;
+  startTime: string;
+  endTime: string;
+  therapyType: TherapyType;
+  eye: Eye | "";
   notes: string;
 }
 
-const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
-  // Helper function to get local date string without timezone shift
-  const getLocalDateString = (date: Date = new Date()) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
-  };
+interface SessionRange {
+  startedAt: string;
+  endedAt: string;
+}
 
-  const [logForm, setLogForm] = useState<LogForm>({
-    date: getLocalDateString(),
-    hours: 0,
-    minutes: 0,
-    notes: "",
-  });
-  const [loading, setLoading] = useState(false);
-  const [status, setStatus] = useState("");
+// Entry mode and therapy selection carry over between entries
+const getEmptyLogForm = (previous?: LogForm): LogForm => ({
+  date: getToday(),
+  entryMode: previous?.entryMode || "duration",
+  hours: 0,
+  minutes: 0,
+  startTime: "",
+  endTime: "",
+  therapyType: previous?.therapyType || "patching",
+  eye: previous?.eye || "",
+  notes: "",
+});
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!user) return;
+// Duration entered in the form, from either hours/minutes or the time range
+const getFormMinutes = (form: LogForm) =>
+  form.entryMode === "timeRange"
+    ? getTimeRangeMinutes(form.startTime, form.endTime)
+    : form.hours * 60 + form.minutes;
 
-    const totalMinutes = logForm.hours * 60 + logForm.minutes;
+const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
+  const [logForm, setLogForm] = useState<LogForm>(getEmptyLogForm());
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState("");
+  const [openBackfills, setOpenBackfills] = useState<OpenBackfill[]>([]);
 
-    // Safety validations
-    if (totalMinutes < 30) {
-      setStatus("Minimum session duration is 30 minutes for safety reasons.");
+  // Dates the doctor opened beyond the 5-day window
+  useEffect(() => {
+    if (!user) {
+      setOpenBackfills([]);
       return;
     }
 
-    if (totalMinutes > 1440) {
-      setStatus("Time cannot exceed 24 hours in a day.");
-      return;
-    }
+    const loadOpenBackfills = async () => {
+      try {
+        setOpenBackfills(await fetchOpenBackfills(user.id));
+      } catch (error: any) {
+        // Only log in development, and not RLS policy errors during logout
+        if (process.env.NODE_ENV === "development" && error?.code !== "42501") {
+          console.error("Error fetching backfill approvals:", error);
+        }
+      }
+    };
 
-    // Check date is not more than 5 days ago
-    // Convert both dates to local date strings to avoid timezone issues
-    const selectedDateStr = logForm.date;
-    const todayStr = getLocalDateString();
-    const fiveDaysAgoStr = getLocalDateString(
-      new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
-    );
+    loadOpenBackfills();
+  }, [user]);
 
-    if (selectedDateStr < fiveDaysAgoStr) {
-      setStatus("You can only log activities for the last 5 days.");
-      return;
-    }
+  // Validates and saves one activity entry; returns true when it was saved
+  const saveLog = async (
+    date: string,
+    totalMinutes: number,
+    notes: string,
+    range?: SessionRange,
+    clientId: string = createClientId()
+  ): Promise<boolean> => {
+    if (!user) return false;
 
-    if (selectedDateStr > todayStr) {
-      setStatus("You cannot log activities for future dates.");
-      return;
+    // Safety validations
+    const validationError = validateLogEntry(date, totalMinutes, openBackfills);
+    if (validationError) {
+      setStatus(validationError);
+      return false;
     }
 
+    // The same client_id is sent on every retry so the entry is saved once
+    const entry: PendingLog = {
+      client_id: clientId,
+      user_id: user.id,
+      date,
+      time_spent_minutes: totalMinutes,
+      notes: notes ? notes.trim().substring(0, 1000) : null,
+      started_at: range?.startedAt ?? null,
+      ended_at: range?.endedAt ?? null,
+      therapy_type: logForm.therapyType,
+      eye:
+        getTherapyType(logForm.therapyType).usesEye && logForm.eye
+          ? logForm.eye
+          : null,
+      queued_at: new Date().toISOString(),
+    };
+
     try {
       setLoading(true);
       setStatus("");
 
-      // Check existing entries for this date (max 10 per day)
-      const { data: existingEntries, error: checkError } = await supabase
-        .from("daily_logs")
-        .select("id")
-        .eq("user_id", user.id)
-        .eq("date", logForm.date);
+      if (!navigator.onLine) {
+        return await queueOffline(entry);
+      }
 
-      if (checkError) throw checkError;
+      // The server re-checks every rule, including the per-day total
+      const { data, error } = await supabase.rpc("log_activity", {
+        p_date: entry.date,
+        p_minutes: entry.time_spent_minutes,
+        p_notes: entry.notes,
+        p_started_at: entry.started_at,
+        p_ended_at: entry.ended_at,
+        p_therapy_type: entry.therapy_type,
+        p_eye: entry.eye,
+        p_client_id: entry.client_id,
+      });
 
-      if (existingEntries && existingEntries.length >= 10) {
-        setStatus(
-          "Maximum of 10 activity entries per day allowed for safety reasons."
-        );
-        setLoading(false);
-        return;
+      if (error) {
+        // No answer from the server - keep the entry and retry later
+        if (isNetworkError(error)) {
+          return await queueOffline(entry);
+        }
+        throw error;
       }
 
-      // Always create new entry (no more updating existing ones)
-      const { error: insertError } = await supabase.from("daily_logs").insert([
-        {
-          user_id: user.id,
-          date: logForm.date,
-          time_spent_minutes: totalMinutes,
-          notes: logForm.notes ? logForm.notes.trim().substring(0, 1000) : null,
-        },
-      ]);
-
-      if (insertError) throw insertError;
+      if (!data.success) {
+        setStatus(sanitizeError(data));
+        return false;
+      }
 
-      const entryCount = (existingEntries?.length || 0) + 1;
       setStatus(
-        `Added activity entry ${entryCount} for ${
-          logForm.date
-        }. Duration: ${formatTime(totalMinutes)}`
+        `Added activity entry ${
+          data.entry_count
+        } for ${date}. Duration: ${formatTime(totalMinutes)}`
       );
 
-      // Reset form
-      setLogForm({
-        date: getLocalDateString(),
-        hours: 0,
-        minutes: 0,
-        notes: "",
-      });
+      // Calendar and statistics showing this date reload it
+      invalidateDailyLogs(user.id, date);
 
       // Call callback if provided
       if (onLogAdded) {
         onLogAdded();
       }
+
+      return true;
     } catch (error) {
+      if (isNetworkError(error)) {
+        return await queueOffline(entry);
+      }
       // Only log detailed errors in development
       if (process.env.NODE_ENV === "development") {
         console.error("Error saving log:", error);
       }
       setStatus("Failed to save log. Please try again.");
+      return false;
     } finally {
       setLoading(false);
     }
   };
 
+  const queueOffline = async (entry: PendingLog): Promise<boolean> => {
+    try {
+      await queuePendingLog(entry);
+      setStatus(
+        `Saved offline for ${entry.date} (${formatTime(
+          entry.time_spent_minutes
+        )}). It will sync automatically when you're back online.`
+      );
+      return true;
+    } catch (error) {
+      if (process.env.NODE_ENV === "development") {
+        console.error("Error queueing log offline:", error);
+      }
+      setStatus("Failed to save log. Please try again.");
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const totalMinutes = getFormMinutes(logForm);
+    let range: SessionRange | undefined;
+    if (logForm.entryMode === "timeRange") {
+      if (getTimeRangeMinutes(logForm.startTime, logForm.endTime) <= 0) {
+        setStatus("End time must be after start time.");
+        return;
+      }
+      range = {
+        startedAt: toLocalTimestamp(logForm.date, logForm.startTime),
+        endedAt: toLocalTimestamp(logForm.date, logForm.endTime),
+      };
+    }
+
+    const saved = await saveLog(
+      logForm.date,
+      totalMinutes,
+      logForm.notes,
+      range
+    );
+
+    if (saved) {
+      // Reset form, keeping the chosen entry mode and therapy
+      setLogForm(getEmptyLogForm(logForm));
+    }
+  };
+
+  // Timer sessions go through the same validations as manual entries
+  const handleSessionComplete = async (session: CompletedSession) => {
+    const saved = await saveLog(
+      session.date,
+      session.minutes,
+      logForm.notes,
+      { startedAt: session.startedAt, endedAt: session.endedAt },
+      session.clientId
+    );
+    if (saved) {
+      setLogForm((form) => ({ ...form, notes: "" }));
+    }
+    return saved;
+  };
+
   const formatTime = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
@@ -147,7 +271,12 @@ const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
     });
   };
 
-  const totalMinutes = logForm.hours * 60 + logForm.minutes;
+  const totalMinutes = getFormMinutes(logForm);
+  const earliestDate = openBackfills.reduce(
+    (earliest, range) =>
+      range.start_date < earliest ? range.start_date : earliest,
+    getEarliestLoggableDate()
+  );
 
   return (
     <div
@@ -164,6 +293,13 @@ const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
       </h3>
 
       <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Live timer - saves through the same validations as the form */}
+        <SessionTimer
+          user={user}
+          darkMode={darkMode}
+          onSessionComplete={handleSessionComplete}
+        />
+
         <div>
           <label
             className={`block text-sm font-medium mb-2 ${
@@ -195,10 +331,8 @@ const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
               type="date"
               value={logForm.date}
               onChange={(e) => setLogForm({ ...logForm, date: e.target.value })}
-              min={getLocalDateString(
-                new Date(Date.now() - 5 * 24 * 60 * 60 * 1000)
-              )} // 5 days ago
-              max={getLocalDateString()} // Prevent future dates
+              min={earliestDate} // 5 days ago, or an approved backfill
+              max={getToday()} // Prevent future dates
               className={`w-full bg-transparent border-none outline-none text-inherit cursor-pointer ${
                 darkMode ? "text-white" : "text-gray-900"
               }`}
@@ -223,29 +357,49 @@ const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
               </svg>
             </div>
           </div>
+          {openBackfills.map((range) => (
+            <p
+              key={`${range.start_date}-${range.end_date}`}
+              className={`text-xs mt-1 ${
+                darkMode ? "text-gray-400" : "text-gray-500"
+              }`}
+            >
+              Backfill approved for {range.start_date} to {range.end_date} (open
+              until {new Date(range.expires_at).toLocaleDateString()})
+            </p>
+          ))}
+          {logForm.date < getEarliestLoggableDate() &&
+            isInBackfillRange(logForm.date, openBackfills) && (
+              <p
+                className={`text-xs mt-1 font-medium ${
+                  darkMode ? "text-yellow-300" : "text-yellow-700"
+                }`}
+              >
+                This entry will be marked as backfilled.
+              </p>
+            )}
         </div>
 
+        {/* Therapy Type and Eye */}
         <div className="grid grid-cols-2 gap-4">
-          <div>
+          <div
+            className={
+              getTherapyType(logForm.therapyType).usesEye ? "" : "col-span-2"
+            }
+          >
             <label
               className={`block text-sm font-medium mb-2 ${
                 darkMode ? "text-gray-300" : "text-gray-700"
               }`}
             >
-              Hours
+              Therapy
             </label>
-            <input
-              type="number"
-              min="0"
-              max="24"
-              value={logForm.hours}
+            <select
+              value={logForm.therapyType}
               onChange={(e) =>
                 setLogForm({
                   ...logForm,
-                  hours: Math.max(
-                    0,
-                    Math.min(24, parseInt(e.target.value) || 0)
-                  ),
+                  therapyType: e.target.value as TherapyType,
                 })
               }
               className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
@@ -253,39 +407,193 @@ const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
                   ? "bg-gray-700 border-gray-600 text-white"
                   : "border-gray-300"
               }`}
-            />
+            >
+              {THERAPY_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
           </div>
-          <div>
-            <label
-              className={`block text-sm font-medium mb-2 ${
-                darkMode ? "text-gray-300" : "text-gray-700"
+          {getTherapyType(logForm.therapyType).usesEye && (
+            <div>
+              <label
+                className={`block text-sm font-medium mb-2 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                Eye
+              </label>
+              <select
+                value={logForm.eye}
+                onChange={(e) =>
+                  setLogForm({ ...logForm, eye: e.target.value as Eye | "" })
+                }
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600 text-white"
+                    : "border-gray-300"
+                }`}
+              >
+                <option value="">Not specified</option>
+                {EYE_OPTIONS.map((eye) => (
+                  <option key={eye.value} value={eye.value}>
+                    {eye.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {/* Entry Mode */}
+        <div className="grid grid-cols-2 gap-2">
+          {(
+            [
+              ["duration", "Duration"],
+              ["timeRange", "Start & End Time"],
+            ] as const
+          ).map(([mode, label]) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setLogForm({ ...logForm, entryMode: mode })}
+              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                logForm.entryMode === mode
+                  ? "bg-brand-cyan text-white"
+                  : darkMode
+                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
               }`}
             >
-              Minutes
-            </label>
-            <input
-              type="number"
-              min="0"
-              max="50"
-              step="10"
-              value={logForm.minutes}
-              onChange={(e) => {
-                const value = parseInt(e.target.value) || 0;
-                // Round to nearest 10, max 50
-                const roundedValue = Math.min(50, Math.round(value / 10) * 10);
-                setLogForm({
-                  ...logForm,
-                  minutes: Math.max(0, roundedValue),
-                });
-              }}
-              className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
-                darkMode
-                  ? "bg-gray-700 border-gray-600 text-white"
-                  : "border-gray-300"
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {logForm.entryMode === "duration" ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                className={`block text-sm font-medium mb-2 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                Hours
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="24"
+                value={logForm.hours}
+                onChange={(e) =>
+                  setLogForm({
+                    ...logForm,
+                    hours: Math.max(
+                      0,
+                      Math.min(24, parseInt(e.target.value) || 0)
+                    ),
+                  })
+                }
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600 text-white"
+                    : "border-gray-300"
+                }`}
+              />
+            </div>
+            <div>
+              <label
+                className={`block text-sm font-medium mb-2 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                Minutes
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="50"
+                step="10"
+                value={logForm.minutes}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value) || 0;
+                  // Round to nearest 10, max 50
+                  const roundedValue = Math.min(
+                    50,
+                    Math.round(value / 10) * 10
+                  );
+                  setLogForm({
+                    ...logForm,
+                    minutes: Math.max(0, roundedValue),
+                  });
+                }}
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600 text-white"
+                    : "border-gray-300"
+                }`}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label
+                className={`block text-sm font-medium mb-2 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                Start Time
+              </label>
+              <input
+                type="time"
+                value={logForm.startTime}
+                onChange={(e) =>
+                  setLogForm({ ...logForm, startTime: e.target.value })
+                }
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600 text-white"
+                    : "border-gray-300"
+                }`}
+                required
+              />
+            </div>
+            <div>
+              <label
+                className={`block text-sm font-medium mb-2 ${
+                  darkMode ? "text-gray-300" : "text-gray-700"
+                }`}
+              >
+                End Time
+              </label>
+              <input
+                type="time"
+                value={logForm.endTime}
+                onChange={(e) =>
+                  setLogForm({ ...logForm, endTime: e.target.value })
+                }
+                className={`w-full px-4 py-3 border rounded-lg focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+                  darkMode
+                    ? "bg-gray-700 border-gray-600 text-white"
+                    : "border-gray-300"
+                }`}
+                required
+              />
+            </div>
+            <div
+              className={`col-span-2 text-xs ${
+                darkMode ? "text-gray-400" : "text-gray-500"
               }`}
-            />
+            >
+              {totalMinutes > 0
+                ? `Duration: ${formatTime(totalMinutes)}`
+                : "Enter when the session started and ended."}{" "}
+              Sessions that overlap another entry on the same day are rejected.
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Notes Field */}
         <div>
@@ -318,61 +626,63 @@ const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
         </div>
 
         {/* Quick Time Buttons */}
-        <div>
-          <label
-            className={`block text-sm font-medium mb-2 ${
-              darkMode ? "text-gray-300" : "text-gray-700"
-            }`}
-          >
-            Quick Select
-          </label>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            <button
-              type="button"
-              onClick={() => handleQuickTime(0, 30)}
-              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
-                darkMode
-                  ? "bg-gray-600 text-white hover:bg-gray-500"
-                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
-              }`}
-            >
-              30m
-            </button>
-            <button
-              type="button"
-              onClick={() => handleQuickTime(1)}
-              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
-                darkMode
-                  ? "bg-gray-600 text-white hover:bg-gray-500"
-                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
-              }`}
-            >
-              1h
-            </button>
-            <button
-              type="button"
-              onClick={() => handleQuickTime(2)}
-              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
-                darkMode
-                  ? "bg-gray-600 text-white hover:bg-gray-500"
-                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
-              }`}
-            >
-              2h
-            </button>
-            <button
-              type="button"
-              onClick={() => handleQuickTime(4)}
-              className={`px-3 py-2 rounded-lg text-sm transition-colors ${
-                darkMode
-                  ? "bg-gray-600 text-white hover:bg-gray-500"
-                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+        {logForm.entryMode === "duration" && (
+          <div>
+            <label
+              className={`block text-sm font-medium mb-2 ${
+                darkMode ? "text-gray-300" : "text-gray-700"
               }`}
             >
-              4h
-            </button>
+              Quick Select
+            </label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              <button
+                type="button"
+                onClick={() => handleQuickTime(0, 30)}
+                className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                  darkMode
+                    ? "bg-gray-600 text-white hover:bg-gray-500"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                30m
+              </button>
+              <button
+                type="button"
+                onClick={() => handleQuickTime(1)}
+                className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                  darkMode
+                    ? "bg-gray-600 text-white hover:bg-gray-500"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                1h
+              </button>
+              <button
+                type="button"
+                onClick={() => handleQuickTime(2)}
+                className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                  darkMode
+                    ? "bg-gray-600 text-white hover:bg-gray-500"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                2h
+              </button>
+              <button
+                type="button"
+                onClick={() => handleQuickTime(4)}
+                className={`px-3 py-2 rounded-lg text-sm transition-colors ${
+                  darkMode
+                    ? "bg-gray-600 text-white hover:bg-gray-500"
+                    : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+                }`}
+              >
+                4h
+              </button>
+            </div>
           </div>
-        </div>
+        )}
 
         <button
           type="submit"
@@ -389,6 +699,10 @@ const LogEntry: React.FC<LogEntryProps> = ({ user, darkMode, onLogAdded }) => {
                 ? darkMode
                   ? "bg-green-900 text-green-300 border border-green-700"
                   : "bg-green-50 text-green-800 border border-green-200"
+                : status.includes("Saved offline")
+                ? darkMode
+                  ? "bg-yellow-900 text-yellow-300 border border-yellow-700"
+                  : "bg-yellow-50 text-yellow-800 border border-yellow-200"
                 : darkMode
                 ? "bg-red-900 text-red-300 border border-red-700"
                 : "bg-red-50 text-red-800 border border-red-200"
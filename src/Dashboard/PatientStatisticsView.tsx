@@ -1,23 +1,26 @@
 import React, { useState, useEffect, useCallback, useMemo } from "react";
-import { supabase } from "../config/supabase";
 import { User } from "@supabase/supabase-js";
+import {
+  subscribeToPatientAccess,
+  subscribeToPatientData,
+} from "../utils/realtime";
+import { invalidateAdherence, useAdherence } from "../utils/dataCache";
+import { resolveWeekStart } from "../utils/dates";
+import {
+  PickerPatient,
+  fetchPatientNames,
+  matchesPatientSearch,
+} from "../utils/roster";
 import Statistics from "./Statistics";
+import AchievementsGallery from "./AchievementsGallery";
+import AdherenceFlag from "./AdherenceFlag";
 
 interface PatientStatisticsViewProps {
   user: User | null;
   darkMode: boolean;
 }
 
-interface Patient {
-  user_id: string;
-  name: string;
-  surname: string;
-  email: string;
-}
-
-// Cache for patient data to avoid refetching
-const patientsCache = new Map<string, { data: Patient[]; timestamp: number }>();
-const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+type Patient = PickerPatient;
 
 const PatientStatisticsView: React.FC<PatientStatisticsViewProps> = ({
   user,
@@ -26,91 +29,32 @@ const PatientStatisticsView: React.FC<PatientStatisticsViewProps> = ({
   const [patients, setPatients] = useState<Patient[]>([]);
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const { report: adherence, getAdherence } = useAdherence(user?.id);
 
-  // Optimized fetch function with caching and single query
-  // eslint-disable-next-line react-hooks/exhaustive-deps
+  // Only names are needed here, for every patient, sorted by name
   const fetchPatients = useCallback(async () => {
     if (!user) return;
 
-    // Check cache first
-    const cacheKey = user.id;
-    const cached = patientsCache.get(cacheKey);
-    const now = Date.now();
-
-    if (cached && now - cached.timestamp < CACHE_DURATION) {
-      setPatients(cached.data);
-      if (cached.data.length > 0 && !selectedPatient) {
-        setSelectedPatient(cached.data[0]);
-      }
-      setLoading(false);
-      return;
-    }
-
     try {
-      setLoading(true);
-
-      // Get patient IDs for this doctor
-      const { data: accessData, error: accessError } = await supabase
-        .from("doctor_user_access")
-        .select("patient_id")
-        .eq("doctor_id", user.id);
-
-      if (accessError) throw accessError;
-
-      if (!accessData || accessData.length === 0) {
-        setPatients([]);
-        // Cache empty result
-        patientsCache.set(cacheKey, {
-          data: [],
-          timestamp: now,
-        });
-        return;
-      }
-
-      const patientIds = accessData.map((access) => access.patient_id);
-
-      // Fetch user data for these patients
-      const { data: patientsData, error } = await supabase
-        .from("user_data")
-        .select(
-          `
-          user_id,
-          name,
-          surname,
-          email
-        `
-        )
-        .in("user_id", patientIds);
-
-      if (error) throw error;
-
-      const transformedPatients: Patient[] =
-        patientsData?.map((patient: any) => ({
-          user_id: patient.user_id,
-          name: patient.name || "",
-          surname: patient.surname || "",
-          email: patient.email || "",
-        })) || [];
-
-      // Cache the results
-      patientsCache.set(cacheKey, {
-        data: transformedPatients,
-        timestamp: now,
-      });
-
-      setPatients(transformedPatients);
+      const patientNames = await fetchPatientNames();
+      setPatients(patientNames);
 
       // Auto-select first patient if none selected
-      if (transformedPatients.length > 0 && !selectedPatient) {
-        setSelectedPatient(transformedPatients[0]);
-      }
+      setSelectedPatient((current) => current || patientNames[0] || null);
     } catch (error) {
       console.error("Error fetching patients:", error);
       setPatients([]);
     } finally {
       setLoading(false);
     }
-  }, [user]); // selectedPatient intentionally excluded to prevent re-fetch loops
+  }, [user]);
+
+  // The selector lists the patients matching the search
+  const matchingPatients = useMemo(
+    () => patients.filter((patient) => matchesPatientSearch(patient, search)),
+    [patients, search]
+  );
 
   useEffect(() => {
     if (user) {
@@ -118,6 +62,33 @@ const PatientStatisticsView: React.FC<PatientStatisticsViewProps> = ({
     }
   }, [user, fetchPatients]);
 
+  // Patients linked or unlinked while the view is open
+  useEffect(() => {
+    if (!user) return;
+
+    return subscribeToPatientAccess(user.id, () => {
+      invalidateAdherence(user.id);
+      fetchPatients();
+    });
+  }, [user, fetchPatients]);
+
+  // New entries and goal changes of the selected patient show up live
+  useEffect(() => {
+    if (!selectedPatient) return;
+
+    return subscribeToPatientData(selectedPatient.user_id);
+  }, [selectedPatient]);
+
+  // Select another patient when the selected one was unlinked
+  useEffect(() => {
+    if (
+      selectedPatient &&
+      !patients.some((p) => p.user_id === selectedPatient.user_id)
+    ) {
+      setSelectedPatient(patients[0] || null);
+    }
+  }, [patients, selectedPatient]);
+
   // Memoize patientAsUser to prevent unnecessary re-renders
   const patientAsUser = useMemo(() => {
     if (!selectedPatient || !user) return null;
@@ -140,6 +111,10 @@ const PatientStatisticsView: React.FC<PatientStatisticsViewProps> = ({
   );
   /* eslint-enable react-hooks/exhaustive-deps */
 
+  const flaggedCount = patients.filter(
+    (patient) => getAdherence(patient.user_id)?.flag_reasons.length
+  ).length;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -185,7 +160,19 @@ const PatientStatisticsView: React.FC<PatientStatisticsViewProps> = ({
         >
           Patient Statistics View
         </h2>
-        <div className="flex justify-center">
+        <div className="flex flex-wrap justify-center gap-2">
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or email"
+            aria-label="Search patients"
+            className={`px-4 py-2 rounded-lg border-2 focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+              darkMode
+                ? "bg-gray-700 border-gray-600 text-white"
+                : "bg-white border-gray-300 text-gray-900"
+            }`}
+          />
           <div className="relative">
             <select
               value={selectedPatient?.user_id || ""}
@@ -197,8 +184,11 @@ const PatientStatisticsView: React.FC<PatientStatisticsViewProps> = ({
               }`}
             >
               <option value="">Select a patient...</option>
-              {patients.map((patient) => (
+              {matchingPatients.map((patient) => (
                 <option key={patient.user_id} value={patient.user_id}>
+                  {getAdherence(patient.user_id)?.flag_reasons.length
+                    ? "⚠ "
+                    : ""}
                   {patient.name && patient.surname
                     ? `${patient.name} ${patient.surname} (${patient.email})`
                     : patient.email}
@@ -207,6 +197,25 @@ const PatientStatisticsView: React.FC<PatientStatisticsViewProps> = ({
             </select>
           </div>
         </div>
+        {search && matchingPatients.length === 0 && (
+          <p
+            className={`text-sm mt-2 ${
+              darkMode ? "text-gray-400" : "text-gray-500"
+            }`}
+          >
+            No patients match "{search.trim()}".
+          </p>
+        )}
+        {flaggedCount > 0 && (
+          <p
+            className={`text-sm mt-2 ${
+              darkMode ? "text-red-300" : "text-red-700"
+            }`}
+          >
+            ⚠ marks {flaggedCount} of {patients.length} patients flagged as at
+            risk
+          </p>
+        )}
       </div>
 
       {/* Statistics View */}
@@ -223,8 +232,22 @@ const PatientStatisticsView: React.FC<PatientStatisticsViewProps> = ({
                 ? `${selectedPatient.name} ${selectedPatient.surname}`
                 : selectedPatient.email}
             </h3>
+            <div className="inline-block text-left">
+              <AdherenceFlag
+                adherence={getAdherence(selectedPatient.user_id)}
+                settings={adherence}
+                darkMode={darkMode}
+              />
+            </div>
+          </div>
+          <Statistics
+            user={patientAsUser}
+            darkMode={darkMode}
+            weekStart={resolveWeekStart(selectedPatient.week_start)}
+          />
+          <div className="mt-6">
+            <AchievementsGallery user={patientAsUser} darkMode={darkMode} />
           </div>
-          <Statistics user={patientAsUser} darkMode={darkMode} />
         </div>
       )}
     </div>
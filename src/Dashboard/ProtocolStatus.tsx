@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from "react";
+import { User } from "@supabase/supabase-js";
+import { getTherapyType } from "../utils/therapy";
+import { getToday } from "../utils/dates";
+import {
+  TreatmentProtocol,
+  fetchActiveProtocol,
+  getPhaseLabel,
+  getProtocolStatus,
+} from "../utils/protocols";
+
+interface ProtocolStatusProps {
+  user: User | null;
+  darkMode: boolean;
+}
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins}m`;
+  if (mins === 0) return `${hours}h`;
+  return `${hours}h ${mins}m`;
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+// Shows patients the treatment phase they are in and the next goal change
+const ProtocolStatus: React.FC<ProtocolStatusProps> = ({ user, darkMode }) => {
+  const [protocol, setProtocol] = useState<TreatmentProtocol | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setProtocol(null);
+      return;
+    }
+
+    fetchActiveProtocol(user.id)
+      .then(setProtocol)
+      .catch((error) => {
+        // Don't log RLS policy errors during logout
+        if (error?.code !== "42501") {
+          console.error("Error fetching treatment protocol:", error);
+        }
+      });
+  }, [user]);
+
+  if (!protocol || protocol.phases.length === 0) return null;
+
+  const { current, next } = getProtocolStatus(protocol);
+  const today = getToday();
+  const daysUntilNext = next
+    ? Math.round(
+        (new Date(`${next.start_date}T00:00`).getTime() -
+          new Date(`${today}T00:00`).getTime()) /
+          (24 * 60 * 60 * 1000)
+      )
+    : 0;
+
+  return (
+    <div
+      className={`rounded-lg p-6 ${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } shadow-lg`}
+    >
+      <h3
+        className={`text-xl font-semibold mb-1 ${
+          darkMode ? "text-white" : "text-gray-900"
+        }`}
+      >
+        Treatment Plan
+      </h3>
+      <p
+        className={`text-sm mb-4 ${
+          darkMode ? "text-gray-400" : "text-gray-600"
+        }`}
+      >
+        {protocol.name}
+      </p>
+
+      {current ? (
+        <div
+          className={`p-4 rounded-lg mb-3 ${
+            darkMode ? "bg-blue-900 text-blue-100" : "bg-blue-50 text-blue-900"
+          }`}
+        >
+          <div className="text-xs uppercase tracking-wide opacity-75">
+            Phase {current.index + 1} of {protocol.phases.length}
+          </div>
+          <div className="text-lg font-semibold">{getPhaseLabel(current)}</div>
+          <div className="text-sm">
+            {formatTime(current.daily_goal_minutes)} a day ·{" "}
+            {formatTime(current.weekly_goal_minutes)} a week
+            {current.therapy_type &&
+              ` · ${getTherapyType(current.therapy_type).label}`}
+          </div>
+        </div>
+      ) : (
+        <p
+          className={`text-sm mb-3 ${
+            darkMode ? "text-gray-300" : "text-gray-700"
+          }`}
+        >
+          Your plan starts on {formatDate(protocol.start_date)}.
+        </p>
+      )}
+
+      {next ? (
+        <div
+          className={`text-sm ${darkMode ? "text-gray-300" : "text-gray-700"}`}
+        >
+          <span className="font-medium">Next change:</span>{" "}
+          {formatDate(next.start_date)}
+          {daysUntilNext === 1
+            ? " (tomorrow)"
+            : ` (in ${daysUntilNext} days)`}{" "}
+          → {getPhaseLabel(next)}, {formatTime(next.daily_goal_minutes)} a day
+        </div>
+      ) : (
+        <div
+          className={`text-sm ${darkMode ? "text-gray-400" : "text-gray-500"}`}
+        >
+          This is the last phase of your plan.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProtocolStatus;
@@ -0,0 +1,358 @@
+import React, { useState } from "react";
+import { supabase } from "../config/supabase";
+import { User } from "@supabase/supabase-js";
+import { sanitizeError } from "../utils/security";
+import { getToday } from "../utils/dates";
+import { invalidateRewards, useRewards } from "../utils/dataCache";
+import {
+  MAX_REWARD_GOAL_DAYS,
+  Reward,
+  buildStickerChartHtml,
+} from "../utils/rewards";
+
+interface RewardChartProps {
+  user: User | null;
+  darkMode: boolean;
+}
+
+const formatDate = (date: string) =>
+  new Date(date.length === 10 ? `${date}T00:00` : date).toLocaleDateString(
+    "en-US",
+    {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    }
+  );
+
+// Rewards parents set up for goal days, their progress and the claimed history
+const RewardChart: React.FC<RewardChartProps> = ({ user, darkMode }) => {
+  const { rewards, today, loading } = useRewards(user?.id);
+  const [title, setTitle] = useState("");
+  const [goalDays, setGoalDays] = useState(5);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+
+  const openRewards = rewards.filter((reward) => !reward.claimed_at);
+  const claimedRewards = rewards.filter((reward) => reward.claimed_at);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) {
+      setStatus("Please describe the reward.");
+      return;
+    }
+    if (goalDays < 1 || goalDays > MAX_REWARD_GOAL_DAYS) {
+      setStatus(
+        `A reward needs between 1 and ${MAX_REWARD_GOAL_DAYS} goal days.`
+      );
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setStatus("");
+
+      const { error } = await supabase.from("rewards").insert([
+        {
+          user_id: user.id,
+          title: trimmedTitle.substring(0, 100),
+          goal_days: goalDays,
+          starts_on: today || getToday(),
+        },
+      ]);
+
+      if (error) throw error;
+
+      setTitle("");
+      setStatus("Reward added successfully!");
+      invalidateRewards(user.id);
+    } catch (error) {
+      console.error("Error adding reward:", error);
+      setStatus("Failed to add the reward. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClaim = async (reward: Reward) => {
+    if (!user) return;
+
+    try {
+      setSaving(true);
+      setStatus("");
+
+      const { data, error } = await supabase.rpc("claim_reward", {
+        p_reward_id: reward.id,
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        setStatus(sanitizeError(data));
+        return;
+      }
+
+      setStatus(`Enjoy your reward: ${reward.title}! Claimed successfully.`);
+      invalidateRewards(user.id);
+    } catch (error) {
+      console.error("Error claiming reward:", error);
+      setStatus("Failed to claim the reward. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (reward: Reward) => {
+    if (!user) return;
+
+    if (!window.confirm(`Delete the reward "${reward.title}"?`)) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setStatus("");
+
+      const { error } = await supabase
+        .from("rewards")
+        .delete()
+        .eq("id", reward.id)
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      invalidateRewards(user.id);
+    } catch (error) {
+      console.error("Error deleting reward:", error);
+      setStatus("Failed to delete the reward. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Opens the chart in its own window so only the chart is printed
+  const handlePrint = () => {
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      setStatus("Please allow pop-ups to print the sticker chart.");
+      return;
+    }
+
+    printWindow.document.write(
+      buildStickerChartHtml(openRewards, formatDate(today || getToday()))
+    );
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  if (!user || (loading && rewards.length === 0)) return null;
+
+  const inputClass = `px-3 py-2 rounded-lg border-2 focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+    darkMode
+      ? "bg-gray-700 border-gray-600 text-white"
+      : "bg-white border-gray-300 text-gray-900"
+  }`;
+
+  return (
+    <div
+      className={`rounded-lg p-6 ${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } shadow-lg`}
+    >
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-1">
+        <h3
+          className={`text-xl font-semibold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Reward Chart
+        </h3>
+        <button
+          onClick={handlePrint}
+          disabled={openRewards.length === 0}
+          className={`px-3 py-1 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+            darkMode
+              ? "bg-gray-600 text-white hover:bg-gray-500"
+              : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+          }`}
+        >
+          Print Sticker Chart
+        </button>
+      </div>
+      <p
+        className={`text-sm mb-4 ${
+          darkMode ? "text-gray-400" : "text-gray-600"
+        }`}
+      >
+        Every day the daily goal is reached counts toward the rewards below.
+      </p>
+
+      {openRewards.length > 0 && (
+        <ul className="space-y-3 mb-4">
+          {openRewards.map((reward) => {
+            const unlocked = reward.goal_days_met >= reward.goal_days;
+            const percentage = Math.round(
+              (reward.goal_days_met / reward.goal_days) * 100
+            );
+            return (
+              <li
+                key={reward.id}
+                className={`p-4 rounded-lg ${
+                  unlocked
+                    ? darkMode
+                      ? "bg-green-900 text-green-100"
+                      : "bg-green-50 text-green-900"
+                    : darkMode
+                    ? "bg-gray-700 text-gray-200"
+                    : "bg-gray-50 text-gray-800"
+                }`}
+              >
+                <div className="flex justify-between items-start gap-2">
+                  <div>
+                    <div className="font-semibold">{reward.title}</div>
+                    <div className="text-sm opacity-75">
+                      {reward.goal_days_met} of {reward.goal_days} goal days
+                      {unlocked && reward.unlocked_on
+                        ? ` · unlocked ${formatDate(reward.unlocked_on)}`
+                        : ` · since ${formatDate(reward.starts_on)}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {unlocked && (
+                      <button
+                        onClick={() => handleClaim(reward)}
+                        disabled={saving}
+                        className="px-3 py-1 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold disabled:opacity-50"
+                      >
+                        Claim
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(reward)}
+                      disabled={saving}
+                      aria-label={`Delete ${reward.title}`}
+                      className="text-xl opacity-60 hover:opacity-100 disabled:opacity-30"
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+                <div
+                  className={`h-2 rounded-full overflow-hidden mt-2 ${
+                    darkMode ? "bg-gray-600" : "bg-gray-200"
+                  }`}
+                >
+                  <div
+                    className={`h-2 ${
+                      unlocked ? "bg-green-500" : "bg-brand-cyan"
+                    }`}
+                    style={{ width: `${percentage}%` }}
+                  ></div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2 items-end">
+        <div className="flex-1 min-w-[12rem]">
+          <label
+            className={`block text-sm font-medium mb-1 ${
+              darkMode ? "text-gray-300" : "text-gray-700"
+            }`}
+          >
+            Reward
+          </label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={100}
+            placeholder="Trip to the zoo"
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+        <div>
+          <label
+            className={`block text-sm font-medium mb-1 ${
+              darkMode ? "text-gray-300" : "text-gray-700"
+            }`}
+          >
+            Goal Days
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={MAX_REWARD_GOAL_DAYS}
+            value={goalDays}
+            onChange={(e) => setGoalDays(parseInt(e.target.value) || 0)}
+            className={`w-24 ${inputClass}`}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold disabled:opacity-50"
+        >
+          Add Reward
+        </button>
+      </form>
+
+      {status && (
+        <div
+          className={`mt-4 p-3 rounded-lg text-sm font-medium ${
+            status.includes("success")
+              ? darkMode
+                ? "bg-green-900 text-green-300 border border-green-700"
+                : "bg-green-50 text-green-800 border border-green-200"
+              : darkMode
+              ? "bg-red-900 text-red-300 border border-red-700"
+              : "bg-red-50 text-red-800 border border-red-200"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+
+      {claimedRewards.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`text-sm font-medium hover:underline ${
+              darkMode ? "text-gray-300" : "text-gray-700"
+            }`}
+          >
+            {showHistory ? "Hide" : "Show"} claimed rewards (
+            {claimedRewards.length})
+          </button>
+          {showHistory && (
+            <ul
+              className={`mt-2 space-y-1 text-sm ${
+                darkMode ? "text-gray-300" : "text-gray-700"
+              }`}
+            >
+              {claimedRewards.map((reward) => (
+                <li key={reward.id} className="flex justify-between gap-2">
+                  <span>{reward.title}</span>
+                  <span className="opacity-75">
+                    {reward.goal_days} goal days · claimed{" "}
+                    {formatDate(reward.claimed_at!)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RewardChart;
@@ -0,0 +1,96 @@
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { User } from "@supabase/supabase-js";
+import SessionTimer from "./SessionTimer";
+
+const mockQueries = jest.fn();
+
+// Every query succeeds without returning a row
+jest.mock("../config/supabase", () => {
+  const query = (): any =>
+    new Proxy(
+      {},
+      {
+        get: (_, method) =>
+          method === "then"
+            ? (resolve: (value: any) => void) =>
+                resolve({ data: null, error: null })
+            : (...args: any[]) => {
+                mockQueries(method, ...args);
+                return query();
+              },
+      }
+    );
+  return { supabase: { from: query } };
+});
+
+jest.mock("../utils/offlineQueue", () => ({
+  createSessionClientId: () => Promise.resolve("session-id"),
+}));
+
+const patient = { id: "patient" } as User;
+
+// Paused after 90 minutes with a 10 minute break, not yet on the server
+const pausedTimer = {
+  logDate: "2024-03-14",
+  startedAt: "2024-03-14T10:00:00.000Z",
+  pausedAt: "2024-03-14T11:30:00.000Z",
+  breakSeconds: 600,
+  breakCount: 1,
+  synced: false,
+};
+
+const savedTimer = () => localStorage.getItem("sessionTimer:patient");
+
+describe("SessionTimer", () => {
+  beforeEach(() => {
+    mockQueries.mockReset();
+    localStorage.setItem("sessionTimer:patient", JSON.stringify(pausedTimer));
+  });
+
+  it("saves the active time and clears the timer", async () => {
+    const onSessionComplete = jest.fn().mockResolvedValue(true);
+    render(
+      <SessionTimer
+        user={patient}
+        darkMode={false}
+        onSessionComplete={onSessionComplete}
+      />
+    );
+
+    fireEvent.click(await screen.findByText("Stop & Save"));
+
+    expect(await screen.findByText("Start Session")).toBeInTheDocument();
+    expect(onSessionComplete).toHaveBeenCalledWith({
+      clientId: "session-id",
+      date: "2024-03-14",
+      minutes: 80,
+      startedAt: pausedTimer.startedAt,
+      endedAt: pausedTimer.pausedAt,
+    });
+    expect(savedTimer()).toBeNull();
+    expect(mockQueries).toHaveBeenCalledWith("delete");
+  });
+
+  it("keeps the paused timer when the session is not saved", async () => {
+    const onSessionComplete = jest.fn().mockResolvedValue(false);
+    render(
+      <SessionTimer
+        user={patient}
+        darkMode={false}
+        onSessionComplete={onSessionComplete}
+      />
+    );
+
+    fireEvent.click(await screen.findByText("Stop & Save"));
+
+    await waitFor(() => expect(onSessionComplete).toHaveBeenCalled());
+    expect(await screen.findByText("Stop & Save")).toBeEnabled();
+    expect(screen.getByText("Resume")).toBeInTheDocument();
+    expect(JSON.parse(savedTimer()!)).toMatchObject({
+      startedAt: pausedTimer.startedAt,
+      pausedAt: pausedTimer.pausedAt,
+    });
+    expect(mockQueries).not.toHaveBeenCalledWith("delete");
+  });
+});
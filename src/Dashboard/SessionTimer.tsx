@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { supabase } from "../config/supabase";
+import { User } from "@supabase/supabase-js";
+import { formatClockTime, getToday } from "../utils/dates";
+import { MAX_DAILY_MINUTES } from "../utils/logValidation";
+import { createSessionClientId } from "../utils/offlineQueue";
+
+interface SessionTimerProps {
+  user: User | null;
+  darkMode: boolean;
+  // Saves the finished session; resolves to true when it was logged
+  onSessionComplete: (session: CompletedSession) => Promise<boolean>;
+}
+
+export interface CompletedSession {
+  clientId: string; // Derived from the session, see createSessionClientId
+  date: string;
+  minutes: number;
+  startedAt: string;
+  endedAt: string;
+}
+
+interface TimerState {
+  logDate: string;
+  startedAt: string;
+  pausedAt: string | null;
+  breakSeconds: number;
+  breakCount: number;
+  synced: boolean; // false until the latest change reached the server
+}
+
+// Warn when a timer has been left running for longer than this
+const LONG_RUNNING_WARNING_MINUTES = 12 * 60;
+
+const getStorageKey = (userId: string) => `sessionTimer:${userId}`;
+
+const loadLocalTimer = (userId: string): TimerState | null => {
+  try {
+    const saved = localStorage.getItem(getStorageKey(userId));
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    // If localStorage fails or data is corrupted, start without a timer
+    return null;
+  }
+};
+
+const saveLocalTimer = (userId: string, timer: TimerState | null) => {
+  try {
+    if (timer) {
+      localStorage.setItem(getStorageKey(userId), JSON.stringify(timer));
+    } else {
+      localStorage.removeItem(getStorageKey(userId));
+    }
+  } catch {
+    if (process.env.NODE_ENV !== "production") {
+      console.warn("Unable to save session timer locally");
+    }
+  }
+};
+
+// Active seconds, excluding breaks, at the given moment
+const getElapsedSeconds = (timer: TimerState, now: number) => {
+  const end = timer.pausedAt ? new Date(timer.pausedAt).getTime() : now;
+  const total = (end - new Date(timer.startedAt).getTime()) / 1000;
+  return Math.max(0, Math.floor(total - timer.breakSeconds));
+};
+
+const formatClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return [hours, mins, secs].map((v) => String(v).padStart(2, "0")).join(":");
+};
+
+const SessionTimer: React.FC<SessionTimerProps> = ({
+  user,
+  darkMode,
+  onSessionComplete,
+}) => {
+  const [timer, setTimer] = useState<TimerState | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [saving, setSaving] = useState(false);
+
+  // Persist locally first so a closed tab never loses the session, then sync
+  const persistTimer = useCallback(
+    async (next: TimerState | null) => {
+      if (!user) return;
+
+      setTimer(next);
+      saveLocalTimer(user.id, next);
+
+      try {
+        if (next) {
+          const { error } = await supabase.from("active_sessions").upsert(
+            {
+              user_id: user.id,
+              log_date: next.logDate,
+              started_at: next.startedAt,
+              paused_at: next.pausedAt,
+              break_seconds: next.breakSeconds,
+              break_count: next.breakCount,
+            },
+            { onConflict: "user_id" }
+          );
+          if (error) throw error;
+
+          const synced = { ...next, synced: true };
+          saveLocalTimer(user.id, synced);
+          setTimer((current) =>
+            current && current.startedAt === next.startedAt ? synced : current
+          );
+        } else {
+          const { error } = await supabase
+            .from("active_sessions")
+            .delete()
+            .eq("user_id", user.id);
+          if (error) throw error;
+        }
+      } catch (error) {
+        // Local copy stays unsynced and is pushed again on the next load
+        if (process.env.NODE_ENV !== "production") {
+          console.error("Error syncing session timer:", error);
+        }
+      }
+    },
+    [user]
+  );
+
+  // Restore the timer from local storage and the server
+  useEffect(() => {
+    if (!user) {
+      setTimer(null);
+      return;
+    }
+
+    const restoreTimer = async () => {
+      const local = loadLocalTimer(user.id);
+      setTimer(local);
+
+      try {
+        const { data, error } = await supabase
+          .from("active_sessions")
+          .select("log_date, started_at, paused_at, break_seconds, break_count")
+          .eq("user_id", user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        if (local && !local.synced) {
+          // Changes made while offline win over the server copy
+          await persistTimer(local);
+        } else if (data) {
+          const remote: TimerState = {
+            logDate: data.log_date,
+            startedAt: data.started_at,
+            pausedAt: data.paused_at,
+            breakSeconds: data.break_seconds,
+            breakCount: data.break_count,
+            synced: true,
+          };
+          setTimer(remote);
+          saveLocalTimer(user.id, remote);
+        } else {
+          // Session was finished on another device
+          setTimer(null);
+          saveLocalTimer(user.id, null);
+        }
+      } catch (error: any) {
+        // Offline or RLS error during logout - keep the local timer
+        if (error?.code !== "42501" && process.env.NODE_ENV !== "production") {
+          console.error("Error loading session timer:", error);
+        }
+      }
+    };
+
+    restoreTimer();
+  }, [user, persistTimer]);
+
+  // Tick once a second while the timer is running
+  useEffect(() => {
+    if (!timer || timer.pausedAt) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  const handleStart = () => {
+    persistTimer({
+      logDate: getToday(),
+      startedAt: new Date().toISOString(),
+      pausedAt: null,
+      breakSeconds: 0,
+      breakCount: 0,
+      synced: false,
+    });
+  };
+
+  const handlePause = () => {
+    if (!timer || timer.pausedAt) return;
+    persistTimer({
+      ...timer,
+      pausedAt: new Date().toISOString(),
+      synced: false,
+    });
+  };
+
+  const handleResume = () => {
+    if (!timer || !timer.pausedAt) return;
+    const breakSeconds = Math.floor(
+      (Date.now() - new Date(timer.pausedAt).getTime()) / 1000
+    );
+    persistTimer({
+      ...timer,
+      pausedAt: null,
+      breakSeconds: timer.breakSeconds + breakSeconds,
+      breakCount: timer.breakCount + 1,
+      synced: false,
+    });
+  };
+
+  const handleStop = async () => {
+    if (!user || !timer) return;
+
+    // Pause first so the elapsed time stops growing while we save
+    const stoppedAt = timer.pausedAt || new Date().toISOString();
+    const stopped = { ...timer, pausedAt: stoppedAt, synced: false };
+    await persistTimer(stopped);
+
+    setSaving(true);
+    const saved = await onSessionComplete({
+      clientId: await createSessionClientId(user.id, stopped.startedAt),
+      date: stopped.logDate,
+      minutes: Math.floor(
+        getElapsedSeconds(stopped, new Date(stoppedAt).getTime()) / 60
+      ),
+      startedAt: stopped.startedAt,
+      endedAt: stoppedAt,
+    });
+    setSaving(false);
+
+    // On validation failure the paused timer stays so it can be resumed
+    if (saved) {
+      await persistTimer(null);
+    }
+  };
+
+  const handleDiscard = () => {
+    if (
+      window.confirm(
+        "Discard this session? The tracked time will not be logged."
+      )
+    ) {
+      persistTimer(null);
+    }
+  };
+
+  const elapsedSeconds = timer ? getElapsedSeconds(timer, now) : 0;
+  const elapsedMinutes = Math.floor(elapsedSeconds / 60);
+  const isRunning = !!timer && !timer.pausedAt;
+
+  return (
+    <div
+      className={`p-4 rounded-lg border ${
+        darkMode ? "bg-gray-700 border-gray-600" : "bg-gray-50 border-gray-200"
+      }`}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <span
+          className={`text-sm font-medium ${
+            darkMode ? "text-gray-300" : "text-gray-700"
+          }`}
+        >
+          Session Timer
+        </span>
+        {timer && (
+          <span
+            className={`text-xs ${
+              darkMode ? "text-gray-400" : "text-gray-500"
+            }`}
+          >
+            {isRunning ? "Running" : "Paused"} · started{" "}
+            {formatClockTime(timer.startedAt)}
+            {timer.breakCount > 0 &&
+              ` · ${timer.breakCount} break${timer.breakCount > 1 ? "s" : ""}`}
+          </span>
+        )}
+      </div>
+
+      <div
+        className={`text-3xl font-mono font-bold text-center mb-3 ${
+          darkMode ? "text-white" : "text-gray-900"
+        }`}
+      >
+        {formatClock(elapsedSeconds)}
+      </div>
+
+      {elapsedMinutes >= LONG_RUNNING_WARNING_MINUTES && (
+        <div
+          className={`p-3 mb-3 rounded-lg text-sm ${
+            darkMode
+              ? "bg-yellow-900 text-yellow-300 border border-yellow-700"
+              : "bg-yellow-50 text-yellow-800 border border-yellow-200"
+          }`}
+        >
+          {elapsedMinutes > MAX_DAILY_MINUTES
+            ? "This timer has run for more than 24 hours and cannot be saved as is. Discard it and log the session manually."
+            : "This timer has been running for over 12 hours. Did you forget to stop it?"}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        {!timer ? (
+          <button
+            type="button"
+            onClick={handleStart}
+            className="col-span-3 px-3 py-2 rounded-lg text-sm font-semibold bg-brand-cyan text-white hover:bg-brand-dark-blue transition-colors"
+          >
+            Start Session
+          </button>
+        ) : (
+          <>
+            <button
+              type="button"
+              onClick={isRunning ? handlePause : handleResume}
+              disabled={saving}
+              className={`px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                darkMode
+                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              {isRunning ? "Pause" : "Resume"}
+            </button>
+            <button
+              type="button"
+              onClick={handleStop}
+              disabled={saving}
+              className="px-3 py-2 rounded-lg text-sm font-semibold bg-brand-cyan text-white hover:bg-brand-dark-blue transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Stop & Save"}
+            </button>
+            <button
+              type="button"
+              onClick={handleDiscard}
+              disabled={saving}
+              className="px-3 py-2 rounded-lg text-sm bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              Discard
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimer;
@@ -2,6 +2,7 @@ import React, { useState } from "react";
 import { supabase } from "../config/supabase";
 import { User } from "@supabase/supabase-js";
 import { sanitizeError, isValidPassword } from "../utils/security";
+import { getBrowserTimeZone, resolveWeekStart } from "../utils/dates";
 
 interface SettingsProps {
   user: User | null;
@@ -109,6 +110,68 @@ const Settings: React.FC<SettingsProps> = ({
     }
   };
 
+  // Week start is saved as soon as it is picked
+  const handleWeekStartChange = async (value: string) => {
+    if (!user) return;
+
+    const weekStart = parseInt(value);
+    setLoading(true);
+    setStatus("");
+
+    try {
+      const { error } = await supabase
+        .from("user_data")
+        .update({ week_start: weekStart })
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      setStatus("Week start updated successfully!");
+      onProfileUpdate({ ...profile, week_start: weekStart });
+    } catch (err: any) {
+      console.error("Week start update error:", err);
+      setStatus("Failed to update week start. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Every IANA zone the browser knows, with the saved one kept even if not
+  const browserTimeZone = getBrowserTimeZone();
+  const supportedTimeZones: string[] = (Intl as any).supportedValuesOf?.(
+    "timeZone"
+  ) || [browserTimeZone];
+  const timeZoneOptions = Array.from(
+    new Set([
+      ...supportedTimeZones,
+      ...(profile?.timezone ? [profile.timezone] : []),
+    ])
+  ).sort();
+
+  const handleTimeZoneChange = async (timezone: string) => {
+    if (!user) return;
+
+    setLoading(true);
+    setStatus("");
+
+    try {
+      const { error } = await supabase
+        .from("user_data")
+        .update({ timezone })
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      setStatus("Timezone updated successfully!");
+      onProfileUpdate({ ...profile, timezone });
+    } catch (err: any) {
+      console.error("Timezone update error:", err);
+      setStatus("Failed to update timezone. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Enhanced password validation
   const validatePasswordStrength = isValidPassword;
 
@@ -562,6 +625,77 @@ const Settings: React.FC<SettingsProps> = ({
                   />
                 </button>
               </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3
+                    className={`font-medium ${
+                      darkMode ? "text-white" : "text-gray-900"
+                    }`}
+                  >
+                    Week Starts On
+                  </h3>
+                  <p
+                    className={`text-sm ${
+                      darkMode ? "text-gray-400" : "text-gray-500"
+                    }`}
+                  >
+                    Used by the calendar and weekly goal progress
+                  </p>
+                </div>
+                <select
+                  aria-label="Week starts on"
+                  value={String(resolveWeekStart(profile?.week_start))}
+                  onChange={(e) => handleWeekStartChange(e.target.value)}
+                  disabled={loading}
+                  className={`px-3 py-2 rounded-lg border text-sm ${
+                    darkMode
+                      ? "bg-gray-700 border-gray-600 text-white"
+                      : "bg-white border-gray-300 text-gray-900"
+                  }`}
+                >
+                  <option value="1">Monday</option>
+                  <option value="0">Sunday</option>
+                  <option value="6">Saturday</option>
+                </select>
+              </div>
+              <div className="flex items-center justify-between">
+                <div>
+                  <h3
+                    className={`font-medium ${
+                      darkMode ? "text-white" : "text-gray-900"
+                    }`}
+                  >
+                    Timezone
+                  </h3>
+                  <p
+                    className={`text-sm ${
+                      darkMode ? "text-gray-400" : "text-gray-500"
+                    }`}
+                  >
+                    Decides when your day starts, wherever you are
+                    {profile?.timezone &&
+                      profile.timezone !== browserTimeZone &&
+                      ` (this device is set to ${browserTimeZone})`}
+                  </p>
+                </div>
+                <select
+                  aria-label="Timezone"
+                  value={profile?.timezone || browserTimeZone}
+                  onChange={(e) => handleTimeZoneChange(e.target.value)}
+                  disabled={loading}
+                  className={`px-3 py-2 rounded-lg border text-sm max-w-[14rem] ${
+                    darkMode
+                      ? "bg-gray-700 border-gray-600 text-white"
+                      : "bg-white border-gray-300 text-gray-900"
+                  }`}
+                >
+                  {timeZoneOptions.map((timeZone) => (
+                    <option key={timeZone} value={timeZone}>
+                      {timeZone.replace(/_/g, " ")}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
           )}
 
@@ -1,10 +1,32 @@
 import React, { useState, useEffect } from "react";
-import { supabase } from "../config/supabase";
 import { User } from "@supabase/supabase-js";
+import {
+  addDays,
+  fetchUserToday,
+  getLocalDateString,
+  getToday,
+  getWeekStartDate,
+  getWeekdayOrder,
+} from "../utils/dates";
+import {
+  THERAPY_TYPES,
+  TherapyType,
+  countsTowardGoal,
+  getTherapyType,
+} from "../utils/therapy";
+import { WEEKDAY_NAMES } from "../utils/goals";
+import { reportDataError, useDailyLogs, useGoals } from "../utils/dataCache";
+import {
+  PendingLog,
+  getPendingLogs,
+  subscribeToPendingLogs,
+} from "../utils/offlineQueue";
+import Trends from "./Trends";
 
 interface StatisticsProps {
   user: User | null;
   darkMode: boolean;
+  weekStart: number; // First day of the week, 0 = Sunday
 }
 
 interface DailyLog {
@@ -12,9 +34,10 @@ interface DailyLog {
   time_spent_minutes: number;
 }
 
-interface UserGoals {
-  daily_goal_minutes: number;
-  weekly_goal_minutes: number;
+interface LogRow {
+  date: string;
+  time_spent_minutes: number;
+  therapy_type?: TherapyType;
 }
 
 interface CircularProgressProps {
@@ -75,131 +98,54 @@ const CircularProgress: React.FC<CircularProgressProps> = ({
   );
 };
 
-const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
-  const [todayLog, setTodayLog] = useState<DailyLog | null>(null);
-  const [weeklyLogs, setWeeklyLogs] = useState<DailyLog[]>([]);
-  const [userGoals, setUserGoals] = useState<UserGoals>({
-    daily_goal_minutes: 240,
-    weekly_goal_minutes: 1680,
-  });
-  const [loading, setLoading] = useState(true);
+const Statistics: React.FC<StatisticsProps> = ({
+  user,
+  darkMode,
+  weekStart,
+}) => {
+  const [pendingLogs, setPendingLogs] = useState<PendingLog[]>([]);
+  const [therapyFilter, setTherapyFilter] = useState<TherapyType | "all">(
+    "all"
+  );
+  const [today, setToday] = useState(getToday());
+  const [todayLoaded, setTodayLoaded] = useState(false);
 
+  // The patient's today, so a doctor elsewhere sees the same week
   useEffect(() => {
-    if (user) {
-      fetchStatisticsData();
-      fetchUserGoals();
-    } else {
-      // Clean up state when user becomes null (e.g., during logout)
-      setTodayLog(null);
-      setWeeklyLogs([]);
-      setUserGoals({
-        daily_goal_minutes: 240,
-        weekly_goal_minutes: 1680,
-      });
-      setLoading(false);
+    if (!user) {
+      setTodayLoaded(false);
+      return;
     }
-  }, [user]); // eslint-disable-line react-hooks/exhaustive-deps
-
-  const fetchStatisticsData = async () => {
-    if (!user) return;
 
-    // Helper function to get local date string without timezone shift
-    const getLocalDateString = (date: Date = new Date()) => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, "0");
-      const day = String(date.getDate()).padStart(2, "0");
-      return `${year}-${month}-${day}`;
-    };
+    fetchUserToday(user.id)
+      .then(setToday)
+      .catch((error) => reportDataError("Error fetching today's date:", error))
+      .finally(() => setTodayLoaded(true));
+  }, [user]);
+
+  // Start and end of the current week on the user's chosen first day
+  const weekStartStr = getWeekStartDate(today, weekStart);
+  const { entries: weekEntries, loading: logsLoading } = useDailyLogs(
+    todayLoaded ? user?.id : undefined,
+    { from: weekStartStr, to: addDays(weekStartStr, 6) }
+  );
+  const { getGoalForDay } = useGoals(user?.id);
+  const loading = !!user && (!todayLoaded || logsLoading);
 
-    const today = getLocalDateString();
-    const weekStart = new Date();
-    weekStart.setDate(weekStart.getDate() - weekStart.getDay()); // Start of current week (Sunday)
-    const weekStartStr = getLocalDateString(weekStart);
-
-    try {
-      // Fetch all entries for this week (including today)
-      const { data: allData, error: fetchError } = await supabase
-        .from("daily_logs")
-        .select("date, time_spent_minutes")
-        .eq("user_id", user.id)
-        .gte("date", weekStartStr)
-        .order("date", { ascending: true });
-
-      if (fetchError) throw fetchError;
-
-      // Group entries by date and sum up the time
-      const groupedData = new Map<string, number>();
-      (allData || []).forEach((entry) => {
-        const currentTotal = groupedData.get(entry.date) || 0;
-        groupedData.set(entry.date, currentTotal + entry.time_spent_minutes);
-      });
-
-      // Create DailyLog objects from grouped data
-      const weeklyLogs: DailyLog[] = Array.from(groupedData.entries()).map(
-        ([date, totalMinutes]) => ({
-          date,
-          time_spent_minutes: totalMinutes,
-        })
-      );
-
-      // Set today's log
-      const todayTotal = groupedData.get(today) || 0;
-      setTodayLog({ date: today, time_spent_minutes: todayTotal });
-
-      // Set weekly logs
-      setWeeklyLogs(weeklyLogs);
-    } catch (error: any) {
-      // Don't log RLS policy errors during logout
-      if (error?.code !== "42501") {
-        console.error("Error fetching statistics data:", error);
-      }
-    } finally {
-      setLoading(false);
+  // Entries saved offline count toward progress until they are synced
+  useEffect(() => {
+    if (!user) {
+      setPendingLogs([]);
+      return;
     }
-  };
 
-  const fetchUserGoals = async () => {
-    if (!user) return;
-
-    try {
-      const { data, error } = await supabase
-        .from("user_goals")
-        .select("daily_goal_minutes, weekly_goal_minutes")
-        .eq("user_id", user.id)
-        .single();
-
-      if (error && error.code !== "PGRST116") throw error;
-
-      if (data) {
-        setUserGoals(data);
-      } else {
-        // Only try to create default goals if we have a valid user session
-        // Check if auth session is still valid before attempting to create goals
-        const { data: session } = await supabase.auth.getSession();
-        if (session?.session?.user?.id === user.id) {
-          const { error: insertError } = await supabase
-            .from("user_goals")
-            .insert([
-              {
-                user_id: user.id,
-                daily_goal_minutes: 240,
-                weekly_goal_minutes: 1680,
-              },
-            ]);
-
-          if (insertError && insertError.code !== "42501") {
-            // Don't log RLS policy errors (42501) as they're expected during logout
-            console.error("Error creating default goals:", insertError);
-          }
-        }
-      }
-    } catch (error: any) {
-      // Don't log RLS policy errors during logout
-      if (error?.code !== "42501") {
-        console.error("Error fetching user goals:", error);
-      }
-    }
-  };
+    const loadPendingLogs = async () => {
+      setPendingLogs(await getPendingLogs(user.id));
+    };
+
+    loadPendingLogs();
+    return subscribeToPendingLogs(loadPendingLogs);
+  }, [user]);
 
   const formatTime = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
@@ -214,43 +160,77 @@ const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
     return days[date.getDay()];
   };
 
-  // Calculate statistics
-  const todayMinutes = todayLog?.time_spent_minutes || 0;
-  const dailyPercentage = (todayMinutes / userGoals.daily_goal_minutes) * 100;
+  const weekStartDate = new Date(`${weekStartStr}T00:00`);
+  const weekPendingLogs = pendingLogs.filter((log) => log.date >= weekStartStr);
+  const allWeekEntries: LogRow[] = [...weekEntries, ...weekPendingLogs];
+
+  // Only entries of the filtered type that count toward the goal feed the rings
+  const progressEntries = allWeekEntries.filter(
+    (entry) =>
+      (therapyFilter === "all" ||
+        (entry.therapy_type || "patching") === therapyFilter) &&
+      countsTowardGoal(
+        entry.therapy_type,
+        getGoalForDay(entry.date).therapy_type
+      )
+  );
+
+  // Group entries by date and sum up the time
+  const groupedData = new Map<string, number>();
+  progressEntries.forEach((entry) => {
+    const currentTotal = groupedData.get(entry.date) || 0;
+    groupedData.set(entry.date, currentTotal + entry.time_spent_minutes);
+  });
+  const weeklyLogs: DailyLog[] = Array.from(groupedData.entries()).map(
+    ([date, totalMinutes]) => ({
+      date,
+      time_spent_minutes: totalMinutes,
+    })
+  );
+
+  // Week totals per therapy type, regardless of the goal
+  const therapyBreakdown = THERAPY_TYPES.map((type) => ({
+    ...type,
+    minutes: allWeekEntries
+      .filter((entry) => (entry.therapy_type || "patching") === type.value)
+      .reduce((sum, entry) => sum + entry.time_spent_minutes, 0),
+  })).filter((type) => type.minutes > 0);
+  const breakdownTotal = therapyBreakdown.reduce(
+    (sum, type) => sum + type.minutes,
+    0
+  );
+
+  // Calculate statistics against the goal in force today
+  const currentGoals = getGoalForDay(today);
+  const todayMinutes = groupedData.get(today) || 0;
+  const dailyPercentage =
+    (todayMinutes / currentGoals.daily_goal_minutes) * 100;
 
   const weeklyTotal = weeklyLogs.reduce(
     (sum, log) => sum + log.time_spent_minutes,
     0
   );
-  const weeklyPercentage = (weeklyTotal / userGoals.weekly_goal_minutes) * 100;
+  const weeklyPercentage =
+    (weeklyTotal / currentGoals.weekly_goal_minutes) * 100;
 
   // Create weekly progress for each day
   const weeklyProgress = [];
-  const weekStart = new Date();
-  weekStart.setDate(weekStart.getDate() - weekStart.getDay());
-
-  // Helper function to get local date string without timezone shift
-  const getLocalDateString = (date: Date = new Date()) => {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, "0");
-    const day = String(date.getDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
-  };
 
   for (let i = 0; i < 7; i++) {
-    const currentDay = new Date(weekStart);
-    currentDay.setDate(weekStart.getDate() + i);
+    const currentDay = new Date(weekStartDate);
+    currentDay.setDate(weekStartDate.getDate() + i);
     const dateStr = getLocalDateString(currentDay);
     const log = weeklyLogs.find((log) => log.date === dateStr);
     const dayPercentage = log
-      ? (log.time_spent_minutes / userGoals.daily_goal_minutes) * 100
+      ? (log.time_spent_minutes / getGoalForDay(dateStr).daily_goal_minutes) *
+        100
       : 0;
 
     weeklyProgress.push({
       date: currentDay,
       minutes: log?.time_spent_minutes || 0,
       percentage: dayPercentage,
-      isToday: dateStr === getLocalDateString(),
+      isToday: dateStr === today,
     });
   }
 
@@ -278,8 +258,51 @@ const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
         >
           Track your daily and weekly progress
         </p>
+        <div className="flex items-center justify-center space-x-2 mt-4">
+          <label
+            htmlFor="statistics-therapy-filter"
+            className={`text-sm font-medium ${
+              darkMode ? "text-gray-300" : "text-gray-700"
+            }`}
+          >
+            Therapy
+          </label>
+          <select
+            id="statistics-therapy-filter"
+            value={therapyFilter}
+            onChange={(e) =>
+              setTherapyFilter(e.target.value as TherapyType | "all")
+            }
+            className={`px-3 py-1 rounded-lg border text-sm ${
+              darkMode
+                ? "bg-gray-700 border-gray-600 text-white"
+                : "bg-white border-gray-300 text-gray-900"
+            }`}
+          >
+            <option value="all">All types</option>
+            {THERAPY_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
+      {weekPendingLogs.length > 0 && (
+        <div
+          className={`p-3 rounded-lg text-sm font-medium text-center ${
+            darkMode
+              ? "bg-yellow-900 text-yellow-300 border border-yellow-700"
+              : "bg-yellow-50 text-yellow-800 border border-yellow-200"
+          }`}
+        >
+          Includes {weekPendingLogs.length} pending{" "}
+          {weekPendingLogs.length === 1 ? "entry" : "entries"} saved offline.
+          They will sync automatically when you're back online.
+        </div>
+      )}
+
       {/* Main Progress Circles */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
         {/* Daily Progress */}
@@ -317,7 +340,7 @@ const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
                 }`}
               >
                 {formatTime(todayMinutes)} /{" "}
-                {formatTime(userGoals.daily_goal_minutes)}
+                {formatTime(currentGoals.daily_goal_minutes)}
               </div>
             </div>
           </CircularProgress>
@@ -380,7 +403,7 @@ const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
                 }`}
               >
                 {formatTime(weeklyTotal)} /{" "}
-                {formatTime(userGoals.weekly_goal_minutes)}
+                {formatTime(currentGoals.weekly_goal_minutes)}
               </div>
             </div>
           </CircularProgress>
@@ -480,6 +503,54 @@ const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
         </div>
       </div>
 
+      {/* Therapy Breakdown */}
+      {therapyBreakdown.length > 0 && (
+        <div
+          className={`p-6 rounded-2xl ${
+            darkMode ? "bg-gray-800" : "bg-white"
+          } shadow-lg`}
+        >
+          <h3
+            className={`text-xl font-semibold mb-4 ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            This Week by Therapy
+          </h3>
+          <div className="flex h-4 rounded-full overflow-hidden mb-4">
+            {therapyBreakdown.map((type) => (
+              <div
+                key={type.value}
+                title={`${type.label}: ${formatTime(type.minutes)}`}
+                style={{
+                  width: `${(type.minutes / breakdownTotal) * 100}%`,
+                  backgroundColor: type.color,
+                }}
+              ></div>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {therapyBreakdown.map((type) => (
+              <div key={type.value} className="flex items-center space-x-2">
+                <div
+                  className="w-3 h-3 rounded-full"
+                  style={{ backgroundColor: type.color }}
+                ></div>
+                <span
+                  className={`text-sm ${
+                    darkMode ? "text-gray-300" : "text-gray-700"
+                  }`}
+                >
+                  {type.label}: {formatTime(type.minutes)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Trends user={user} darkMode={darkMode} today={today} />
+
       {/* Goal Information */}
       <div
         className={`p-6 rounded-2xl ${
@@ -505,15 +576,33 @@ const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
                 darkMode ? "text-gray-300" : "text-gray-600"
               }`}
             >
-              Daily Goal
+              {currentGoals.weekday_goal_minutes
+                ? "Today's Goal"
+                : "Daily Goal"}
             </div>
             <div
               className={`text-2xl font-bold ${
                 darkMode ? "text-white" : "text-gray-900"
               }`}
             >
-              {formatTime(userGoals.daily_goal_minutes)}
+              {formatTime(currentGoals.daily_goal_minutes)}
             </div>
+            {currentGoals.weekday_goal_minutes && (
+              <div
+                className={`text-xs mt-2 ${
+                  darkMode ? "text-gray-400" : "text-gray-500"
+                }`}
+              >
+                {getWeekdayOrder(weekStart)
+                  .map(
+                    (day) =>
+                      `${WEEKDAY_NAMES[day]} ${formatTime(
+                        currentGoals.weekday_goal_minutes![day]
+                      )}`
+                  )
+                  .join(" · ")}
+              </div>
+            )}
           </div>
 
           <div
@@ -533,7 +622,7 @@ const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
                 darkMode ? "text-white" : "text-gray-900"
               }`}
             >
-              {formatTime(userGoals.weekly_goal_minutes)}
+              {formatTime(currentGoals.weekly_goal_minutes)}
             </div>
           </div>
         </div>
@@ -545,6 +634,10 @@ const Statistics: React.FC<StatisticsProps> = ({ user, darkMode }) => {
         >
           Goals are set by your healthcare provider to support your therapy
           progress.
+          {currentGoals.therapy_type &&
+            ` Only ${getTherapyType(
+              currentGoals.therapy_type
+            ).label.toLowerCase()} time counts toward these goals.`}
         </div>
       </div>
     </div>
@@ -0,0 +1,478 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { supabase } from "../config/supabase";
+import { THERAPY_TYPES, TherapyType, getTherapyType } from "../utils/therapy";
+import { sanitizeError } from "../utils/security";
+import { getToday } from "../utils/dates";
+import {
+  MAX_PHASE_WEEKS,
+  MAX_PROTOCOL_PHASES,
+  ProtocolPhase,
+  TreatmentProtocol,
+  fetchActiveProtocol,
+  getPhaseLabel,
+  getProtocolSchedule,
+  getProtocolStatus,
+} from "../utils/protocols";
+
+interface TreatmentProtocolEditorProps {
+  patientId: string;
+  darkMode: boolean;
+  onSaved?: () => void; // Goals changed, e.g. to reload the goal history
+}
+
+const emptyPhase = (): ProtocolPhase => ({
+  name: "",
+  duration_weeks: 8,
+  daily_goal_minutes: 240,
+  weekly_goal_minutes: 1680,
+  therapy_type: null,
+});
+
+// Doctors define an ordered list of phases; goals switch on each phase start
+const TreatmentProtocolEditor: React.FC<TreatmentProtocolEditorProps> = ({
+  patientId,
+  darkMode,
+  onSaved,
+}) => {
+  const [protocol, setProtocol] = useState<TreatmentProtocol | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState(getToday());
+  const [phases, setPhases] = useState<ProtocolPhase[]>([emptyPhase()]);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState("");
+
+  const loadProtocol = useCallback(async () => {
+    try {
+      setProtocol(await fetchActiveProtocol(patientId));
+    } catch (error) {
+      console.error("Error fetching treatment protocol:", error);
+    }
+  }, [patientId]);
+
+  useEffect(() => {
+    setProtocol(null);
+    setShowForm(false);
+    setStatus("");
+    loadProtocol();
+  }, [loadProtocol]);
+
+  const updatePhase = (index: number, changes: Partial<ProtocolPhase>) => {
+    setPhases(
+      phases.map((phase, i) => (i === index ? { ...phase, ...changes } : phase))
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setStatus("Please give the protocol a name.");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setStatus("");
+
+      const { data, error } = await supabase.rpc("set_treatment_protocol", {
+        p_user_id: patientId,
+        p_name: name.trim(),
+        p_start_date: startDate,
+        p_phases: phases.map((phase) => ({
+          ...phase,
+          name: phase.name?.trim() || null,
+        })),
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        setStatus(
+          typeof data.phase === "number"
+            ? `Phase ${data.phase + 1}: ${sanitizeError(data)}`
+            : sanitizeError(data)
+        );
+        return;
+      }
+
+      setStatus("Protocol saved successfully!");
+      setShowForm(false);
+      setName("");
+      setPhases([emptyPhase()]);
+      await loadProtocol();
+      if (onSaved) {
+        onSaved();
+      }
+    } catch (error) {
+      console.error("Error saving treatment protocol:", error);
+      setStatus("Failed to save the protocol. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelProtocol = async () => {
+    if (!protocol) return;
+    if (
+      !window.confirm(
+        "Cancel this protocol? Phases that have not started yet will be removed."
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setStatus("");
+
+      const { data, error } = await supabase.rpc("cancel_treatment_protocol", {
+        p_protocol_id: protocol.id,
+      });
+
+      if (error) throw error;
+
+      if (!data.success) {
+        setStatus(sanitizeError(data));
+        return;
+      }
+
+      setStatus("Protocol cancelled successfully.");
+      setProtocol(null);
+      if (onSaved) {
+        onSaved();
+      }
+    } catch (error) {
+      console.error("Error cancelling treatment protocol:", error);
+      setStatus("Failed to cancel the protocol. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatTime = (minutes: number) => {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours}h ${mins}m`;
+  };
+
+  const inputClass = `w-full px-3 py-2 border rounded-lg text-sm focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+    darkMode ? "bg-gray-700 border-gray-600 text-white" : "border-gray-300"
+  }`;
+  const labelClass = `block text-xs font-medium mb-1 ${
+    darkMode ? "text-gray-300" : "text-gray-700"
+  }`;
+
+  const schedule = protocol ? getProtocolSchedule(protocol) : [];
+  const currentIndex = protocol
+    ? getProtocolStatus(protocol).current?.index ?? -1
+    : -1;
+  const today = getToday();
+
+  return (
+    <div className="space-y-4">
+      {protocol ? (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <div
+              className={`font-medium ${
+                darkMode ? "text-gray-200" : "text-gray-800"
+              }`}
+            >
+              {protocol.name}
+            </div>
+            <button
+              type="button"
+              onClick={handleCancelProtocol}
+              disabled={saving}
+              className="px-2 py-1 bg-red-600 text-white rounded hover:bg-red-700 transition-colors text-xs disabled:opacity-50"
+            >
+              Cancel Protocol
+            </button>
+          </div>
+          <ol className="space-y-2">
+            {schedule.map((phase) => (
+              <li
+                key={phase.id || phase.index}
+                className={`p-3 rounded-lg text-sm border ${
+                  phase.index === currentIndex
+                    ? darkMode
+                      ? "bg-blue-900 border-blue-400 text-blue-100"
+                      : "bg-blue-50 border-blue-300 text-blue-900"
+                    : darkMode
+                    ? "bg-gray-700 border-gray-600 text-gray-300"
+                    : "bg-gray-50 border-gray-200 text-gray-700"
+                }`}
+              >
+                <div className="flex justify-between">
+                  <span className="font-medium">
+                    {getPhaseLabel(phase)}
+                    {phase.index === currentIndex && " · current"}
+                  </span>
+                  <span className="text-xs">
+                    {phase.start_date}
+                    {phase.index < schedule.length - 1
+                      ? ` to ${phase.end_date}`
+                      : phase.end_date < today
+                      ? " onwards"
+                      : ` to ${phase.end_date}, then continues`}
+                  </span>
+                </div>
+                <div className="text-xs mt-1">
+                  Daily {formatTime(phase.daily_goal_minutes)} · Weekly{" "}
+                  {formatTime(phase.weekly_goal_minutes)} ·{" "}
+                  {phase.duration_weeks} weeks
+                  {phase.therapy_type &&
+                    ` · ${getTherapyType(phase.therapy_type).label} only`}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : (
+        !showForm && (
+          <p
+            className={`text-sm ${
+              darkMode ? "text-gray-400" : "text-gray-600"
+            }`}
+          >
+            No protocol yet. Define phases to have goals switch automatically.
+          </p>
+        )
+      )}
+
+      {!showForm ? (
+        <button
+          type="button"
+          onClick={() => {
+            setShowForm(true);
+            setStatus("");
+          }}
+          className="px-3 py-1 bg-brand-cyan text-white rounded-md hover:bg-brand-dark-blue transition-colors text-sm"
+        >
+          {protocol ? "Replace Protocol" : "New Protocol"}
+        </button>
+      ) : (
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Protocol Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. Patching taper"
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                min={today}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+          </div>
+
+          {phases.map((phase, index) => (
+            <div
+              key={index}
+              className={`p-3 rounded-lg space-y-2 ${
+                darkMode ? "bg-gray-700" : "bg-gray-50"
+              }`}
+            >
+              <div className="flex justify-between items-center">
+                <span
+                  className={`text-sm font-semibold ${
+                    darkMode ? "text-gray-200" : "text-gray-800"
+                  }`}
+                >
+                  Phase {index + 1}
+                </span>
+                {phases.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setPhases(phases.filter((_, i) => i !== index))
+                    }
+                    className="text-xs text-red-500 hover:text-red-700"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass}>Name (optional)</label>
+                  <input
+                    type="text"
+                    value={phase.name || ""}
+                    onChange={(e) =>
+                      updatePhase(index, { name: e.target.value })
+                    }
+                    maxLength={100}
+                    placeholder="e.g. Maintenance"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Duration (weeks)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_PHASE_WEEKS}
+                    value={phase.duration_weeks}
+                    onChange={(e) =>
+                      updatePhase(index, {
+                        duration_weeks: parseInt(e.target.value) || 0,
+                      })
+                    }
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Daily Goal (minutes)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="1440"
+                    value={phase.daily_goal_minutes}
+                    onChange={(e) => {
+                      const daily = parseInt(e.target.value) || 0;
+                      // Weekly target follows the daily one until edited
+                      updatePhase(index, {
+                        daily_goal_minutes: daily,
+                        weekly_goal_minutes:
+                          phase.weekly_goal_minutes ===
+                          phase.daily_goal_minutes * 7
+                            ? daily * 7
+                            : phase.weekly_goal_minutes,
+                      });
+                    }}
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Weekly Goal (minutes)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="10080"
+                    value={phase.weekly_goal_minutes}
+                    onChange={(e) =>
+                      updatePhase(index, {
+                        weekly_goal_minutes: parseInt(e.target.value) || 0,
+                      })
+                    }
+                    className={inputClass}
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>
+                  Therapy Counted Toward Goal
+                </label>
+                <select
+                  value={phase.therapy_type || ""}
+                  onChange={(e) =>
+                    updatePhase(index, {
+                      therapy_type: (e.target.value as TherapyType) || null,
+                    })
+                  }
+                  className={inputClass}
+                >
+                  <option value="">All therapy types</option>
+                  {THERAPY_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ))}
+
+          {phases.length < MAX_PROTOCOL_PHASES && (
+            <button
+              type="button"
+              onClick={() =>
+                setPhases([
+                  ...phases,
+                  // Start from the previous phase's targets
+                  { ...phases[phases.length - 1], name: "" },
+                ])
+              }
+              className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                darkMode
+                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              Add Phase
+            </button>
+          )}
+
+          {protocol && (
+            <p
+              className={`text-xs ${
+                darkMode ? "text-yellow-300" : "text-yellow-700"
+              }`}
+            >
+              Saving replaces the current protocol and any goals scheduled from
+              the start date.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              disabled={saving}
+              className={`px-4 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                darkMode
+                  ? "bg-gray-600 text-white hover:bg-gray-500"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-brand-cyan text-white rounded-lg hover:bg-brand-dark-blue transition-colors text-sm font-semibold disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Protocol"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {status && (
+        <div
+          className={`p-3 rounded-lg text-sm font-medium ${
+            status.includes("success")
+              ? darkMode
+                ? "bg-green-900 text-green-300 border border-green-700"
+                : "bg-green-50 text-green-800 border border-green-200"
+              : darkMode
+              ? "bg-red-900 text-red-300 border border-red-700"
+              : "bg-red-50 text-red-800 border border-red-200"
+          }`}
+        >
+          {status}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TreatmentProtocolEditor;
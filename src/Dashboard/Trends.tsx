@@ -0,0 +1,374 @@
+import React, { useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { addDays } from "../utils/dates";
+import { countsTowardGoal } from "../utils/therapy";
+import {
+  groupLogsByDate,
+  useDailyLogs,
+  useFirstLogDate,
+  useGoals,
+} from "../utils/dataCache";
+
+interface TrendsProps {
+  user: User | null;
+  darkMode: boolean;
+  today: string; // YYYY-MM-DD in the patient's timezone
+}
+
+interface TrendDay {
+  date: string;
+  minutes: number; // Minutes counting toward that day's goal
+  target: number;
+  average7: number;
+  average30: number;
+}
+
+// Days shown for each range; null is the whole treatment
+const TREND_RANGES: { label: string; days: number | null }[] = [
+  { label: "4 Weeks", days: 28 },
+  { label: "3 Months", days: 91 },
+  { label: "6 Months", days: 182 },
+  { label: "1 Year", days: 365 },
+  { label: "Whole Treatment", days: null },
+];
+
+const CHART_WIDTH = 720;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 40 };
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = Math.round(minutes % 60);
+  if (hours === 0) return `${mins}m`;
+  if (mins === 0) return `${hours}h`;
+  return `${hours}h ${mins}m`;
+};
+
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+
+const daysBetween = (from: string, to: string) =>
+  Math.round(
+    (new Date(`${to}T00:00`).getTime() - new Date(`${from}T00:00`).getTime()) /
+      (24 * 60 * 60 * 1000)
+  );
+
+// Rolling averages of goal minutes with the goal drawn as a step line that
+// follows the goal history
+const Trends: React.FC<TrendsProps> = ({ user, darkMode, today }) => {
+  const [rangeIndex, setRangeIndex] = useState(0);
+  const { firstLogDate } = useFirstLogDate(user?.id);
+  const { getGoalForDay } = useGoals(user?.id);
+
+  const range = TREND_RANGES[rangeIndex];
+  const rangeStart =
+    range.days !== null
+      ? addDays(today, -(range.days - 1))
+      : firstLogDate && firstLogDate < today
+      ? firstLogDate
+      : addDays(today, -27);
+
+  // 29 earlier days so the first 30-day average is complete
+  const { entries, loading } = useDailyLogs(user?.id, {
+    from: addDays(rangeStart, -29),
+    to: today,
+  });
+
+  // Days before the first entry are not part of the treatment
+  const treatmentStart = firstLogDate || today;
+  const logsByDate = groupLogsByDate(entries);
+  const getGoalMinutes = (date: string) =>
+    (logsByDate.get(date) || [])
+      .filter((entry) =>
+        countsTowardGoal(entry.therapy_type, getGoalForDay(date).therapy_type)
+      )
+      .reduce((sum, entry) => sum + entry.time_spent_minutes, 0);
+
+  const dayCount = daysBetween(rangeStart, today) + 1;
+  const minutesByOffset = Array.from({ length: dayCount + 29 }, (_, i) =>
+    getGoalMinutes(addDays(rangeStart, i - 29))
+  );
+
+  const getAverage = (offset: number, windowDays: number) => {
+    const windowStart = Math.max(
+      offset - windowDays + 1,
+      daysBetween(rangeStart, treatmentStart)
+    );
+    if (windowStart > offset) return 0;
+    const values = minutesByOffset.slice(windowStart + 29, offset + 30);
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  };
+
+  const days: TrendDay[] = Array.from({ length: dayCount }, (_, i) => {
+    const date = addDays(rangeStart, i);
+    return {
+      date,
+      minutes: minutesByOffset[i + 29],
+      target: getGoalForDay(date).daily_goal_minutes,
+      average7: getAverage(i, 7),
+      average30: getAverage(i, 30),
+    };
+  });
+
+  // Today counts once its goal is met, so an unfinished day is not a miss
+  const judgedDays = days.filter(
+    (day) =>
+      day.date >= treatmentStart &&
+      (day.date < today || day.minutes >= day.target)
+  );
+  const goalMetDays = judgedDays.filter(
+    (day) => day.minutes >= day.target
+  ).length;
+  const goalMetPercentage =
+    judgedDays.length > 0
+      ? Math.round((goalMetDays / judgedDays.length) * 100)
+      : 0;
+  const latest = days[days.length - 1];
+
+  // Chart scales; the y axis is in whole hours
+  const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const maxHours = Math.max(
+    1,
+    Math.ceil(
+      Math.max(...days.map((day) => Math.max(day.minutes, day.target))) / 60
+    )
+  );
+  const hourStep = Math.max(1, Math.ceil(maxHours / 6));
+  const maxMinutes = Math.ceil(maxHours / hourStep) * hourStep * 60;
+  const dayWidth = plotWidth / dayCount;
+  const x = (index: number) => PADDING.left + (index + 0.5) * dayWidth;
+  const y = (minutes: number) =>
+    PADDING.top + plotHeight * (1 - minutes / maxMinutes);
+
+  const linePath = (values: number[]) =>
+    values
+      .map((value, i) => `${i === 0 ? "M" : "L"}${x(i)},${y(value)}`)
+      .join(" ");
+
+  // Horizontal at each day's target, changing height between days
+  const goalPath = days
+    .map((day, i) => {
+      const left = PADDING.left + i * dayWidth;
+      const start = i === 0 ? `M${left},${y(day.target)}` : `V${y(day.target)}`;
+      return `${start} H${left + dayWidth}`;
+    })
+    .join(" ");
+
+  const yTicks = Array.from(
+    { length: maxMinutes / (hourStep * 60) + 1 },
+    (_, i) => i * hourStep * 60
+  );
+  const xTickEvery = Math.max(1, Math.ceil(dayCount / 6));
+  const xTicks = days
+    .map((day, index) => ({ day, index }))
+    .filter(({ index }) => (dayCount - 1 - index) % xTickEvery === 0);
+
+  const axisColor = darkMode ? "#9ca3af" : "#6b7280";
+  const gridColor = darkMode ? "#374151" : "#e5e7eb";
+  const barColor = darkMode ? "#4b5563" : "#d1d5db";
+  const average7Color = "#00AEC2";
+  const average30Color = darkMode ? "#93c5fd" : "#144475";
+  const goalColor = "#22c55e";
+
+  const statCards = [
+    { label: "7-Day Average", value: formatTime(latest?.average7 || 0) },
+    { label: "30-Day Average", value: formatTime(latest?.average30 || 0) },
+    {
+      label: "Days Goal Met",
+      value: `${goalMetPercentage}%`,
+      detail: `${goalMetDays} of ${judgedDays.length} days`,
+    },
+  ];
+
+  return (
+    <div
+      className={`p-6 rounded-2xl ${
+        darkMode ? "bg-gray-800" : "bg-white"
+      } shadow-lg`}
+    >
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3
+          className={`text-xl font-semibold ${
+            darkMode ? "text-white" : "text-gray-900"
+          }`}
+        >
+          Trends
+        </h3>
+        <div className="flex flex-wrap gap-1">
+          {TREND_RANGES.map((option, index) => (
+            <button
+              key={option.label}
+              onClick={() => setRangeIndex(index)}
+              className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+                rangeIndex === index
+                  ? "bg-brand-cyan text-white"
+                  : darkMode
+                  ? "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {statCards.map((card) => (
+          <div
+            key={card.label}
+            className={`p-4 rounded-lg ${
+              darkMode ? "bg-gray-700" : "bg-gray-50"
+            }`}
+          >
+            <div
+              className={`text-sm font-medium ${
+                darkMode ? "text-gray-300" : "text-gray-600"
+              }`}
+            >
+              {card.label}
+            </div>
+            <div
+              className={`text-2xl font-bold ${
+                darkMode ? "text-white" : "text-gray-900"
+              }`}
+            >
+              {card.value}
+            </div>
+            {card.detail && (
+              <div
+                className={`text-xs ${
+                  darkMode ? "text-gray-400" : "text-gray-500"
+                }`}
+              >
+                {card.detail}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {loading && entries.length === 0 ? (
+        <div className="flex items-center justify-center h-40">
+          <div className="text-lg">Loading trends...</div>
+        </div>
+      ) : (
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label={`Daily minutes from ${rangeStart} to ${today}: 7-day average ${formatTime(
+            latest?.average7 || 0
+          )}, 30-day average ${formatTime(
+            latest?.average30 || 0
+          )}, goal met on ${goalMetPercentage}% of days`}
+        >
+          {yTicks.map((tick) => (
+            <g key={tick}>
+              <line
+                x1={PADDING.left}
+                x2={CHART_WIDTH - PADDING.right}
+                y1={y(tick)}
+                y2={y(tick)}
+                stroke={gridColor}
+              />
+              <text
+                x={PADDING.left - 6}
+                y={y(tick) + 4}
+                textAnchor="end"
+                fontSize="11"
+                fill={axisColor}
+              >
+                {tick / 60}h
+              </text>
+            </g>
+          ))}
+
+          {/* Daily minutes */}
+          {days.map((day, index) => (
+            <rect
+              key={day.date}
+              x={PADDING.left + index * dayWidth + dayWidth * 0.15}
+              y={y(day.minutes)}
+              width={dayWidth * 0.7}
+              height={Math.max(0, y(0) - y(day.minutes))}
+              fill={barColor}
+            >
+              <title>
+                {formatShortDate(day.date)}: {formatTime(day.minutes)} of{" "}
+                {formatTime(day.target)}
+              </title>
+            </rect>
+          ))}
+
+          <path
+            d={goalPath}
+            fill="none"
+            stroke={goalColor}
+            strokeWidth="2"
+            strokeDasharray="6 4"
+          />
+          <path
+            d={linePath(days.map((day) => day.average30))}
+            fill="none"
+            stroke={average30Color}
+            strokeWidth="2"
+          />
+          <path
+            d={linePath(days.map((day) => day.average7))}
+            fill="none"
+            stroke={average7Color}
+            strokeWidth="2"
+          />
+
+          {xTicks.map(({ day, index }) => (
+            <text
+              key={day.date}
+              x={x(index)}
+              y={CHART_HEIGHT - 6}
+              textAnchor="middle"
+              fontSize="11"
+              fill={axisColor}
+            >
+              {formatShortDate(day.date)}
+            </text>
+          ))}
+        </svg>
+      )}
+
+      <div
+        className={`flex flex-wrap gap-4 mt-2 text-sm ${
+          darkMode ? "text-gray-300" : "text-gray-700"
+        }`}
+      >
+        {[
+          { label: "Daily minutes", color: barColor },
+          { label: "7-day average", color: average7Color },
+          { label: "30-day average", color: average30Color },
+          { label: "Daily goal", color: goalColor },
+        ].map((item) => (
+          <div key={item.label} className="flex items-center space-x-2">
+            <div
+              className="w-3 h-3 rounded-full"
+              style={{ backgroundColor: item.color }}
+            ></div>
+            <span>{item.label}</span>
+          </div>
+        ))}
+      </div>
+      <p
+        className={`text-xs mt-2 ${
+          darkMode ? "text-gray-400" : "text-gray-500"
+        }`}
+      >
+        Only minutes counting toward the goal in force on each day are shown.
+      </p>
+    </div>
+  );
+};
+
+export default Trends;
@@ -0,0 +1,233 @@
+import React from "react";
+import { User } from "@supabase/supabase-js";
+import {
+  TherapyType,
+  countsTowardGoal,
+  getEyeLabel,
+  getTherapyType,
+} from "../utils/therapy";
+import { addDays, formatClockTime } from "../utils/dates";
+import { DailyLogEntry, useDailyLogs } from "../utils/dataCache";
+
+interface DayGoal {
+  daily_goal_minutes: number;
+  weekly_goal_minutes: number;
+  therapy_type?: TherapyType | null;
+}
+
+interface WeekViewProps {
+  user: User | null;
+  darkMode: boolean;
+  today: string; // YYYY-MM-DD in the patient's timezone
+  weekStart: string; // YYYY-MM-DD, first day of the week
+  therapyFilter: TherapyType | "all";
+  getGoalForDay: (date: string) => DayGoal; // Goal in force on that date
+}
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours}h ${mins}m`;
+};
+
+const formatDayHeader = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+
+// Seven day columns with every entry and each day's total against its goal
+const WeekView: React.FC<WeekViewProps> = ({
+  user,
+  darkMode,
+  today,
+  weekStart,
+  therapyFilter,
+  getGoalForDay,
+}) => {
+  const weekDates = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const weekEnd = weekDates[6];
+
+  const { entries, loading } = useDailyLogs(user?.id, {
+    from: weekStart,
+    to: weekEnd,
+  });
+
+  const visibleEntries = entries.filter(
+    (entry) =>
+      therapyFilter === "all" ||
+      (entry.therapy_type || "patching") === therapyFilter
+  );
+
+  const getGoalMinutes = (dayEntries: DailyLogEntry[], date: string) =>
+    dayEntries
+      .filter((entry) =>
+        countsTowardGoal(entry.therapy_type, getGoalForDay(date).therapy_type)
+      )
+      .reduce((sum, entry) => sum + entry.time_spent_minutes, 0);
+
+  const days = weekDates.map((date) => {
+    const dayEntries = visibleEntries.filter((entry) => entry.date === date);
+    return {
+      date,
+      entries: dayEntries,
+      goalMinutes: getGoalMinutes(dayEntries, date),
+      target: getGoalForDay(date).daily_goal_minutes,
+    };
+  });
+
+  // The weekly goal in force at the end of the week (or today, if earlier)
+  const weeklyGoal = getGoalForDay(
+    weekEnd < today ? weekEnd : today
+  ).weekly_goal_minutes;
+  const weekTotal = days.reduce((sum, day) => sum + day.goalMinutes, 0);
+  const weekPercentage = Math.round((weekTotal / weeklyGoal) * 100);
+
+  const getBarColor = (percentage: number) => {
+    if (percentage >= 100) return "bg-green-500";
+    if (percentage >= 75) return "bg-green-400";
+    if (percentage >= 50) return "bg-yellow-400";
+    if (percentage >= 25) return "bg-orange-400";
+    return "bg-red-400";
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <div className="text-lg">Loading week...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Week total against the weekly goal */}
+      <div>
+        <div className="flex justify-between items-baseline mb-1">
+          <span
+            className={`font-semibold ${
+              darkMode ? "text-white" : "text-gray-900"
+            }`}
+          >
+            Week Total: {formatTime(weekTotal)}
+          </span>
+          <span
+            className={`text-sm ${
+              darkMode ? "text-gray-300" : "text-gray-600"
+            }`}
+          >
+            {weekPercentage}% of {formatTime(weeklyGoal)} weekly goal
+          </span>
+        </div>
+        <div
+          className={`h-3 rounded-full overflow-hidden ${
+            darkMode ? "bg-gray-700" : "bg-gray-200"
+          }`}
+        >
+          <div
+            className={`h-3 ${getBarColor(weekPercentage)}`}
+            style={{ width: `${Math.min(weekPercentage, 100)}%` }}
+          ></div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+        {days.map((day) => {
+          const percentage =
+            day.target > 0
+              ? Math.round((day.goalMinutes / day.target) * 100)
+              : 0;
+          return (
+            <div
+              key={day.date}
+              className={`rounded-lg p-2 border-2 ${
+                day.date === today
+                  ? "border-brand-cyan"
+                  : darkMode
+                  ? "border-gray-700"
+                  : "border-gray-100"
+              } ${day.date > today ? "opacity-60" : ""}`}
+            >
+              <div
+                className={`text-sm font-semibold ${
+                  darkMode ? "text-white" : "text-gray-900"
+                }`}
+              >
+                {formatDayHeader(day.date)}
+              </div>
+              <div
+                className={`text-xs mb-1 ${
+                  darkMode ? "text-gray-400" : "text-gray-600"
+                }`}
+              >
+                {formatTime(day.goalMinutes)} / {formatTime(day.target)}
+              </div>
+              <div
+                className={`h-1.5 rounded-full overflow-hidden mb-2 ${
+                  darkMode ? "bg-gray-700" : "bg-gray-200"
+                }`}
+              >
+                {day.entries.length > 0 && (
+                  <div
+                    className={`h-1.5 ${getBarColor(percentage)}`}
+                    style={{ width: `${Math.min(percentage, 100)}%` }}
+                  ></div>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                {day.entries.map((entry) => {
+                  const therapy = getTherapyType(entry.therapy_type);
+                  const eyeLabel = getEyeLabel(entry.eye);
+                  return (
+                    <div
+                      key={entry.id}
+                      className={`p-1.5 rounded text-xs border-l-4 ${
+                        darkMode
+                          ? "bg-gray-700 text-gray-200"
+                          : "bg-gray-50 text-gray-800"
+                      }`}
+                      style={{ borderLeftColor: therapy.color }}
+                    >
+                      <div className="font-medium">
+                        {formatTime(entry.time_spent_minutes)}
+                        {entry.is_backfilled && " · backfilled"}
+                      </div>
+                      {entry.started_at && entry.ended_at && (
+                        <div className="opacity-75">
+                          {formatClockTime(entry.started_at)} –{" "}
+                          {formatClockTime(entry.ended_at)}
+                        </div>
+                      )}
+                      <div className="opacity-75">
+                        {therapy.label}
+                        {eyeLabel && ` · ${eyeLabel}`}
+                      </div>
+                      {entry.notes && (
+                        <div className="mt-1 italic break-words">
+                          {entry.notes}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {day.entries.length === 0 && (
+                  <div
+                    className={`text-xs ${
+                      darkMode ? "text-gray-500" : "text-gray-400"
+                    }`}
+                  >
+                    No entries
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default WeekView;
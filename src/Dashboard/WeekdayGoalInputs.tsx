@@ -0,0 +1,45 @@
+import React from "react";
+import { WEEKDAY_DISPLAY_ORDER, WEEKDAY_NAMES } from "../utils/goals";
+
+interface WeekdayGoalInputsProps {
+  values: number[]; // Sunday first
+  onChange: (day: number, minutes: number) => void;
+  darkMode: boolean;
+}
+
+// One minutes input per weekday, shown Monday first
+const WeekdayGoalInputs: React.FC<WeekdayGoalInputsProps> = ({
+  values,
+  onChange,
+  darkMode,
+}) => (
+  <div className="grid grid-cols-4 sm:grid-cols-7 gap-2">
+    {WEEKDAY_DISPLAY_ORDER.map((day) => (
+      <div key={day}>
+        <div
+          className={`text-xs text-center mb-1 ${
+            darkMode ? "text-gray-400" : "text-gray-600"
+          }`}
+        >
+          {WEEKDAY_NAMES[day]}
+        </div>
+        <input
+          type="number"
+          min="1"
+          max="1440"
+          value={values[day]}
+          onChange={(e) => onChange(day, parseInt(e.target.value) || 0)}
+          aria-label={`${WEEKDAY_NAMES[day]} goal in minutes`}
+          className={`w-full px-2 py-2 border rounded-lg text-sm text-center focus:ring-2 focus:ring-brand-cyan focus:border-transparent transition-colors ${
+            darkMode
+              ? "bg-gray-700 border-gray-600 text-white"
+              : "border-gray-300"
+          }`}
+          required
+        />
+      </div>
+    ))}
+  </div>
+);
+
+export default WeekdayGoalInputs;
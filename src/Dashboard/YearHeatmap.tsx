@@ -0,0 +1,224 @@
+import React from "react";
+import { User } from "@supabase/supabase-js";
+import { TherapyType, countsTowardGoal } from "../utils/therapy";
+import { addDays, getWeekStartDate, getWeekdayOrder } from "../utils/dates";
+import { WEEKDAY_NAMES } from "../utils/goals";
+import { useDailyLogs } from "../utils/dataCache";
+
+interface DayGoal {
+  daily_goal_minutes: number;
+  therapy_type?: TherapyType | null;
+}
+
+interface YearHeatmapProps {
+  user: User | null;
+  darkMode: boolean;
+  today: string; // YYYY-MM-DD in the patient's timezone
+  year: number;
+  weekStart: number; // First day of the week, 0 = Sunday
+  therapyFilter: TherapyType | "all";
+  getGoalForDay: (date: string) => DayGoal; // Goal in force on that date
+  onSelectMonth: (month: number) => void; // 0-based
+}
+
+const monthLabels = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const formatTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours}h ${mins}m`;
+};
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+// One cell per day of the year, in week columns, coloured by goal percentage
+const YearHeatmap: React.FC<YearHeatmapProps> = ({
+  user,
+  darkMode,
+  today,
+  year,
+  weekStart,
+  therapyFilter,
+  getGoalForDay,
+  onSelectMonth,
+}) => {
+  const { entries: logs, loading } = useDailyLogs(user?.id, {
+    from: `${year}-01-01`,
+    to: `${year}-12-31`,
+  });
+
+  // Minutes per date: all visible entries and those counting toward the goal
+  const totals = new Map<string, { total: number; goal: number }>();
+  logs
+    .filter(
+      (log) =>
+        therapyFilter === "all" ||
+        (log.therapy_type || "patching") === therapyFilter
+    )
+    .forEach((log) => {
+      const current = totals.get(log.date) || { total: 0, goal: 0 };
+      const counts = countsTowardGoal(
+        log.therapy_type,
+        getGoalForDay(log.date).therapy_type
+      );
+      totals.set(log.date, {
+        total: current.total + log.time_spent_minutes,
+        goal: current.goal + (counts ? log.time_spent_minutes : 0),
+      });
+    });
+
+  // Columns start on the first day of the week on or before January 1st
+  const firstDay = `${year}-01-01`;
+  const lastDay = `${year}-12-31`;
+  const gridStart = getWeekStartDate(firstDay, weekStart);
+  const weeks: string[][] = [];
+  for (let date = gridStart; date <= lastDay; date = addDays(date, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => addDays(date, i)));
+  }
+
+  const getCellColor = (date: string) => {
+    const day = totals.get(date);
+    if (!day || day.total === 0) {
+      return darkMode ? "bg-gray-700" : "bg-gray-100";
+    }
+
+    const percentage =
+      (day.goal / getGoalForDay(date).daily_goal_minutes) * 100;
+
+    if (percentage >= 100) return "bg-green-500";
+    if (percentage >= 75) return "bg-green-400";
+    if (percentage >= 50) return "bg-yellow-400";
+    if (percentage >= 25) return "bg-orange-400";
+    return "bg-red-400";
+  };
+
+  const getTooltip = (date: string) => {
+    const day = totals.get(date);
+    if (date > today) return formatDate(date);
+    if (!day || day.total === 0) return `${formatDate(date)}: no activity`;
+
+    const goalMinutes = getGoalForDay(date).daily_goal_minutes;
+    return `${formatDate(date)}: ${formatTime(day.goal)} of ${formatTime(
+      goalMinutes
+    )} (${Math.round((day.goal / goalMinutes) * 100)}%)`;
+  };
+
+  const activeDays = Array.from(totals.entries()).filter(
+    ([date, day]) => day.total > 0 && date <= today
+  );
+  const goalMetDays = activeDays.filter(
+    ([date, day]) => day.goal >= getGoalForDay(date).daily_goal_minutes
+  ).length;
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <div className="text-lg">Loading year...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <div className="inline-flex flex-col min-w-max">
+          {/* Month labels above the week in which each month starts */}
+          <div className="flex ml-8 mb-1">
+            {weeks.map((week, index) => {
+              const monthStart = week.find(
+                (date) => date.endsWith("-01") && date.startsWith(`${year}-`)
+              );
+              const month = monthStart
+                ? parseInt(monthStart.slice(5, 7)) - 1
+                : null;
+              return (
+                <div key={index} className="w-4 mr-0.5 relative h-4">
+                  {month !== null && (
+                    <button
+                      onClick={() => onSelectMonth(month)}
+                      className={`absolute left-0 text-xs hover:underline ${
+                        darkMode ? "text-gray-400" : "text-gray-600"
+                      }`}
+                    >
+                      {monthLabels[month]}
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex">
+            {/* Weekday labels */}
+            <div
+              className={`flex flex-col w-8 text-xs ${
+                darkMode ? "text-gray-400" : "text-gray-600"
+              }`}
+            >
+              {getWeekdayOrder(weekStart).map((day, index) => (
+                <div key={day} className="h-4 mb-0.5 leading-4">
+                  {index % 2 === 1 ? WEEKDAY_NAMES[day] : ""}
+                </div>
+              ))}
+            </div>
+
+            {weeks.map((week, weekIndex) => (
+              <div key={weekIndex} className="flex flex-col mr-0.5">
+                {week.map((date) => {
+                  if (date < firstDay || date > lastDay) {
+                    return <div key={date} className="w-4 h-4 mb-0.5"></div>;
+                  }
+                  return (
+                    <button
+                      key={date}
+                      title={getTooltip(date)}
+                      aria-label={getTooltip(date)}
+                      onClick={() =>
+                        onSelectMonth(parseInt(date.slice(5, 7)) - 1)
+                      }
+                      className={`w-4 h-4 mb-0.5 rounded-sm hover:ring-2 hover:ring-brand-cyan ${getCellColor(
+                        date
+                      )} ${date > today ? "opacity-40" : ""} ${
+                        date === today ? "ring-2 ring-brand-cyan" : ""
+                      }`}
+                    ></button>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <p
+        className={`text-sm mt-3 ${
+          darkMode ? "text-gray-300" : "text-gray-600"
+        }`}
+      >
+        {activeDays.length} active days in {year}, goal met on {goalMetDays}.
+        Click a day or month to open it.
+      </p>
+    </div>
+  );
+};
+
+export default YearHeatmap;
@@ -0,0 +1,26 @@
+import { BADGES } from "./achievements";
+
+jest.mock("../config/supabase", () => ({ supabase: {} }));
+
+// Badge ids awarded by refresh_achievements() in database_achievements.sql
+const SERVER_BADGE_IDS = [
+  "first_entry",
+  "first_goal_day",
+  "streak_3",
+  "streak_7",
+  "streak_14",
+  "streak_30",
+  "first_full_week",
+  "hours_10",
+  "hours_50",
+  "hours_100",
+];
+
+describe("BADGES", () => {
+  it("shows every badge the server awards, once", () => {
+    const ids = BADGES.map((badge) => badge.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect([...ids].sort()).toEqual([...SERVER_BADGE_IDS].sort());
+  });
+});
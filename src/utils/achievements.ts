@@ -0,0 +1,104 @@
+// Streaks and badges earned for logging and meeting goals.
+// The server works out which badges are earned (database_achievements.sql);
+// this file holds how each badge is shown.
+import { supabase } from "../config/supabase";
+
+export interface Badge {
+  id: string;
+  label: string;
+  description: string; // How the badge is earned
+  icon: string;
+}
+
+export interface EarnedBadge {
+  badge_id: string;
+  earned_on: string; // YYYY-MM-DD
+  is_new: boolean; // Earned by the refresh that returned it
+}
+
+export interface Achievements {
+  current_streak: number; // Goal days in a row, up to today or yesterday
+  best_streak: number;
+  achievements: EarnedBadge[];
+}
+
+// In the order they are shown, roughly from easiest to hardest
+export const BADGES: Badge[] = [
+  {
+    id: "first_entry",
+    label: "First Step",
+    description: "Log your first session",
+    icon: "🌱",
+  },
+  {
+    id: "first_goal_day",
+    label: "Goal Getter",
+    description: "Reach your daily goal",
+    icon: "⭐",
+  },
+  {
+    id: "streak_3",
+    label: "On Fire",
+    description: "Reach your goal 3 days in a row",
+    icon: "🔥",
+  },
+  {
+    id: "streak_7",
+    label: "Week Warrior",
+    description: "Reach your goal 7 days in a row",
+    icon: "🛡️",
+  },
+  {
+    id: "first_full_week",
+    label: "Perfect Week",
+    description: "Reach your goal every day of a week",
+    icon: "🌈",
+  },
+  {
+    id: "streak_14",
+    label: "Unstoppable",
+    description: "Reach your goal 14 days in a row",
+    icon: "🚀",
+  },
+  {
+    id: "streak_30",
+    label: "Champion",
+    description: "Reach your goal 30 days in a row",
+    icon: "👑",
+  },
+  {
+    id: "hours_10",
+    label: "10 Hours",
+    description: "Log 10 hours in total",
+    icon: "🎈",
+  },
+  {
+    id: "hours_50",
+    label: "50 Hours",
+    description: "Log 50 hours in total",
+    icon: "🎁",
+  },
+  {
+    id: "hours_100",
+    label: "100 Hours",
+    description: "Log 100 hours in total",
+    icon: "🏆",
+  },
+];
+
+/**
+ * Awards badges earned since the last call and returns all of them
+ */
+export const fetchAchievements = async (
+  userId: string
+): Promise<Achievements> => {
+  const { data, error } = await supabase.rpc("refresh_achievements", {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+
+  if (!data.success) throw data;
+
+  return data;
+};
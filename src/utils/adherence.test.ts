@@ -0,0 +1,31 @@
+import { PatientAdherence, describeFlagReason } from "./adherence";
+
+jest.mock("../config/supabase", () => ({ supabase: {} }));
+
+const adherence: PatientAdherence = {
+  patient_id: "patient",
+  window_from: "2024-03-06",
+  window_to: "2024-03-19",
+  days_counted: 14,
+  logged_minutes: 2100,
+  prescribed_minutes: 3360,
+  adherence_percent: 63,
+  zero_log_days: 4,
+  flag_reasons: ["LOW_ADHERENCE", "ZERO_LOG_DAYS"],
+};
+
+const settings = { window_days: 14, threshold_percent: 80, max_zero_days: 2 };
+
+describe("describeFlagReason", () => {
+  it("explains each reason with the patient's numbers and the limits", () => {
+    expect(describeFlagReason("NO_ENTRIES", adherence, settings)).toBe(
+      "No entries logged yet"
+    );
+    expect(describeFlagReason("LOW_ADHERENCE", adherence, settings)).toBe(
+      "Adherence 63% is below 80%"
+    );
+    expect(describeFlagReason("ZERO_LOG_DAYS", adherence, settings)).toBe(
+      "4 of 14 days without entries (more than 2)"
+    );
+  });
+});
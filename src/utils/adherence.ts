@@ -0,0 +1,82 @@
+// Adherence scores and at-risk flags of a doctor's patients
+// (database_adherence.sql)
+import { supabase } from "../config/supabase";
+
+export type AdherenceFlagReason =
+  | "NO_ENTRIES"
+  | "LOW_ADHERENCE"
+  | "ZERO_LOG_DAYS";
+
+export interface AdherenceSettings {
+  window_days: number; // Past days the score covers, today excluded
+  threshold_percent: number; // Scores below this are flagged
+  max_zero_days: number; // More days without entries are flagged
+}
+
+export interface PatientAdherence {
+  patient_id: string;
+  window_from: string; // YYYY-MM-DD, no earlier than the first entry
+  window_to: string; // YYYY-MM-DD, yesterday in the patient's timezone
+  days_counted: number;
+  logged_minutes: number; // Minutes counting toward the goal in force
+  prescribed_minutes: number;
+  adherence_percent: number | null; // null when nothing was prescribed
+  zero_log_days: number;
+  flag_reasons: AdherenceFlagReason[]; // Empty when not flagged
+}
+
+export interface AdherenceReport extends AdherenceSettings {
+  patients: PatientAdherence[];
+}
+
+export const ADHERENCE_WINDOW_OPTIONS = [7, 14, 30, 60, 90];
+
+/**
+ * Loads the calling doctor's settings and the adherence of each patient
+ */
+export const fetchAdherence = async (): Promise<AdherenceReport> => {
+  const { data, error } = await supabase.rpc("get_patient_adherence");
+
+  if (error) throw error;
+
+  if (!data.success) throw data;
+
+  return data;
+};
+
+/**
+ * Saves the doctor's settings on their user_data row
+ */
+export const saveAdherenceSettings = async (
+  doctorId: string,
+  settings: AdherenceSettings
+) => {
+  const { error } = await supabase
+    .from("user_data")
+    .update({
+      adherence_window_days: settings.window_days,
+      adherence_threshold_percent: settings.threshold_percent,
+      adherence_max_zero_days: settings.max_zero_days,
+    })
+    .eq("user_id", doctorId);
+
+  if (error) throw error;
+};
+
+/**
+ * Why a patient was flagged, in words
+ */
+export const describeFlagReason = (
+  reason: AdherenceFlagReason,
+  adherence: PatientAdherence,
+  settings: AdherenceSettings
+): string => {
+  switch (reason) {
+    case "NO_ENTRIES":
+      return "No entries logged yet";
+    case "LOW_ADHERENCE":
+      return `Adherence ${adherence.adherence_percent}% is below ${settings.threshold_percent}%`;
+    case "ZERO_LOG_DAYS":
+      return `${adherence.zero_log_days} of ${adherence.days_counted} days without entries (more than ${settings.max_zero_days})`;
+  }
+};
@@ -0,0 +1,488 @@
+// Shared, cached access to activity logs and goals.
+// Every component asking for the same data shares one cached result and one
+// request in flight. Writes invalidate only the cached ranges they touch, and
+// components showing that data reload it on their own.
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "../config/supabase";
+import { TherapyType } from "./therapy";
+import { Achievements, fetchAchievements } from "./achievements";
+import { RewardsData, fetchRewards } from "./rewards";
+import { AdherenceReport, fetchAdherence } from "./adherence";
+import {
+  DEFAULT_DAILY_GOAL_MINUTES,
+  DEFAULT_WEEKLY_GOAL_MINUTES,
+  GoalVersion,
+  fetchGoalHistory,
+  getDailyTargetForDate,
+  getGoalForDate,
+} from "./goals";
+
+export interface DailyLogEntry {
+  id: string;
+  date: string;
+  time_spent_minutes: number;
+  notes?: string | null;
+  created_at?: string;
+  started_at?: string | null;
+  ended_at?: string | null;
+  therapy_type?: TherapyType;
+  eye?: string | null;
+  is_backfilled?: boolean;
+  source?: "manual" | "import";
+}
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+}
+
+export interface UserGoals {
+  daily_goal_minutes: number;
+  weekly_goal_minutes: number;
+  weekday_goal_minutes?: number[] | null;
+  therapy_type?: TherapyType | null;
+}
+
+interface GoalsData {
+  current: UserGoals;
+  versions: GoalVersion[];
+}
+
+interface CacheEntry<T> {
+  data?: T;
+  fetchedAt: number;
+  stale: boolean;
+  promise?: Promise<T>;
+}
+
+// Row level security code returned when the session ends during a request
+export const RLS_ERROR_CODE = "42501";
+
+// Cached data is refetched after this long even without an invalidation
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+const LOG_PAGE_SIZE = 1000;
+
+const LOG_COLUMNS =
+  "id, date, time_spent_minutes, notes, created_at, started_at, ended_at, therapy_type, eye, is_backfilled, source";
+
+const cache = new Map<string, CacheEntry<any>>();
+const listeners = new Map<string, Set<() => void>>();
+
+/**
+ * Logs a failed request in development, except RLS errors which are expected
+ * during logout
+ */
+export const reportDataError = (message: string, error: any) => {
+  if (error?.code !== RLS_ERROR_CODE && process.env.NODE_ENV !== "production") {
+    console.error(message, error);
+  }
+};
+
+const logsKey = (userId: string, range: DateRange) =>
+  `daily_logs|${userId}|${range.from}|${range.to}`;
+
+const goalsKey = (userId: string) => `goals|${userId}`;
+
+const achievementsKey = (userId: string) => `achievements|${userId}`;
+
+const rewardsKey = (userId: string) => `rewards|${userId}`;
+
+const firstLogKey = (userId: string) => `first_log|${userId}`;
+
+const adherenceKey = (doctorId: string) => `adherence|${doctorId}`;
+
+// Data worked out from every log and goal of the patient. Adherence scores
+// are cached per doctor, so any patient's change drops all of them.
+const isProgressKey = (key: string, userId: string) =>
+  key === achievementsKey(userId) ||
+  key === rewardsKey(userId) ||
+  key === firstLogKey(userId) ||
+  key.startsWith("adherence|");
+
+// Returns the cached value, or starts one request shared by every caller
+const loadQuery = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const entry: CacheEntry<T> | undefined = cache.get(key);
+
+  if (entry?.promise) return entry.promise;
+  if (
+    entry?.data !== undefined &&
+    !entry.stale &&
+    Date.now() - entry.fetchedAt < CACHE_DURATION
+  ) {
+    return Promise.resolve(entry.data);
+  }
+
+  const promise = fetcher().then(
+    (data) => {
+      // A newer request may have replaced this one after an invalidation
+      if (cache.get(key)?.promise === promise) {
+        cache.set(key, { data, fetchedAt: Date.now(), stale: false });
+      }
+      return data;
+    },
+    (error) => {
+      if (cache.get(key)?.promise === promise) {
+        cache.set(key, { ...cache.get(key)!, promise: undefined });
+      }
+      throw error;
+    }
+  );
+
+  cache.set(key, {
+    data: entry?.data,
+    fetchedAt: entry?.fetchedAt ?? 0,
+    stale: entry?.stale ?? false,
+    promise,
+  });
+  return promise;
+};
+
+const subscribe = (key: string, listener: () => void) => {
+  if (!listeners.has(key)) {
+    listeners.set(key, new Set());
+  }
+  listeners.get(key)!.add(listener);
+
+  return () => {
+    const keyListeners = listeners.get(key);
+    keyListeners?.delete(listener);
+    if (keyListeners?.size === 0) {
+      listeners.delete(key);
+    }
+  };
+};
+
+// Marks matching entries stale; mounted components showing them reload
+const invalidate = (matches: (key: string) => boolean) => {
+  Array.from(cache.keys())
+    .filter(matches)
+    .forEach((key) => {
+      if (listeners.has(key)) {
+        cache.set(key, { ...cache.get(key)!, stale: true, promise: undefined });
+        listeners.get(key)!.forEach((listener) => listener());
+      } else {
+        cache.delete(key);
+      }
+    });
+};
+
+/**
+ * Drops cached logs of a patient. With a date, only ranges containing that
+ * date are dropped. Achievements, rewards, the first log date and adherence
+ * scores depend on every log and are always dropped.
+ */
+export const invalidateDailyLogs = (userId: string, date?: string) => {
+  invalidate((key) => {
+    const [type, keyUserId, from, to] = key.split("|");
+    return (
+      (type === "daily_logs" &&
+        keyUserId === userId &&
+        (!date || (from <= date && date <= to))) ||
+      isProgressKey(key, userId)
+    );
+  });
+};
+
+/**
+ * Whether a log entry is in any cached range of the patient
+ */
+export const isDailyLogCached = (userId: string, logId: string) =>
+  Array.from(cache.keys()).some((key) => {
+    const [type, keyUserId] = key.split("|");
+    const logs: DailyLogEntry[] | undefined = cache.get(key)!.data;
+    return (
+      type === "daily_logs" &&
+      keyUserId === userId &&
+      !!logs &&
+      logs.some((log) => log.id === logId)
+    );
+  });
+
+/**
+ * Drops the cached goals and goal history of a patient, and the achievements,
+ * rewards and adherence scores judged against them
+ */
+export const invalidateGoals = (userId: string) => {
+  invalidate((key) => key === goalsKey(userId) || isProgressKey(key, userId));
+};
+
+/**
+ * Drops the cached rewards of a patient after one is added, changed or claimed
+ */
+export const invalidateRewards = (userId: string) => {
+  invalidate((key) => key === rewardsKey(userId));
+};
+
+/**
+ * Drops a doctor's cached adherence scores after their settings change
+ */
+export const invalidateAdherence = (doctorId: string) => {
+  invalidate((key) => key === adherenceKey(doctorId));
+};
+
+/**
+ * Forgets everything, e.g. when the user signs out
+ */
+export const clearDataCache = () => {
+  cache.clear();
+};
+
+// Subscribes a component to one cache key and keeps it loaded
+const useCachedQuery = <T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  errorMessage: string
+) => {
+  const [data, setData] = useState<T | undefined>(
+    key ? cache.get(key)?.data : undefined
+  );
+  const [loading, setLoading] = useState(key !== null);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    if (!key) {
+      setData(undefined);
+      setLoading(false);
+      return;
+    }
+
+    let active = true;
+    let latestLoad = 0;
+
+    const load = () => {
+      const loadId = ++latestLoad;
+      // Cached data is shown right away, even while it is being refreshed
+      const cached = cache.get(key)?.data;
+      setData(cached);
+      setLoading(cached === undefined);
+
+      loadQuery(key, fetcherRef.current)
+        .then((result) => {
+          // An invalidation may have started a newer load meanwhile
+          if (active && loadId === latestLoad) setData(result);
+        })
+        .catch((error) => {
+          reportDataError(errorMessage, error);
+        })
+        .finally(() => {
+          if (active && loadId === latestLoad) setLoading(false);
+        });
+    };
+
+    load();
+    const unsubscribe = subscribe(key, load);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [key, errorMessage]);
+
+  return { data, loading };
+};
+
+// Read in pages, as Supabase returns at most 1000 rows per request
+const fetchDailyLogs = async (
+  userId: string,
+  range: DateRange
+): Promise<DailyLogEntry[]> => {
+  const logs: DailyLogEntry[] = [];
+  let pageFull = true;
+
+  while (pageFull) {
+    const { data, error } = await supabase
+      .from("daily_logs")
+      .select(LOG_COLUMNS)
+      .eq("user_id", userId)
+      .gte("date", range.from)
+      .lte("date", range.to)
+      .order("date", { ascending: true })
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(logs.length, logs.length + LOG_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    logs.push(...(data || []));
+    pageFull = (data || []).length === LOG_PAGE_SIZE;
+  }
+
+  return logs;
+};
+
+const fetchFirstLogDate = async (userId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from("daily_logs")
+    .select("date")
+    .eq("user_id", userId)
+    .order("date", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.date ?? null;
+};
+
+// Reads the current goals, creating the default ones on a patient's first visit
+const fetchCurrentGoals = async (userId: string): Promise<UserGoals> => {
+  const defaults: UserGoals = {
+    daily_goal_minutes: DEFAULT_DAILY_GOAL_MINUTES,
+    weekly_goal_minutes: DEFAULT_WEEKLY_GOAL_MINUTES,
+  };
+
+  const { data, error } = await supabase
+    .from("user_goals")
+    .select(
+      "daily_goal_minutes, weekly_goal_minutes, weekday_goal_minutes, therapy_type"
+    )
+    .eq("user_id", userId)
+    .single();
+
+  if (error && error.code !== "PGRST116") throw error;
+
+  if (data) return data;
+
+  // Only the patient creates their own defaults, and only with a live session
+  const { data: session } = await supabase.auth.getSession();
+  if (session?.session?.user?.id === userId) {
+    const { error: insertError } = await supabase
+      .from("user_goals")
+      .insert([{ user_id: userId, ...defaults }]);
+
+    if (insertError) {
+      reportDataError("Error creating default goals:", insertError);
+    }
+  }
+
+  return defaults;
+};
+
+const fetchGoals = async (userId: string): Promise<GoalsData> => {
+  const [current, versions] = await Promise.all([
+    fetchCurrentGoals(userId),
+    fetchGoalHistory(userId),
+  ]);
+  return { current, versions };
+};
+
+/**
+ * Activity entries of a patient within the range, oldest first
+ */
+export const useDailyLogs = (userId: string | undefined, range: DateRange) => {
+  const { data, loading } = useCachedQuery(
+    userId ? logsKey(userId, range) : null,
+    () => fetchDailyLogs(userId!, range),
+    "Error fetching activity logs:"
+  );
+
+  return { entries: data || [], loading };
+};
+
+/**
+ * Date of a patient's first activity entry, null before anything is logged
+ */
+export const useFirstLogDate = (userId: string | undefined) => {
+  const { data, loading } = useCachedQuery(
+    userId ? firstLogKey(userId) : null,
+    () => fetchFirstLogDate(userId!),
+    "Error fetching the first log date:"
+  );
+
+  return { firstLogDate: data ?? null, loading };
+};
+
+/**
+ * Current goals and goal history of a patient. getGoalForDay() returns the
+ * goal in force on a date, with daily_goal_minutes resolved to that
+ * weekday's target.
+ */
+export const useGoals = (userId: string | undefined) => {
+  const { data, loading } = useCachedQuery(
+    userId ? goalsKey(userId) : null,
+    () => fetchGoals(userId!),
+    "Error fetching goals:"
+  );
+
+  const current = data?.current;
+  const versions = data?.versions;
+
+  const getGoalForDay = useCallback(
+    (date: string): UserGoals => {
+      const goal =
+        versions && versions.length > 0
+          ? getGoalForDate(versions, date)
+          : current || {
+              daily_goal_minutes: DEFAULT_DAILY_GOAL_MINUTES,
+              weekly_goal_minutes: DEFAULT_WEEKLY_GOAL_MINUTES,
+            };
+      return { ...goal, daily_goal_minutes: getDailyTargetForDate(goal, date) };
+    },
+    [current, versions]
+  );
+
+  return { versions: versions || [], getGoalForDay, loading };
+};
+
+/**
+ * Entries grouped per date, in the order the entries are given
+ */
+export const groupLogsByDate = <T extends { date: string }>(
+  entries: T[]
+): Map<string, T[]> => {
+  const byDate = new Map<string, T[]>();
+  entries.forEach((entry) => {
+    if (!byDate.has(entry.date)) {
+      byDate.set(entry.date, []);
+    }
+    byDate.get(entry.date)!.push(entry);
+  });
+  return byDate;
+};
+
+/**
+ * Badges and streaks of a patient; newly earned badges are awarded on load
+ */
+export const useAchievements = (userId: string | undefined) => {
+  const { data, loading } = useCachedQuery<Achievements>(
+    userId ? achievementsKey(userId) : null,
+    () => fetchAchievements(userId!),
+    "Error fetching achievements:"
+  );
+
+  return { achievements: data, loading };
+};
+
+/**
+ * Rewards of a patient with their progress
+ */
+export const useRewards = (userId: string | undefined) => {
+  const { data, loading } = useCachedQuery<RewardsData>(
+    userId ? rewardsKey(userId) : null,
+    () => fetchRewards(userId!),
+    "Error fetching rewards:"
+  );
+
+  return { rewards: data?.rewards || [], today: data?.today, loading };
+};
+
+/**
+ * Adherence scores and flags of every patient of a doctor, with the doctor's
+ * settings
+ */
+export const useAdherence = (doctorId: string | undefined) => {
+  const { data, loading } = useCachedQuery<AdherenceReport>(
+    doctorId ? adherenceKey(doctorId) : null,
+    fetchAdherence,
+    "Error fetching adherence:"
+  );
+
+  const getAdherence = useCallback(
+    (patientId: string) =>
+      data?.patients.find((patient) => patient.patient_id === patientId),
+    [data]
+  );
+
+  return { report: data, getAdherence, loading };
+};
@@ -0,0 +1,68 @@
+import {
+  DEFAULT_WEEK_START,
+  addDays,
+  getWeekStartDate,
+  getWeekdayOrder,
+  resolveWeekStart,
+  setUserTimeZone,
+  toLocalTimestamp,
+} from "./dates";
+
+jest.mock("../config/supabase", () => ({ supabase: {} }));
+
+describe("toLocalTimestamp", () => {
+  afterEach(() => {
+    setUserTimeZone(null);
+  });
+
+  it("reads the time in the saved timezone", () => {
+    setUserTimeZone("America/New_York");
+    expect(toLocalTimestamp("2024-01-10", "09:30")).toBe(
+      "2024-01-10T14:30:00.000Z"
+    );
+
+    setUserTimeZone("Asia/Kolkata");
+    expect(toLocalTimestamp("2024-07-01", "23:59")).toBe(
+      "2024-07-01T18:29:00.000Z"
+    );
+  });
+
+  it("uses the offset in force on the day, across DST changes", () => {
+    setUserTimeZone("Europe/Ljubljana");
+    expect(toLocalTimestamp("2024-03-30", "12:00")).toBe(
+      "2024-03-30T11:00:00.000Z"
+    );
+    expect(toLocalTimestamp("2024-03-31", "12:00")).toBe(
+      "2024-03-31T10:00:00.000Z"
+    );
+  });
+});
+
+describe("week start", () => {
+  it("defaults to Monday when no setting is saved", () => {
+    expect(DEFAULT_WEEK_START).toBe(1);
+    expect(resolveWeekStart(null)).toBe(1);
+    expect(resolveWeekStart(undefined)).toBe(1);
+    expect(resolveWeekStart(0)).toBe(0);
+  });
+
+  it("finds the first day of the week for each week start", () => {
+    // 2024-03-20 is a Wednesday
+    expect(getWeekStartDate("2024-03-20", 1)).toBe("2024-03-18");
+    expect(getWeekStartDate("2024-03-20", 0)).toBe("2024-03-17");
+    expect(getWeekStartDate("2024-03-20", 6)).toBe("2024-03-16");
+    expect(getWeekStartDate("2024-03-18", 1)).toBe("2024-03-18");
+  });
+
+  it("orders weekdays from the week start", () => {
+    expect(getWeekdayOrder(1)).toEqual([1, 2, 3, 4, 5, 6, 0]);
+    expect(getWeekdayOrder(6)).toEqual([6, 0, 1, 2, 3, 4, 5]);
+  });
+});
+
+describe("addDays", () => {
+  it("crosses month and year ends", () => {
+    expect(addDays("2024-02-28", 2)).toBe("2024-03-01");
+    expect(addDays("2024-01-01", -1)).toBe("2023-12-31");
+  });
+});
@@ -0,0 +1,212 @@
+// Date helpers shared by the logging components
+import { supabase } from "../config/supabase";
+
+// Timezone "today" is computed in; the browser's until the profile is loaded
+let userTimeZone: string | null = null;
+
+/**
+ * Formats a date as YYYY-MM-DD in local time (avoids the UTC shift of toISOString)
+ */
+export const getLocalDateString = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Formats an instant as YYYY-MM-DD in an IANA timezone
+ */
+export const getDateStringInTimeZone = (
+  date: Date,
+  timeZone: string
+): string => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) =>
+    parts.find((item) => item.type === type)?.value || "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+};
+
+/**
+ * The browser's IANA timezone, e.g. "Europe/Ljubljana"
+ */
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Sets the timezone used for "today" (the signed-in user's saved timezone)
+ */
+export const setUserTimeZone = (timeZone: string | null): void => {
+  userTimeZone = timeZone;
+};
+
+/**
+ * Today's date in the user's timezone
+ */
+export const getToday = (): string =>
+  userTimeZone
+    ? getDateStringInTimeZone(new Date(), userTimeZone)
+    : getLocalDateString(new Date());
+
+/**
+ * Returns the date string `days` days before today
+ */
+export const getDateStringDaysAgo = (days: number): string =>
+  addDays(getToday(), -days);
+
+/**
+ * Today in a patient's timezone, as computed by the server, so doctors and
+ * patients agree on the day; falls back to the local today
+ */
+export const fetchUserToday = async (userId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("get_user_today", {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+
+  return data?.success ? data.today : getToday();
+};
+
+/**
+ * Adds a number of days to a YYYY-MM-DD date
+ */
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00`);
+  result.setDate(result.getDate() + days);
+  return getLocalDateString(result);
+};
+
+/**
+ * Milliseconds an IANA timezone is ahead of UTC at an instant
+ */
+const getTimeZoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) =>
+    Number(parts.find((item) => item.type === type)?.value || 0);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+};
+
+/**
+ * Combines a YYYY-MM-DD date and an HH:MM time in the user's timezone into an
+ * ISO timestamp
+ */
+export const toLocalTimestamp = (date: string, time: string): string => {
+  if (!userTimeZone) return new Date(`${date}T${time}`).toISOString();
+
+  const wallClock = Date.parse(`${date}T${time}Z`);
+  const guess = wallClock - getTimeZoneOffset(wallClock, userTimeZone);
+  // The offset can differ on the other side of a DST change
+  return new Date(
+    wallClock - getTimeZoneOffset(guess, userTimeZone)
+  ).toISOString();
+};
+
+/**
+ * Formats a timestamp as a short time in the user's timezone, e.g. "09:30"
+ */
+export const formatClockTime = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: userTimeZone || undefined,
+  });
+};
+
+/**
+ * The HH:MM time of a timestamp in the user's timezone, as time inputs take it
+ */
+export const getClockTimeValue = (timestamp: string): string => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: userTimeZone || undefined,
+    hourCycle: "h23",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(timestamp));
+  const part = (type: string) =>
+    parts.find((item) => item.type === type)?.value || "00";
+  return `${part("hour")}:${part("minute")}`;
+};
+
+// Regions whose calendars start the week on Sunday, used when the browser
+// cannot report the locale's first day of the week
+const SUNDAY_START_REGIONS = [
+  "US",
+  "CA",
+  "MX",
+  "BR",
+  "JP",
+  "KR",
+  "TW",
+  "HK",
+  "PH",
+  "IN",
+  "IL",
+  "ZA",
+];
+
+/**
+ * First day of the week for the browser's locale (0 = Sunday, 1 = Monday, ...)
+ */
+export const getLocaleWeekStart = (): number => {
+  try {
+    const locale = new Intl.Locale(navigator.language) as Intl.Locale & {
+      getWeekInfo?: () => { firstDay: number };
+      weekInfo?: { firstDay: number };
+    };
+    const weekInfo = locale.getWeekInfo?.() ?? locale.weekInfo;
+    if (weekInfo) return weekInfo.firstDay % 7; // Intl uses 7 for Sunday
+
+    return SUNDAY_START_REGIONS.includes(locale.maximize().region || "")
+      ? 0
+      : 1;
+  } catch {
+    return 1;
+  }
+};
+
+// Monday, as user_week_start_date() assumes on the server when no week start
+// is saved (database_timezones.sql)
+export const DEFAULT_WEEK_START = 1;
+
+/**
+ * The user's week start setting, or Monday when none is saved
+ */
+export const resolveWeekStart = (setting?: number | null): number =>
+  setting === null || setting === undefined ? DEFAULT_WEEK_START : setting;
+
+/**
+ * First day (YYYY-MM-DD) of the week containing `date`
+ */
+export const getWeekStartDate = (date: string, weekStart: number): string => {
+  const day = new Date(`${date}T00:00`).getDay();
+  return addDays(date, -((day - weekStart + 7) % 7));
+};
+
+/**
+ * Weekday indexes (0 = Sunday) in display order for a week start
+ */
+export const getWeekdayOrder = (weekStart: number): number[] =>
+  Array.from({ length: 7 }, (_, i) => (weekStart + i) % 7);
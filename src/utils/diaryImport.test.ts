@@ -0,0 +1,178 @@
+import { getDailyLimitErrors, parseCsv, parseDiaryCsv } from "./diaryImport";
+
+jest.mock("../config/supabase", () => ({ supabase: {} }));
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("2024-03-14,120,Morning\n2024-03-15,90,")).toEqual([
+      ["2024-03-14", "120", "Morning"],
+      ["2024-03-15", "90", ""],
+    ]);
+  });
+
+  it("keeps delimiters, escaped quotes and line breaks inside quotes", () => {
+    expect(parseCsv('2024-03-14,120,"Patch, then ""rest""\nat home"')).toEqual([
+      ["2024-03-14", "120", 'Patch, then "rest"\nat home'],
+    ]);
+  });
+
+  it("handles CRLF line endings and drops blank lines", () => {
+    expect(parseCsv("a,b\r\n\r\n,\r\nc,d\r\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("uses semicolons when the first line does", () => {
+    expect(
+      parseCsv("date;minutes;notes\n14.03.2024;120;Patch, left eye")
+    ).toEqual([
+      ["date", "minutes", "notes"],
+      ["14.03.2024", "120", "Patch, left eye"],
+    ]);
+  });
+
+  it("keeps semicolons in the notes of a comma file", () => {
+    expect(parseCsv("date,minutes,notes\n2024-03-14,120,Patch; tired")).toEqual(
+      [
+        ["date", "minutes", "notes"],
+        ["2024-03-14", "120", "Patch; tired"],
+      ]
+    );
+  });
+});
+
+describe("parseDiaryCsv", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2024, 2, 20, 12));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("skips a header row and normalizes dates", () => {
+    const rows = parseDiaryCsv(
+      "date,minutes,notes\n14.03.2024,120,Morning\n15/03/2024,90,"
+    );
+
+    expect(rows).toEqual([
+      {
+        line: 2,
+        date: "2024-03-14",
+        minutes: 120,
+        notes: "Morning",
+        error: null,
+        conflict: null,
+      },
+      {
+        line: 3,
+        date: "2024-03-15",
+        minutes: 90,
+        notes: "",
+        error: null,
+        conflict: null,
+      },
+    ]);
+  });
+
+  it("numbers rows by their line in the file", () => {
+    const rows = parseDiaryCsv(
+      'date,minutes,notes\r\n\r\n2024-03-14,120,"Patch\nat home"\r\n2024-03-15,90,'
+    );
+
+    expect(rows.map((row) => row.line)).toEqual([3, 5]);
+  });
+
+  it("reports an invalid date in the first row instead of skipping it", () => {
+    const rows = parseDiaryCsv("31.02.2024,120\n2024-03-14,90");
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0].line).toBe(1);
+    expect(rows[0].error).toMatch(/Date must be/);
+    expect(rows[1].error).toBeNull();
+  });
+
+  it("checks minutes and future dates", () => {
+    const [notNumber, tooShort, tooLong, future] = parseDiaryCsv(
+      "2024-03-14,abc\n2024-03-14,20\n2024-03-14,1500\n2024-03-21,60"
+    ).map((row) => row.error);
+
+    expect(notNumber).toMatch(/whole number/);
+    expect(tooShort).toMatch(/Minimum session/);
+    expect(tooLong).toMatch(/24 hours/);
+    expect(future).toMatch(/future/);
+  });
+
+  it("flags days that already have saved entries", () => {
+    const rows = parseDiaryCsv("2024-03-15,60\n2024-03-16,45\n2024-03-17,45", [
+      { date: "2024-03-15", time_spent_minutes: 60 },
+      { date: "2024-03-16", time_spent_minutes: 30 },
+    ]);
+
+    expect(rows[0].conflict).toMatch(/same duration/);
+    expect(rows[1].conflict).toMatch(/1 entry already logged/);
+    expect(rows[2].conflict).toBeNull();
+  });
+
+  it("keeps patients inside the backfill window unless a range is open", () => {
+    const text = "2024-03-10,60\n2024-03-01,60\n2024-03-16,60";
+
+    const patientRows = parseDiaryCsv(
+      text,
+      [],
+      [{ start_date: "2024-03-08", end_date: "2024-03-12" }]
+    );
+    expect(patientRows.map((row) => row.error)).toEqual([
+      null,
+      expect.stringMatching(/Older than the last 5 days/),
+      null,
+    ]);
+
+    const doctorRows = parseDiaryCsv(text);
+    expect(doctorRows.every((row) => row.error === null)).toBe(true);
+  });
+});
+
+describe("getDailyLimitErrors", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2024, 2, 20, 12));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const existingLogs = [{ date: "2024-03-14", time_spent_minutes: 300 }];
+
+  it("checks the selected rows against the limits of their day", () => {
+    const rows = parseDiaryCsv(
+      "2024-03-14,600\n2024-03-14,600\n2024-03-15,60",
+      existingLogs
+    );
+
+    const errors = getDailyLimitErrors(rows, existingLogs, new Set([1, 2, 3]));
+
+    expect(Array.from(errors.entries())).toEqual([
+      [2, "Day would add up to more than 24 hours."],
+    ]);
+  });
+
+  it("only counts the rows that are selected", () => {
+    const rows = parseDiaryCsv("2024-03-14,600\n2024-03-14,600", existingLogs);
+
+    expect(getDailyLimitErrors(rows, existingLogs, new Set([2])).size).toBe(0);
+  });
+
+  it("limits the number of entries per day", () => {
+    const text = Array.from({ length: 11 }, () => "2024-03-16,30").join("\n");
+    const rows = parseDiaryCsv(text);
+    const lines = new Set(rows.map((row) => row.line));
+
+    expect(Array.from(getDailyLimitErrors(rows, [], lines).keys())).toEqual([
+      11,
+    ]);
+  });
+});
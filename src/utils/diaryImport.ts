@@ -0,0 +1,276 @@
+// Parsing and checking of paper diary CSV files before they are imported
+import { getLocalDateString, getToday } from "./dates";
+import {
+  BackfillRange,
+  MAX_DAILY_MINUTES,
+  MAX_ENTRIES_PER_DAY,
+  MIN_SESSION_MINUTES,
+  getEarliestLoggableDate,
+  isInBackfillRange,
+} from "./logValidation";
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ExistingLog {
+  date: string;
+  time_spent_minutes: number;
+}
+
+export interface ImportRow {
+  line: number; // Line in the CSV file, for error messages
+  date: string;
+  minutes: number;
+  notes: string;
+  error: string | null; // Row cannot be imported
+  conflict: string | null; // Row can be imported but needs a second look
+}
+
+// Spreadsheets in many European locales save with ";" - the first line tells
+// which one the file uses, so the other can appear in notes
+const detectDelimiter = (text: string): "," | ";" => {
+  let commas = 0;
+  let semicolons = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === "\n" || char === "\r")) {
+      break;
+    } else if (!inQuotes && char === ",") {
+      commas++;
+    } else if (!inQuotes && char === ";") {
+      semicolons++;
+    }
+  }
+
+  return semicolons > commas ? ";" : ",";
+};
+
+interface CsvRecord {
+  line: number; // Line of the file the record starts on
+  fields: string[];
+}
+
+// Splits CSV text into records, keeping the file line each one starts on
+const parseCsvRecords = (text: string): CsvRecord[] => {
+  const delimiter = detectDelimiter(text);
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+      line++;
+    }
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+        line++;
+      }
+      row.push(field);
+      records.push({ line: rowLine, fields: row });
+      row = [];
+      field = "";
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    records.push({ line: rowLine, fields: row });
+  }
+
+  // Drop blank lines
+  return records.filter(({ fields }) => fields.some((value) => value.trim()));
+};
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields with the
+ * delimiter, escaped quotes ("") and line breaks. The delimiter is "," or ";",
+ * whichever the first line uses.
+ */
+export const parseCsv = (text: string): string[][] =>
+  parseCsvRecords(text).map(({ fields }) => fields);
+
+// Accepts YYYY-MM-DD as well as DD.MM.YYYY and DD/MM/YYYY from spreadsheets
+const normalizeDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number, month: number, day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const european = trimmed.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (european) {
+    [day, month, year] = [
+      Number(european[1]),
+      Number(european[2]),
+      Number(european[3]),
+    ];
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return getLocalDateString(date);
+};
+
+/**
+ * Reads date, minutes and notes columns from a diary CSV and checks each row
+ * against the logging rules. Patients importing their own diary pass their
+ * approved backfill ranges and rows older than the 5-day window must fall in
+ * one; doctors pass null and may import any past date. The daily limits
+ * depend on which rows are imported and are checked by getDailyLimitErrors().
+ */
+export const parseDiaryCsv = (
+  text: string,
+  existingLogs: ExistingLog[] = [],
+  backfillRanges: BackfillRange[] | null = null
+): ImportRow[] => {
+  const records = parseCsvRecords(text);
+
+  // Skip a header row such as "date,minutes,notes"; a first row with digits in
+  // its date column is data, and an invalid date there is reported
+  const startIndex =
+    records.length > 0 && !/\d/.test(records[0].fields[0] || "") ? 1 : 0;
+
+  const rows: ImportRow[] = records
+    .slice(startIndex)
+    .map(({ line, fields: [date = "", minutes = "", ...notes] }) => {
+      const normalizedDate = normalizeDate(date);
+      const parsedMinutes = Number(minutes.trim());
+      const row: ImportRow = {
+        line,
+        date: normalizedDate || date.trim(),
+        minutes: Number.isInteger(parsedMinutes) ? parsedMinutes : 0,
+        notes: notes.join(", ").trim().substring(0, 1000),
+        error: null,
+        conflict: null,
+      };
+
+      if (!normalizedDate) {
+        row.error = "Date must be YYYY-MM-DD, DD.MM.YYYY or DD/MM/YYYY.";
+      } else if (!Number.isInteger(parsedMinutes) || !minutes.trim()) {
+        row.error = "Minutes must be a whole number.";
+      } else if (parsedMinutes < MIN_SESSION_MINUTES) {
+        row.error = "Minimum session duration is 30 minutes.";
+      } else if (parsedMinutes > MAX_DAILY_MINUTES) {
+        row.error = "Time cannot exceed 24 hours in a day.";
+      } else if (normalizedDate > getToday()) {
+        row.error = "Date is in the future.";
+      } else if (
+        backfillRanges &&
+        normalizedDate < getEarliestLoggableDate() &&
+        !isInBackfillRange(normalizedDate, backfillRanges)
+      ) {
+        row.error = "Older than the last 5 days and not opened by your doctor.";
+      }
+
+      return row;
+    });
+
+  return markConflicts(rows, existingLogs);
+};
+
+const groupByDate = (logs: ExistingLog[]) => {
+  const byDate = new Map<string, ExistingLog[]>();
+  logs.forEach((log) => {
+    byDate.set(log.date, [...(byDate.get(log.date) || []), log]);
+  });
+  return byDate;
+};
+
+// Flags rows whose day already has entries saved
+const markConflicts = (
+  rows: ImportRow[],
+  existingLogs: ExistingLog[]
+): ImportRow[] => {
+  const existingByDate = groupByDate(existingLogs);
+
+  return rows.map((row) => {
+    const existing = existingByDate.get(row.date) || [];
+    if (row.error || existing.length === 0) return row;
+
+    if (existing.some((log) => log.time_spent_minutes === row.minutes)) {
+      return {
+        ...row,
+        conflict: "An entry with the same duration already exists.",
+      };
+    }
+    return {
+      ...row,
+      conflict: `${existing.length} entr${
+        existing.length === 1 ? "y" : "ies"
+      } already logged for this day.`,
+    };
+  });
+};
+
+/**
+ * Checks the selected rows, in file order, against the entry count and total
+ * time allowed per day, counting the entries already saved. Returns the error
+ * of each selected row that would break a limit, by line; those rows are not
+ * counted toward the rows after them.
+ */
+export const getDailyLimitErrors = (
+  rows: ImportRow[],
+  existingLogs: ExistingLog[],
+  selectedLines: Set<number>
+): Map<number, string> => {
+  const existingByDate = groupByDate(existingLogs);
+  const dayTotals = new Map<string, { count: number; minutes: number }>();
+  const errors = new Map<number, string>();
+
+  rows
+    .filter((row) => !row.error && selectedLines.has(row.line))
+    .forEach((row) => {
+      if (!dayTotals.has(row.date)) {
+        const existing = existingByDate.get(row.date) || [];
+        dayTotals.set(row.date, {
+          count: existing.length,
+          minutes: existing.reduce(
+            (sum, log) => sum + log.time_spent_minutes,
+            0
+          ),
+        });
+      }
+      const day = dayTotals.get(row.date)!;
+
+      if (day.count + 1 > MAX_ENTRIES_PER_DAY) {
+        errors.set(row.line, "More than 10 entries for this day.");
+      } else if (day.minutes + row.minutes > MAX_DAILY_MINUTES) {
+        errors.set(row.line, "Day would add up to more than 24 hours.");
+      } else {
+        day.count += 1;
+        day.minutes += row.minutes;
+      }
+    });
+
+  return errors;
+};
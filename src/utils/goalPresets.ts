@@ -0,0 +1,76 @@
+// Goal presets doctors can apply to a patient's goal form
+import { supabase } from "../config/supabase";
+import { GoalFormValues, sumMinutes } from "./goals";
+
+export interface GoalPreset {
+  id: string;
+  doctor_id: string | null; // null for the built-in presets
+  doctor_name?: string | null;
+  name: string;
+  daily_goal_minutes: number;
+  weekly_goal_minutes: number;
+  weekday_goal_minutes: number[] | null; // Sunday first
+  note: string | null;
+  is_shared: boolean;
+}
+
+// Available to every doctor and cannot be edited
+export const BUILT_IN_PRESETS: GoalPreset[] = [
+  {
+    id: "built-in-default",
+    doctor_id: null,
+    name: "Default",
+    daily_goal_minutes: 240,
+    weekly_goal_minutes: 1680,
+    weekday_goal_minutes: null,
+    note: null,
+    is_shared: false,
+  },
+  {
+    id: "built-in-light",
+    doctor_id: null,
+    name: "Light",
+    daily_goal_minutes: 180,
+    weekly_goal_minutes: 1260,
+    weekday_goal_minutes: null,
+    note: null,
+    is_shared: false,
+  },
+  {
+    id: "built-in-intensive",
+    doctor_id: null,
+    name: "Intensive",
+    daily_goal_minutes: 300,
+    weekly_goal_minutes: 2100,
+    weekday_goal_minutes: null,
+    note: null,
+    is_shared: false,
+  },
+];
+
+/**
+ * Loads the doctor's own presets followed by those shared by other doctors
+ */
+export const fetchGoalPresets = async (): Promise<GoalPreset[]> => {
+  const { data, error } = await supabase.rpc("get_goal_presets");
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+/**
+ * Goal form values with the targets of a preset filled in
+ */
+export const applyGoalPreset = (
+  form: GoalFormValues,
+  preset: GoalPreset
+): GoalFormValues => ({
+  ...form,
+  daily_goal_minutes: preset.daily_goal_minutes,
+  weekly_goal_minutes: preset.weekly_goal_minutes,
+  weekday_goal_minutes: preset.weekday_goal_minutes,
+  derive_weekly:
+    !preset.weekday_goal_minutes ||
+    sumMinutes(preset.weekday_goal_minutes) === preset.weekly_goal_minutes,
+});
@@ -0,0 +1,90 @@
+import {
+  DEFAULT_GOAL,
+  GoalFormValues,
+  GoalVersion,
+  getAverageDailyTarget,
+  getDailyTargetForDate,
+  getFormDailyGoal,
+  getFormWeeklyGoal,
+  getGoalForDate,
+} from "./goals";
+
+jest.mock("../config/supabase", () => ({ supabase: {} }));
+
+const version = (
+  effective_from: string,
+  daily_goal_minutes: number
+): GoalVersion => ({
+  daily_goal_minutes,
+  weekly_goal_minutes: daily_goal_minutes * 7,
+  therapy_type: null,
+  effective_from,
+});
+
+describe("getDailyTargetForDate", () => {
+  // Sunday first
+  const weekdays = [60, 120, 120, 120, 120, 120, 90];
+
+  it("uses the weekday target of the date", () => {
+    const goal = { daily_goal_minutes: 110, weekday_goal_minutes: weekdays };
+
+    // 2024-03-17 is a Sunday, 2024-03-18 a Monday
+    expect(getDailyTargetForDate(goal, "2024-03-17")).toBe(60);
+    expect(getDailyTargetForDate(goal, "2024-03-18")).toBe(120);
+    expect(getDailyTargetForDate(goal, "2024-03-23")).toBe(90);
+  });
+
+  it("falls back to the daily goal without weekday targets", () => {
+    const goal = { daily_goal_minutes: 110, weekday_goal_minutes: null };
+
+    expect(getDailyTargetForDate(goal, "2024-03-17")).toBe(110);
+  });
+});
+
+describe("getGoalForDate", () => {
+  const versions = [
+    version("2024-03-01", 240),
+    version("2024-03-10", 180),
+    version("2024-04-01", 120),
+  ];
+
+  it("returns the version in force on the date", () => {
+    expect(getGoalForDate(versions, "2024-03-10").daily_goal_minutes).toBe(180);
+    expect(getGoalForDate(versions, "2024-03-31").daily_goal_minutes).toBe(180);
+    expect(getGoalForDate(versions, "2024-05-01").daily_goal_minutes).toBe(120);
+  });
+
+  it("uses the first version before any was in force", () => {
+    expect(getGoalForDate(versions, "2024-02-01").daily_goal_minutes).toBe(240);
+  });
+
+  it("uses the default goal without versions", () => {
+    expect(getGoalForDate([], "2024-03-10")).toBe(DEFAULT_GOAL);
+  });
+});
+
+describe("goal form values", () => {
+  const form: GoalFormValues = {
+    daily_goal_minutes: 200,
+    weekly_goal_minutes: 1000,
+    weekday_goal_minutes: [60, 120, 120, 120, 120, 120, 90],
+    derive_weekly: true,
+    therapy_type: null,
+    effective_from: "2024-03-20",
+    reason: "",
+  };
+
+  it("saves the rounded average of the weekday targets as the daily goal", () => {
+    expect(getAverageDailyTarget([60, 120, 120, 120, 120, 120, 90])).toBe(107);
+    expect(getFormDailyGoal(form)).toBe(107);
+    expect(getFormDailyGoal({ ...form, weekday_goal_minutes: null })).toBe(200);
+  });
+
+  it("derives the weekly goal from the weekday targets when chosen", () => {
+    expect(getFormWeeklyGoal(form)).toBe(750);
+    expect(getFormWeeklyGoal({ ...form, derive_weekly: false })).toBe(1000);
+    expect(getFormWeeklyGoal({ ...form, weekday_goal_minutes: null })).toBe(
+      1000
+    );
+  });
+});
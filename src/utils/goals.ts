@@ -0,0 +1,115 @@
+// Goal versions and the goal in force on a given day
+import { supabase } from "../config/supabase";
+import { getToday } from "./dates";
+import { TherapyType } from "./therapy";
+
+export interface GoalVersion {
+  id?: string;
+  daily_goal_minutes: number;
+  weekly_goal_minutes: number;
+  weekday_goal_minutes?: number[] | null; // Sunday first; null uses daily_goal_minutes
+  therapy_type: TherapyType | null;
+  effective_from: string; // YYYY-MM-DD
+  set_by_doctor_id?: string | null;
+  doctor_name?: string | null;
+  created_at?: string;
+  change_reason?: string | null; // Doctor's note sent to the patient
+  change_notified?: boolean; // False for changes made before notifications existed
+  acknowledged_at?: string | null; // When the patient acknowledged the change
+}
+
+export const DEFAULT_DAILY_GOAL_MINUTES = 240;
+export const DEFAULT_WEEKLY_GOAL_MINUTES = 1680;
+
+export const DEFAULT_GOAL: GoalVersion = {
+  daily_goal_minutes: DEFAULT_DAILY_GOAL_MINUTES,
+  weekly_goal_minutes: DEFAULT_WEEKLY_GOAL_MINUTES,
+  therapy_type: null,
+  effective_from: "1970-01-01",
+};
+
+// Weekday names in Date.getDay() order, and the Monday-first order they are shown in
+export const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+export const WEEKDAY_DISPLAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Daily target for the weekday of the given date
+ */
+export const getDailyTargetForDate = (
+  goal: Pick<GoalVersion, "daily_goal_minutes" | "weekday_goal_minutes">,
+  date: string
+): number =>
+  goal.weekday_goal_minutes?.[new Date(`${date}T00:00`).getDay()] ||
+  goal.daily_goal_minutes;
+
+export const sumMinutes = (values: number[]): number =>
+  values.reduce((sum, minutes) => sum + minutes, 0);
+
+/**
+ * Average of the weekday targets, stored as daily_goal_minutes for older clients
+ */
+export const getAverageDailyTarget = (weekdayTargets: number[]): number =>
+  Math.round(sumMinutes(weekdayTargets) / weekdayTargets.length);
+
+/**
+ * Goal in force on the given date. Days before the first version use the
+ * first version, so a patient's early days are not judged by the default.
+ * Expects versions sorted by effective_from, oldest first.
+ */
+export const getGoalForDate = (
+  versions: GoalVersion[],
+  date: string = getToday()
+): GoalVersion => {
+  if (versions.length === 0) return DEFAULT_GOAL;
+
+  let current = versions[0];
+  for (const version of versions) {
+    if (version.effective_from > date) break;
+    current = version;
+  }
+  return current;
+};
+
+/**
+ * Loads the goal history of a patient, oldest version first
+ */
+export const fetchGoalHistory = async (
+  userId: string
+): Promise<GoalVersion[]> => {
+  const { data, error } = await supabase.rpc("get_goal_history", {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+/**
+ * Values of a goal form, before they are sent to set_user_goal()
+ */
+export interface GoalFormValues {
+  daily_goal_minutes: number;
+  weekly_goal_minutes: number;
+  weekday_goal_minutes: number[] | null; // Sunday first; null uses the daily goal
+  derive_weekly: boolean; // Weekly goal is the sum of the weekday targets
+  therapy_type: TherapyType | null;
+  effective_from: string;
+  reason: string; // Optional note shown to the patient
+}
+
+/**
+ * Daily goal that will be saved; the average when weekday targets are used
+ */
+export const getFormDailyGoal = (form: GoalFormValues): number =>
+  form.weekday_goal_minutes
+    ? getAverageDailyTarget(form.weekday_goal_minutes)
+    : form.daily_goal_minutes;
+
+/**
+ * Weekly goal that will be saved, derived from the weekday targets if chosen
+ */
+export const getFormWeeklyGoal = (form: GoalFormValues): number =>
+  form.weekday_goal_minutes && form.derive_weekly
+    ? sumMinutes(form.weekday_goal_minutes)
+    : form.weekly_goal_minutes;
@@ -0,0 +1,65 @@
+import {
+  getEarliestLoggableDate,
+  getTimeRangeMinutes,
+  isInBackfillRange,
+  validateLogEntry,
+} from "./logValidation";
+
+jest.mock("../config/supabase", () => ({ supabase: {} }));
+
+describe("validateLogEntry", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date(2024, 2, 20, 12));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("accepts entries from today back to the start of the window", () => {
+    expect(getEarliestLoggableDate()).toBe("2024-03-15");
+    expect(validateLogEntry("2024-03-20", 30)).toBeNull();
+    expect(validateLogEntry("2024-03-15", 1440)).toBeNull();
+  });
+
+  it("rejects durations outside 30 minutes to 24 hours", () => {
+    expect(validateLogEntry("2024-03-20", 29)).toMatch(/Minimum session/);
+    expect(validateLogEntry("2024-03-20", 1441)).toMatch(/24 hours/);
+  });
+
+  it("rejects future dates", () => {
+    expect(validateLogEntry("2024-03-21", 60)).toMatch(/future dates/);
+  });
+
+  it("rejects dates before the window unless a backfill range covers them", () => {
+    const ranges = [{ start_date: "2024-03-01", end_date: "2024-03-05" }];
+
+    expect(validateLogEntry("2024-03-14", 60)).toMatch(/last 5 days/);
+    expect(validateLogEntry("2024-03-03", 60, ranges)).toBeNull();
+    expect(validateLogEntry("2024-03-06", 60, ranges)).toMatch(/last 5 days/);
+  });
+});
+
+describe("isInBackfillRange", () => {
+  it("includes both ends of a range", () => {
+    const ranges = [{ start_date: "2024-03-01", end_date: "2024-03-05" }];
+
+    expect(isInBackfillRange("2024-03-01", ranges)).toBe(true);
+    expect(isInBackfillRange("2024-03-05", ranges)).toBe(true);
+    expect(isInBackfillRange("2024-03-06", ranges)).toBe(false);
+    expect(isInBackfillRange("2024-03-03", [])).toBe(false);
+  });
+});
+
+describe("getTimeRangeMinutes", () => {
+  it("returns the minutes between two times on the same day", () => {
+    expect(getTimeRangeMinutes("09:15", "11:00")).toBe(105);
+  });
+
+  it("returns 0 for missing or reversed times", () => {
+    expect(getTimeRangeMinutes("", "11:00")).toBe(0);
+    expect(getTimeRangeMinutes("11:00", "09:00")).toBe(0);
+    expect(getTimeRangeMinutes("11:00", "11:00")).toBe(0);
+  });
+});
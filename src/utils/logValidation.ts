@@ -0,0 +1,97 @@
+// Safety rules for activity log entries
+import { supabase } from "../config/supabase";
+import { getDateStringDaysAgo, getToday } from "./dates";
+
+export const MIN_SESSION_MINUTES = 30;
+export const MAX_DAILY_MINUTES = 1440;
+export const BACKFILL_WINDOW_DAYS = 5;
+export const MAX_ENTRIES_PER_DAY = 10;
+export const MAX_BACKFILL_REQUEST_DAYS = 31;
+
+/**
+ * Date range a doctor opened for logging beyond the backfill window
+ */
+export interface BackfillRange {
+  start_date: string;
+  end_date: string;
+}
+
+export interface OpenBackfill extends BackfillRange {
+  expires_at: string;
+}
+
+/**
+ * Approved backfill ranges of a patient that have not expired yet
+ */
+export const fetchOpenBackfills = async (
+  patientId: string
+): Promise<OpenBackfill[]> => {
+  const { data, error } = await supabase
+    .from("backfill_requests")
+    .select("start_date, end_date, expires_at")
+    .eq("patient_id", patientId)
+    .eq("status", "approved")
+    .gt("expires_at", new Date().toISOString())
+    .order("start_date", { ascending: true });
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+/**
+ * Earliest date (YYYY-MM-DD) a patient may log activity for
+ */
+export const getEarliestLoggableDate = (): string =>
+  getDateStringDaysAgo(BACKFILL_WINDOW_DAYS);
+
+/**
+ * Whether the date falls inside one of the approved backfill ranges
+ */
+export const isInBackfillRange = (date: string, ranges: BackfillRange[]) =>
+  ranges.some((range) => date >= range.start_date && date <= range.end_date);
+
+/**
+ * Validates the duration and date of a log entry
+ * Returns a user-facing error message, or null if the entry is valid
+ */
+export const validateLogEntry = (
+  date: string,
+  totalMinutes: number,
+  backfillRanges: BackfillRange[] = []
+): string | null => {
+  if (totalMinutes < MIN_SESSION_MINUTES) {
+    return "Minimum session duration is 30 minutes for safety reasons.";
+  }
+
+  if (totalMinutes > MAX_DAILY_MINUTES) {
+    return "Time cannot exceed 24 hours in a day.";
+  }
+
+  // Compare local date strings to avoid timezone issues
+  if (
+    date < getEarliestLoggableDate() &&
+    !isInBackfillRange(date, backfillRanges)
+  ) {
+    return "You can only log activities for the last 5 days.";
+  }
+
+  if (date > getToday()) {
+    return "You cannot log activities for future dates.";
+  }
+
+  return null;
+};
+
+/**
+ * Minutes between two HH:MM times on the same day (0 if end is not after start)
+ */
+export const getTimeRangeMinutes = (startTime: string, endTime: string) => {
+  if (!startTime || !endTime) return 0;
+
+  const [startHours, startMinutes] = startTime.split(":").map(Number);
+  const [endHours, endMinutes] = endTime.split(":").map(Number);
+  const diff = endHours * 60 + endMinutes - (startHours * 60 + startMinutes);
+
+  return diff > 0 ? diff : 0;
+};
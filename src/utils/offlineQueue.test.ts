@@ -0,0 +1,109 @@
+import { supabase } from "../config/supabase";
+import {
+  PendingLog,
+  getPendingLogs,
+  queuePendingLog,
+  syncPendingLogs,
+} from "./offlineQueue";
+
+jest.mock("../config/supabase", () => ({ supabase: { rpc: jest.fn() } }));
+
+const rpc = supabase.rpc as jest.Mock;
+
+// In-memory stand-in for the one object store the queue uses
+const records = new Map<string, PendingLog>();
+
+const fakeDatabase = {
+  close: () => {},
+  transaction: () => {
+    const transaction: any = {
+      objectStore: () => ({
+        put: (log: PendingLog) => {
+          records.set(log.client_id, log);
+          return {};
+        },
+        delete: (clientId: string) => {
+          records.delete(clientId);
+          return {};
+        },
+        index: () => ({
+          getAll: (userId: string) => ({
+            result: Array.from(records.values()).filter(
+              (log) => log.user_id === userId
+            ),
+          }),
+        }),
+      }),
+    };
+    setTimeout(() => transaction.oncomplete());
+    return transaction;
+  },
+};
+
+Object.defineProperty(window, "indexedDB", {
+  value: {
+    open: () => {
+      const request: any = { result: fakeDatabase };
+      setTimeout(() => request.onsuccess());
+      return request;
+    },
+  },
+});
+
+const pendingLog = (client_id: string, date: string): PendingLog => ({
+  client_id,
+  user_id: "patient",
+  date,
+  time_spent_minutes: 60,
+  notes: null,
+  started_at: null,
+  ended_at: null,
+  therapy_type: "patching",
+  eye: null,
+  queued_at: `${date}T10:00:00.000Z`,
+});
+
+describe("syncPendingLogs", () => {
+  beforeEach(async () => {
+    records.clear();
+    rpc.mockReset();
+    await queuePendingLog(pendingLog("first", "2024-03-14"));
+    await queuePendingLog(pendingLog("second", "2024-03-15"));
+    await queuePendingLog(pendingLog("third", "2024-03-16"));
+  });
+
+  it("drops rejected entries and keeps syncing the rest", async () => {
+    const rlsError = { code: "42501", message: "permission denied" };
+    const tooOld = { success: false, error_code: "DATE_TOO_OLD" };
+    rpc
+      .mockResolvedValueOnce({ data: null, error: rlsError })
+      .mockResolvedValueOnce({ data: tooOld, error: null })
+      .mockResolvedValueOnce({ data: { success: true }, error: null });
+
+    const result = await syncPendingLogs("patient");
+
+    expect(result.synced).toBe(1);
+    expect(result.rejected).toEqual([
+      { log: pendingLog("first", "2024-03-14"), error: rlsError },
+      { log: pendingLog("second", "2024-03-15"), error: tooOld },
+    ]);
+    expect(await getPendingLogs("patient")).toEqual([]);
+  });
+
+  it("keeps the remaining entries queued when the network fails", async () => {
+    rpc
+      .mockResolvedValueOnce({ data: { success: true }, error: null })
+      .mockResolvedValueOnce({
+        data: null,
+        error: { message: "TypeError: Failed to fetch" },
+      });
+
+    const result = await syncPendingLogs("patient");
+
+    expect(result).toEqual({ synced: 1, rejected: [] });
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(
+      (await getPendingLogs("patient")).map((log) => log.client_id)
+    ).toEqual(["second", "third"]);
+  });
+});
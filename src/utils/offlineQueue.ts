@@ -0,0 +1,177 @@
+import { supabase } from "../config/supabase";
+import { TherapyType } from "./therapy";
+import { invalidateDailyLogs } from "./dataCache";
+
+// Activity entries saved on the device while the connection is down.
+// Each entry keeps the client_id it was first submitted with, so replaying it
+// through log_activity() never creates a second row on the server.
+export interface PendingLog {
+  client_id: string;
+  user_id: string;
+  date: string;
+  time_spent_minutes: number;
+  notes: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+  therapy_type: TherapyType;
+  eye: string | null;
+  queued_at: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  rejected: { log: PendingLog; error: any }[];
+}
+
+const DB_NAME = "amblyfy-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "pendingLogs";
+const CHANGE_EVENT = "amblyfy:pending-logs-changed";
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, {
+        keyPath: "client_id",
+      });
+      store.createIndex("user_id", "user_id");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs one request against the store and resolves when its transaction commits
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyChange = () => {
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+};
+
+export const createClientId = () => crypto.randomUUID();
+
+// The same UUID for a timer session on every device and every attempt, so a
+// session stopped again after its server copy outlived an offline stop is
+// still logged once
+export const createSessionClientId = async (
+  userId: string,
+  startedAt: string
+): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${userId}:${new Date(startedAt).toISOString()}`)
+  );
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+  // Version 5 and RFC 4122 variant bits, as for a name-based UUID
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(
+    13,
+    16
+  )}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+// True when the request never got an answer from the server
+export const isNetworkError = (error: any) =>
+  !navigator.onLine ||
+  /failed to fetch|networkerror|network request failed|load failed/i.test(
+    error?.message || ""
+  );
+
+// True when the session expired; the entry is fine and is sent again later
+const isSessionError = (error: any) =>
+  error?.code === "PGRST301" || /jwt expired/i.test(error?.message || "");
+
+export const queuePendingLog = async (log: PendingLog) => {
+  await withStore("readwrite", (store) => store.put(log));
+  notifyChange();
+};
+
+export const getPendingLogs = async (userId: string): Promise<PendingLog[]> => {
+  try {
+    const logs = await withStore<PendingLog[]>("readonly", (store) =>
+      store.index("user_id").getAll(userId)
+    );
+    return logs.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+  } catch {
+    // Private browsing or storage disabled - nothing can be queued anyway
+    return [];
+  }
+};
+
+const removePendingLog = (clientId: string) =>
+  withStore("readwrite", (store) => store.delete(clientId));
+
+// Calls the listener whenever entries are queued or synced
+export const subscribeToPendingLogs = (listener: () => void) => {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+};
+
+let activeSync: Promise<SyncResult> | null = null;
+
+// Replays queued entries oldest first. Entries the server rejects (for example
+// because the backfill window has passed, or with a database error) are
+// dropped and returned so the caller can tell the user; network and session
+// failures leave the rest queued.
+export const syncPendingLogs = (userId: string): Promise<SyncResult> => {
+  if (activeSync) return activeSync;
+
+  activeSync = (async () => {
+    const result: SyncResult = { synced: 0, rejected: [] };
+    const logs = await getPendingLogs(userId);
+
+    for (const log of logs) {
+      const { data, error } = await supabase.rpc("log_activity", {
+        p_date: log.date,
+        p_minutes: log.time_spent_minutes,
+        p_notes: log.notes,
+        p_started_at: log.started_at,
+        p_ended_at: log.ended_at,
+        p_therapy_type: log.therapy_type,
+        p_eye: log.eye,
+        p_client_id: log.client_id,
+      });
+
+      // Still offline, or the session expired - try again later
+      if (error && (isNetworkError(error) || isSessionError(error))) break;
+
+      if (error) {
+        result.rejected.push({ log, error });
+      } else if (!data.success) {
+        result.rejected.push({ log, error: data });
+      } else {
+        result.synced += 1;
+        invalidateDailyLogs(userId, log.date);
+      }
+
+      await removePendingLog(log.client_id);
+    }
+
+    if (logs.length > 0) {
+      notifyChange();
+    }
+    return result;
+  })().finally(() => {
+    activeSync = null;
+  });
+
+  return activeSync;
+};
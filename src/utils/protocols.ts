@@ -0,0 +1,117 @@
+// Multi-phase treatment protocols and the phase in force on a given day
+import { supabase } from "../config/supabase";
+import { addDays, getToday } from "./dates";
+import { TherapyType } from "./therapy";
+
+export const MAX_PROTOCOL_PHASES = 10;
+export const MAX_PHASE_WEEKS = 104;
+
+export interface ProtocolPhase {
+  id?: string;
+  name: string | null;
+  duration_weeks: number;
+  daily_goal_minutes: number;
+  weekly_goal_minutes: number;
+  therapy_type: TherapyType | null;
+}
+
+export interface TreatmentProtocol {
+  id: string;
+  patient_id: string;
+  name: string;
+  start_date: string; // YYYY-MM-DD
+  phases: ProtocolPhase[]; // In order
+}
+
+export interface ScheduledPhase extends ProtocolPhase {
+  index: number;
+  start_date: string;
+  end_date: string; // Last day of the phase
+}
+
+export interface ProtocolStatus {
+  current: ScheduledPhase | null; // null before the protocol starts
+  next: ScheduledPhase | null; // null during and after the last phase
+}
+
+/**
+ * Start and end dates of every phase, back to back from the protocol start
+ */
+export const getProtocolSchedule = (
+  protocol: Pick<TreatmentProtocol, "start_date" | "phases">
+): ScheduledPhase[] => {
+  let start = protocol.start_date;
+  return protocol.phases.map((phase, index) => {
+    const end = addDays(start, phase.duration_weeks * 7 - 1);
+    const scheduled = { ...phase, index, start_date: start, end_date: end };
+    start = addDays(end, 1);
+    return scheduled;
+  });
+};
+
+/**
+ * Phase in force on the given date and the one after it. The last phase stays
+ * in force after it ends, matching the goal versions written for it.
+ */
+export const getProtocolStatus = (
+  protocol: TreatmentProtocol,
+  date: string = getToday()
+): ProtocolStatus => {
+  const schedule = getProtocolSchedule(protocol);
+  const nextIndex = schedule.findIndex((phase) => phase.start_date > date);
+
+  if (nextIndex === -1) {
+    return { current: schedule[schedule.length - 1] || null, next: null };
+  }
+  return {
+    current: nextIndex > 0 ? schedule[nextIndex - 1] : null,
+    next: schedule[nextIndex],
+  };
+};
+
+/**
+ * Label for a phase, falling back to its position
+ */
+export const getPhaseLabel = (phase: ScheduledPhase): string =>
+  phase.name || `Phase ${phase.index + 1}`;
+
+/**
+ * Loads the active protocol of a patient, or null when there is none
+ */
+export const fetchActiveProtocol = async (
+  userId: string
+): Promise<TreatmentProtocol | null> => {
+  const { data, error } = await supabase
+    .from("treatment_protocols")
+    .select(
+      `
+      id,
+      patient_id,
+      name,
+      start_date,
+      treatment_protocol_phases (
+        id,
+        position,
+        name,
+        duration_weeks,
+        daily_goal_minutes,
+        weekly_goal_minutes,
+        therapy_type
+      )
+    `
+    )
+    .eq("patient_id", userId)
+    .eq("status", "active")
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const { treatment_protocol_phases, ...protocol } = data as any;
+  return {
+    ...protocol,
+    phases: [...(treatment_protocol_phases || [])]
+      .sort((a: any, b: any) => a.position - b.position)
+      .map(({ position, ...phase }: any) => phase),
+  };
+};
@@ -0,0 +1,157 @@
+// Live updates from Supabase realtime (see database_realtime.sql).
+// Each channel is opened once and shared by every component listening to it;
+// it is closed when the last listener unsubscribes.
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "../config/supabase";
+import {
+  invalidateDailyLogs,
+  invalidateGoals,
+  isDailyLogCached,
+} from "./dataCache";
+
+interface SharedChannel {
+  channel: RealtimeChannel;
+  listeners: Set<() => void>;
+}
+
+const channels = new Map<string, SharedChannel>();
+
+// Opens the named channel on first use; listen() registers its table changes
+const subscribeToChannel = (
+  name: string,
+  listen: (channel: RealtimeChannel, notify: () => void) => RealtimeChannel,
+  listener: () => void
+) => {
+  let shared = channels.get(name);
+
+  if (!shared) {
+    const listeners = new Set<() => void>();
+    const notify = () => listeners.forEach((callback) => callback());
+    shared = {
+      channel: listen(supabase.channel(name), notify).subscribe(),
+      listeners,
+    };
+    channels.set(name, shared);
+  }
+
+  shared.listeners.add(listener);
+
+  return () => {
+    shared!.listeners.delete(listener);
+    if (shared!.listeners.size === 0 && channels.get(name) === shared) {
+      channels.delete(name);
+      supabase.removeChannel(shared!.channel);
+    }
+  };
+};
+
+/**
+ * Keeps the cached logs and goals of a patient current while they are shown;
+ * components using useDailyLogs() / useGoals() reload on their own
+ */
+export const subscribeToPatientData = (patientId: string) =>
+  subscribeToChannel(
+    `patient-data-${patientId}`,
+    (channel) =>
+      channel
+        .on(
+          "postgres_changes",
+          {
+            event: "INSERT",
+            schema: "public",
+            table: "daily_logs",
+            filter: `user_id=eq.${patientId}`,
+          },
+          (payload) => {
+            invalidateDailyLogs(patientId, payload.new.date);
+          }
+        )
+        .on(
+          "postgres_changes",
+          {
+            event: "UPDATE",
+            schema: "public",
+            table: "daily_logs",
+            filter: `user_id=eq.${patientId}`,
+          },
+          (payload) => {
+            invalidateDailyLogs(patientId, payload.new.date);
+          }
+        )
+        // Deletes cannot be filtered. The old row is complete only when RLS
+        // lets it through; otherwise it carries just the id, which is looked
+        // up in the patient's cached logs.
+        .on(
+          "postgres_changes",
+          { event: "DELETE", schema: "public", table: "daily_logs" },
+          (payload) => {
+            const deleted = payload.old as {
+              id?: string;
+              user_id?: string;
+              date?: string;
+            };
+            const isPatientLog = deleted.user_id
+              ? deleted.user_id === patientId
+              : !!deleted.id && isDailyLogCached(patientId, deleted.id);
+
+            if (isPatientLog) {
+              invalidateDailyLogs(patientId, deleted.date);
+            }
+          }
+        )
+        .on(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "user_goals",
+            filter: `user_id=eq.${patientId}`,
+          },
+          () => {
+            invalidateGoals(patientId);
+          }
+        )
+        .on(
+          "postgres_changes",
+          {
+            event: "*",
+            schema: "public",
+            table: "user_goal_versions",
+            filter: `user_id=eq.${patientId}`,
+          },
+          () => {
+            invalidateGoals(patientId);
+          }
+        ),
+    () => {}
+  );
+
+/**
+ * Calls the listener when patients are linked to or unlinked from a doctor
+ */
+export const subscribeToPatientAccess = (
+  doctorId: string,
+  listener: () => void
+) =>
+  subscribeToChannel(
+    `patient-access-${doctorId}`,
+    (channel, notify) =>
+      channel
+        .on(
+          "postgres_changes",
+          {
+            event: "INSERT",
+            schema: "public",
+            table: "doctor_user_access",
+            filter: `doctor_id=eq.${doctorId}`,
+          },
+          notify
+        )
+        // Deletes only carry the row id and cannot be filtered by doctor
+        .on(
+          "postgres_changes",
+          { event: "DELETE", schema: "public", table: "doctor_user_access" },
+          notify
+        ),
+    listener
+  );
@@ -0,0 +1,91 @@
+// Rewards parents set up for a number of goal days (database_rewards.sql),
+// and the printable sticker chart that goes with them
+import { supabase } from "../config/supabase";
+
+export interface Reward {
+  id: string;
+  title: string;
+  goal_days: number; // Goal days needed to unlock the reward
+  starts_on: string; // YYYY-MM-DD, goal days count from this date
+  claimed_at: string | null;
+  created_at: string;
+  goal_days_met: number; // Capped at goal_days
+  unlocked_on: string | null; // YYYY-MM-DD the last goal day needed was reached
+}
+
+export interface RewardsData {
+  today: string; // YYYY-MM-DD in the patient's timezone
+  rewards: Reward[];
+}
+
+export const MAX_REWARD_GOAL_DAYS = 365;
+
+/**
+ * Loads a patient's rewards with their progress, open rewards first
+ */
+export const fetchRewards = async (userId: string): Promise<RewardsData> => {
+  const { data, error } = await supabase.rpc("get_rewards", {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+
+  if (!data.success) throw data;
+
+  return data;
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Standalone page with one row of sticker boxes per open reward. Goal days
+ * already reached are marked with a star.
+ */
+export const buildStickerChartHtml = (rewards: Reward[], printedOn: string) => {
+  const rows = rewards
+    .filter((reward) => !reward.claimed_at)
+    .map((reward) => {
+      const boxes = Array.from(
+        { length: reward.goal_days },
+        (_, i) =>
+          `<div class="box">${
+            i < reward.goal_days_met ? "&#9733;" : `<span>${i + 1}</span>`
+          }</div>`
+      ).join("");
+      return `<section>
+  <h2>${escapeHtml(reward.title)}</h2>
+  <p>${reward.goal_days} goal days from ${reward.starts_on}</p>
+  <div class="boxes">${boxes}</div>
+</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Sticker Chart</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 24px; color: #144475; }
+  h1 { margin: 0 0 4px; }
+  h2 { margin: 24px 0 4px; }
+  p { margin: 0 0 8px; color: #555; }
+  .boxes { display: flex; flex-wrap: wrap; gap: 8px; }
+  .box { width: 56px; height: 56px; border: 3px solid #00AEC2; border-radius: 12px;
+         display: flex; align-items: center; justify-content: center; font-size: 32px; color: #E1DB1D; }
+  .box span { font-size: 14px; color: #bbb; }
+  section { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>My Sticker Chart</h1>
+<p>Add a sticker for every day you reach your goal. Printed ${printedOn}.</p>
+${rows}
+</body>
+</html>`;
+};
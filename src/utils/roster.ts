@@ -0,0 +1,107 @@
+// A doctor's patients with their goals and recent activity, one page at a
+// time (database_patient_roster.sql)
+import { supabase } from "../config/supabase";
+import { TherapyType } from "./therapy";
+
+export type RosterSort =
+  | "name"
+  | "last_log_date"
+  | "week_minutes"
+  | "goal_met_percent";
+
+export interface PatientName {
+  user_id: string;
+  name: string;
+  surname: string;
+  email: string;
+}
+
+// A patient in the calendar and statistics pickers
+export interface PickerPatient extends PatientName {
+  week_start: number | null; // The patient's own setting, 0 = Sunday
+}
+
+export interface RosterPatient extends PatientName {
+  daily_goal_minutes: number; // Goals in force today
+  weekly_goal_minutes: number;
+  weekday_goal_minutes: number[] | null; // Sunday first
+  therapy_type: TherapyType | null;
+  last_log_date: string | null; // YYYY-MM-DD
+  week_minutes: number; // Minutes counting toward the goal this week
+  goal_met_days: number; // Of the last ROSTER_GOAL_DAYS days, today excluded
+  goal_met_percent: number;
+}
+
+export interface RosterQuery {
+  search?: string; // Part of the name, surname or email
+  sort?: RosterSort;
+  ascending?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RosterPage {
+  total: number; // Patients matching the search, on every page
+  limit: number;
+  offset: number;
+  patients: RosterPatient[];
+}
+
+export const ROSTER_PAGE_SIZE = 25;
+export const ROSTER_GOAL_DAYS = 14;
+
+export const ROSTER_SORT_OPTIONS: { value: RosterSort; label: string }[] = [
+  { value: "name", label: "Name" },
+  { value: "last_log_date", label: "Last entry" },
+  { value: "week_minutes", label: "This week" },
+  { value: "goal_met_percent", label: `Goal met (${ROSTER_GOAL_DAYS} days)` },
+];
+
+/**
+ * Whether a patient's name, surname or email contains the search text
+ */
+export const matchesPatientSearch = (patient: PatientName, search: string) => {
+  const text = search.trim().toLowerCase();
+  return (
+    !text ||
+    [
+      patient.name,
+      patient.surname,
+      patient.email,
+      `${patient.name} ${patient.surname}`,
+    ].some((value) => value.toLowerCase().includes(text))
+  );
+};
+
+/**
+ * Loads the names and week starts of all of the calling doctor's patients,
+ * sorted by name, without the goals and activity of the roster
+ */
+export const fetchPatientNames = async (): Promise<PickerPatient[]> => {
+  const { data, error } = await supabase.rpc("get_patient_names");
+
+  if (error) throw error;
+
+  return data || [];
+};
+
+/**
+ * Loads one page of the calling doctor's patients
+ */
+export const fetchPatientRoster = async (
+  query: RosterQuery = {}
+): Promise<RosterPage> => {
+  const { data, error } = await supabase.rpc("get_patient_roster", {
+    p_search: query.search?.trim() || null,
+    p_sort: query.sort || "name",
+    p_ascending: query.ascending ?? true,
+    p_limit: query.limit || ROSTER_PAGE_SIZE,
+    p_offset: query.offset || 0,
+  });
+
+  if (error) throw error;
+
+  if (!data.success) throw data;
+
+  return data;
+};
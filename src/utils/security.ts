@@ -1,10 +1,64 @@
 // Security utility functions
 
+/**
+ * Friendly messages for the structured error codes returned by log_activity,
+ * the backfill RPCs and the daily_logs triggers (see database_*.sql)
+ */
+const activityLogErrorMessages: { [code: string]: string } = {
+  NOT_AUTHENTICATED: "Please sign in again to log your activity.",
+  DURATION_TOO_SHORT:
+    "Minimum session duration is 30 minutes for safety reasons.",
+  DURATION_TOO_LONG: "Time cannot exceed 24 hours in a day.",
+  DATE_IN_FUTURE: "You cannot log activities for future dates.",
+  DATE_TOO_OLD: "You can only log activities for the last 5 days.",
+  DAILY_ENTRY_LIMIT:
+    "Maximum of 10 activity entries per day allowed for safety reasons.",
+  DAILY_TOTAL_EXCEEDED:
+    "Entries for this day cannot add up to more than 24 hours.",
+  DATE_CHANGED:
+    "Entries cannot be moved to another day. Delete it and log it again.",
+  INVALID_TIME_RANGE:
+    "The end time must be after the start time and cover the logged duration.",
+  SESSION_OVERLAP:
+    "This session overlaps another entry already logged for that day.",
+  INVALID_THERAPY_TYPE: "Please choose a valid therapy type and eye.",
+  BACKFILL_RANGE_INVALID:
+    "Backfill requests must cover up to 31 days that are older than the last 5 days.",
+  BACKFILL_REASON_REQUIRED: "Please tell your doctor why you need a backfill.",
+  BACKFILL_REQUEST_EXISTS:
+    "You already have a pending request that covers some of these dates.",
+  BACKFILL_REQUEST_NOT_FOUND:
+    "This request no longer exists or has already been reviewed.",
+  NOT_AUTHORIZED: "You do not have access to this patient.",
+  IMPORT_EMPTY: "Select at least one row to import.",
+  IMPORT_TOO_LARGE: "At most 1000 rows can be imported at once.",
+  INVALID_GOAL: "Please enter valid goal values and an effective date.",
+  BULK_EMPTY: "Select at least one patient.",
+  BULK_TOO_LARGE: "At most 200 patients can be updated at once.",
+  PROTOCOL_INVALID:
+    "Please give the protocol a name, a start date from today and valid phases.",
+  PROTOCOL_NOT_FOUND: "This protocol no longer exists or has been replaced.",
+  IMPORT_ROW_INVALID:
+    "A row no longer fits the logging rules. Reload the file and try again.",
+  IMPORT_ROW_TOO_OLD:
+    "Rows older than the last 5 days need a backfill approval from your doctor.",
+  REWARD_NOT_FOUND: "This reward no longer exists.",
+  REWARD_LOCKED: "Keep going! This reward is not unlocked yet.",
+  REWARD_ALREADY_CLAIMED: "This reward has already been claimed.",
+  INVALID_SORT: "Patients cannot be sorted this way.",
+};
+
 /**
  * Sanitizes error messages for production use
  * Removes sensitive information and provides safe user-friendly messages
  */
 export const sanitizeError = (error: any): string => {
+  // Structured activity log errors are safe to show in every environment
+  const errorCode = error?.error_code || error?.message;
+  if (errorCode && activityLogErrorMessages[errorCode]) {
+    return activityLogErrorMessages[errorCode];
+  }
+
   // In development, show detailed errors
   if (process.env.NODE_ENV === "development") {
     return error.message || "An error occurred";
@@ -0,0 +1,68 @@
+// Therapy types and treated eye recorded on each log entry
+
+export type TherapyType =
+  | "patching"
+  | "atropine"
+  | "glasses"
+  | "binocular_games";
+export type Eye = "left" | "right" | "both";
+
+interface TherapyTypeOption {
+  value: TherapyType;
+  label: string;
+  color: string; // Hex colour for charts and timeline blocks
+  badgeClass: string; // Tailwind classes for small coloured badges
+  usesEye: boolean; // Whether the treated eye applies to this therapy
+}
+
+export const THERAPY_TYPES: TherapyTypeOption[] = [
+  {
+    value: "patching",
+    label: "Patching",
+    color: "#22c55e",
+    badgeClass: "bg-green-500 text-white",
+    usesEye: true,
+  },
+  {
+    value: "atropine",
+    label: "Atropine",
+    color: "#a855f7",
+    badgeClass: "bg-purple-500 text-white",
+    usesEye: true,
+  },
+  {
+    value: "glasses",
+    label: "Glasses Only",
+    color: "#3b82f6",
+    badgeClass: "bg-blue-500 text-white",
+    usesEye: false,
+  },
+  {
+    value: "binocular_games",
+    label: "Binocular Games",
+    color: "#f97316",
+    badgeClass: "bg-orange-500 text-white",
+    usesEye: false,
+  },
+];
+
+export const EYE_OPTIONS: { value: Eye; label: string }[] = [
+  { value: "left", label: "Left eye" },
+  { value: "right", label: "Right eye" },
+  { value: "both", label: "Both eyes" },
+];
+
+export const getTherapyType = (value?: string | null): TherapyTypeOption =>
+  THERAPY_TYPES.find((type) => type.value === value) || THERAPY_TYPES[0];
+
+export const getEyeLabel = (value?: string | null): string =>
+  EYE_OPTIONS.find((eye) => eye.value === value)?.label || "";
+
+/**
+ * Whether an entry counts toward a goal that may target one therapy type
+ * (entries logged before therapy types existed default to patching)
+ */
+export const countsTowardGoal = (
+  entryType: string | null | undefined,
+  goalType: string | null | undefined
+): boolean => !goalType || (entryType || "patching") === goalType;